@@ -0,0 +1,114 @@
+// ─────────────────────────────────────────────────────────────
+// Module array editor (overlay canvas)
+//
+// Top-down map of the hex grid the modules dock on. Modules are filled,
+// tinted from dusty to clean by how much of their initial dust is
+// cleared; the free cells around the array are outlined. Click a free
+// cell to dock a module there, or a module to take it out. The first
+// module (ringed) is the one the field overlays are drawn on.
+// ─────────────────────────────────────────────────────────────
+
+import { ArrayCell, cellAt, cellCenter, cellLabel, freeCells, toggleArrayCell } from './ancillia-array';
+
+const MAX_CELL_PX = 26; // pitch, px
+
+export type ArrayEditor = {
+  canvas: HTMLCanvasElement;
+  cells: ArrayCell[];       // as last drawn
+  pitch: number;            // px between cell centres
+  origin: [number, number]; // px of cell (0, 0)
+};
+
+/**
+ * `onChange` gets the array a click asks for, or null when the click
+ * would break it up (the modules must stay one docked group).
+ */
+export function createArrayEditor(
+  canvas: HTMLCanvasElement,
+  onChange: (cells: ArrayCell[] | null) => void
+): ArrayEditor {
+  const editor: ArrayEditor = { canvas, cells: [], pitch: MAX_CELL_PX, origin: [0, 0] };
+  canvas.addEventListener('click', (event) => {
+    const rect = canvas.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * canvas.width - editor.origin[0];
+    const y = ((event.clientY - rect.top) / rect.height) * canvas.height - editor.origin[1];
+    const [q, r] = cellAt(x, y, editor.pitch);
+    const docked = editor.cells.some(([cq, cr]) => cq === q && cr === r);
+    const free = freeCells(editor.cells).some(([fq, fr]) => fq === q && fr === r);
+    if (docked || free) onChange(toggleArrayCell(editor.cells, q, r));
+  });
+  return editor;
+}
+
+function hexPath(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) {
+  ctx.beginPath();
+  for (let i = 0; i < 6; i++) {
+    const angle = Math.PI / 6 + (Math.PI / 3) * i; // same orientation as the module
+    ctx.lineTo(x + radius * Math.cos(angle), y + radius * Math.sin(angle));
+  }
+  ctx.closePath();
+}
+
+/** Redraw for `cells`, with each module's cleared % when a run has samples. */
+export function drawArrayEditor(
+  editor: ArrayEditor,
+  cells: ArrayCell[],
+  cleared: number[] | null
+) {
+  editor.cells = cells;
+  const { canvas } = editor;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  // fit the modules and their free neighbours, in units of one pitch
+  const free = freeCells(cells);
+  const points = [...cells, ...free].map((cell) => cellCenter(cell, 1));
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const pitch = Math.min(
+    MAX_CELL_PX,
+    canvas.width / (maxX - minX + 1.2),
+    canvas.height / (maxY - minY + 1.2)
+  );
+  editor.pitch = pitch;
+  editor.origin = [
+    canvas.width / 2 - ((minX + maxX) / 2) * pitch,
+    canvas.height / 2 - ((minY + maxY) / 2) * pitch
+  ];
+  const radius = (pitch / Math.sqrt(3)) * 0.94;
+  const at = (cell: ArrayCell) => {
+    const [x, y] = cellCenter(cell, pitch);
+    return [x + editor.origin[0], y + editor.origin[1]];
+  };
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.lineWidth = 1;
+  ctx.setLineDash([3, 3]);
+  ctx.strokeStyle = 'rgba(181, 194, 217, 0.35)';
+  for (const cell of free) {
+    const [x, y] = at(cell);
+    hexPath(ctx, x, y, radius);
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+
+  ctx.font = '9px system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  cells.forEach((cell, m) => {
+    const [x, y] = at(cell);
+    // dusty ochre → clean glass, as on the coverage map
+    const dirt = cleared ? 1 - Math.min(Math.max(cleared[m] / 100, 0), 1) : 1;
+    ctx.fillStyle = `rgb(${Math.round(20 + dirt * 190)}, ${Math.round(32 + dirt * 110)}, ${Math.round(52 - dirt * 12)})`;
+    hexPath(ctx, x, y, radius);
+    ctx.fill();
+    ctx.strokeStyle = m === 0 ? '#ffd166' : 'rgba(232, 236, 245, 0.6)';
+    ctx.stroke();
+    ctx.fillStyle = '#e8ecf5';
+    const label = cleared ? `${cleared[m].toFixed(0)}%` : cellLabel(cell);
+    if (pitch >= 20) ctx.fillText(label, x, y);
+  });
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+}
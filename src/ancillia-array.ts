@@ -0,0 +1,228 @@
+// ─────────────────────────────────────────────────────────────
+// Module arrays (hex tiling)
+//
+// Modules dock edge to edge on a hex grid. A cell is an axial
+// coordinate (q, r): q steps one pitch along +x, r one pitch along the
+// side facing 60°. Docked modules sit one pitch apart, which puts their
+// trench rings lip to lip, so the seam between two modules is a single
+// collector both of them feed. The sim works in array coordinates; all
+// the single-module physics (field, electrodes, trench, bounds) is
+// evaluated in the frame of the module a point is over, which is the
+// nearest one (see nearestModule).
+//
+// Shared by the scene and the headless sim: no rendering imports.
+// ─────────────────────────────────────────────────────────────
+
+import { hexRadius, ModuleGeometry } from './ancillia-geometry';
+
+export type ArrayCell = [number, number]; // axial (q, r)
+
+export type ModuleArrayConfig = {
+  cells: ArrayCell[]; // the first is the reference module (field overlays)
+};
+
+export const DEFAULT_ARRAY_CONFIG: ModuleArrayConfig = { cells: [[0, 0]] };
+
+// Axial step to the module across each side; side k faces 60°·(k + 1),
+// matching hexSideAt
+export const SIDE_STEPS: readonly ArrayCell[] = [
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+  [0, -1],
+  [1, -1],
+  [1, 0]
+];
+
+/**
+ * One trench side of the array. Docked pairs share an entry (the seam
+ * collector); sides on the array's rim have `neighbour` −1.
+ */
+export type ArrayEdge = {
+  module: number;
+  side: number;
+  neighbour: number;
+  neighbourSide: number; // −1 on the rim
+};
+
+export type ModuleArray = {
+  cells: ArrayCell[];
+  pitch: number;          // m between docked module centres
+  centers: Float64Array;  // x, z per module
+  neighbours: Int32Array; // [module * 6 + side]: docked module or −1
+  edges: ArrayEdge[];
+  edgeOf: Int32Array;     // [module * 6 + side]: index into edges
+  index: Map<number, number>; // cellKey → module
+};
+
+const SQRT3 = Math.sqrt(3);
+const KEY_SPAN = 1 << 12; // |q|, |r| < 2048
+
+function cellKey(q: number, r: number) {
+  return (q + KEY_SPAN / 2) * KEY_SPAN + (r + KEY_SPAN / 2);
+}
+
+/** Centre spacing of docked modules (trench rings touching). */
+export function arrayPitch(geometry: ModuleGeometry) {
+  return hexRadius(geometry) * SQRT3 * geometry.trenchOuterScale;
+}
+
+export function cellCenter([q, r]: ArrayCell, pitch: number): [number, number] {
+  return [pitch * (q + r / 2), pitch * r * (SQRT3 / 2)];
+}
+
+export function cellLabel([q, r]: ArrayCell) {
+  return `${q},${r}`;
+}
+
+/** Build the lookup tables for `config` with modules of `geometry`. */
+export function buildModuleArray(config: ModuleArrayConfig, geometry: ModuleGeometry): ModuleArray {
+  const cells = config.cells.map(([q, r]): ArrayCell => [q, r]);
+  const pitch = arrayPitch(geometry);
+  const n = cells.length;
+  const centers = new Float64Array(n * 2);
+  const index = new Map<number, number>();
+  cells.forEach((cell, m) => {
+    centers.set(cellCenter(cell, pitch), m * 2);
+    index.set(cellKey(cell[0], cell[1]), m);
+  });
+
+  const neighbours = new Int32Array(n * 6).fill(-1);
+  const edgeOf = new Int32Array(n * 6).fill(-1);
+  const edges: ArrayEdge[] = [];
+  cells.forEach(([q, r], m) => {
+    for (let side = 0; side < 6; side++) {
+      const [dq, dr] = SIDE_STEPS[side];
+      const other = index.get(cellKey(q + dq, r + dr)) ?? -1;
+      neighbours[m * 6 + side] = other;
+      if (edgeOf[m * 6 + side] >= 0) continue; // listed from the other side
+      const otherSide = other >= 0 ? (side + 3) % 6 : -1;
+      edgeOf[m * 6 + side] = edges.length;
+      if (other >= 0) edgeOf[other * 6 + otherSide] = edges.length;
+      edges.push({ module: m, side, neighbour: other, neighbourSide: otherSide });
+    }
+  });
+
+  return { cells, pitch, centers, neighbours, edges, edgeOf, index };
+}
+
+// Key of the cell (x, z) falls in: fractional axial coordinates, then
+// cube rounding (allocation-free, for the per-sample lookups)
+function cellKeyAt(x: number, z: number, pitch: number) {
+  const r = z / (pitch * (SQRT3 / 2));
+  const q = x / pitch - r / 2;
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return cellKey(rq, rr);
+}
+
+/** Axial cell of a grid with this pitch that (x, z) falls in. */
+export function cellAt(x: number, z: number, pitch: number): ArrayCell {
+  const key = cellKeyAt(x, z, pitch);
+  return [Math.floor(key / KEY_SPAN) - KEY_SPAN / 2, (key % KEY_SPAN) - KEY_SPAN / 2];
+}
+
+/** Module whose cell (x, z) falls in, else the closest one. */
+export function nearestModule(array: ModuleArray, x: number, z: number) {
+  if (array.cells.length === 1) return 0;
+
+  const hit = array.index.get(cellKeyAt(x, z, array.pitch));
+  if (hit !== undefined) return hit;
+
+  // over an empty cell (outside the array): the nearest module
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let m = 0; m < array.cells.length; m++) {
+    const distance = (x - array.centers[m * 2]) ** 2 + (z - array.centers[m * 2 + 1]) ** 2;
+    if (distance < bestDistance) {
+      best = m;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** The side of `from` that `to` is docked on, or −1 if they are not neighbours. */
+export function sharedSide(array: ModuleArray, from: number, to: number) {
+  for (let side = 0; side < 6; side++) {
+    if (array.neighbours[from * 6 + side] === to) return side;
+  }
+  return -1;
+}
+
+export function edgeLabel(array: ModuleArray, edge: ArrayEdge) {
+  const own = `${cellLabel(array.cells[edge.module])}/${edge.side}`;
+  if (edge.neighbour < 0) return own;
+  return `${own}|${cellLabel(array.cells[edge.neighbour])}/${edge.neighbourSide}`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Editing
+// ─────────────────────────────────────────────────────────────
+
+function connected(cells: ArrayCell[]) {
+  if (cells.length === 0) return false;
+  const keys = new Set(cells.map(([q, r]) => cellKey(q, r)));
+  const seen = new Set([cellKey(cells[0][0], cells[0][1])]);
+  const queue: ArrayCell[] = [cells[0]];
+  while (queue.length) {
+    const [q, r] = queue.pop()!;
+    for (const [dq, dr] of SIDE_STEPS) {
+      const key = cellKey(q + dq, r + dr);
+      if (keys.has(key) && !seen.has(key)) {
+        seen.add(key);
+        queue.push([q + dq, r + dr]);
+      }
+    }
+  }
+  return seen.size === keys.size;
+}
+
+/**
+ * Why `cells` is not a valid array (every module docked into one
+ * chain, no cell twice), or null when it is.
+ */
+export function arrayProblem(cells: ArrayCell[]) {
+  if (cells.length === 0) return 'needs at least one module';
+  const keys = new Set<number>();
+  for (const [q, r] of cells) {
+    if (Math.abs(q) >= KEY_SPAN / 2 || Math.abs(r) >= KEY_SPAN / 2) {
+      return `cell ${q},${r} is out of range`;
+    }
+    const key = cellKey(q, r);
+    if (keys.has(key)) return `lists cell ${q},${r} twice`;
+    keys.add(key);
+  }
+  return connected(cells) ? null : 'must be one docked group (every module next to another)';
+}
+
+/** Empty cells next to the array, where a module could dock. */
+export function freeCells(cells: ArrayCell[]): ArrayCell[] {
+  const taken = new Set(cells.map(([q, r]) => cellKey(q, r)));
+  const free: ArrayCell[] = [];
+  for (const [q, r] of cells) {
+    for (const [dq, dr] of SIDE_STEPS) {
+      const key = cellKey(q + dq, r + dr);
+      if (taken.has(key)) continue;
+      taken.add(key);
+      free.push([q + dq, r + dr]);
+    }
+  }
+  return free;
+}
+
+/** `cells` with (q, r) added or removed, or null if that breaks the array. */
+export function toggleArrayCell(cells: ArrayCell[], q: number, r: number): ArrayCell[] | null {
+  const present = cells.some(([cq, cr]) => cq === q && cr === r);
+  const next: ArrayCell[] = present
+    ? cells.filter(([cq, cr]) => cq !== q || cr !== r)
+    : [...cells, [q, r]];
+  return arrayProblem(next) === null ? next : null;
+}
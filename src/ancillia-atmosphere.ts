@@ -0,0 +1,120 @@
+// ─────────────────────────────────────────────────────────────
+// Atmosphere + aerodynamic drag
+//
+// Drag on a grain is linear in its velocity relative to the gas at
+// these Reynolds numbers, so it reduces to a per-grain rate k = F/(m·v).
+// In the continuum regime that's Stokes drag divided by the Cunningham
+// slip correction; once the mean free path dwarfs the grain (Knudsen
+// number above EPSTEIN_KNUDSEN) gas molecules hit it individually and
+// Epstein's free-molecular law takes over. At ~600 Pa of CO2 Martian
+// dust sits in the transition, so radius matters a lot.
+// ─────────────────────────────────────────────────────────────
+
+export const BOLTZMANN_CONSTANT = 1.380649e-23;
+export const GAS_CONSTANT = 8.314462618;
+
+export type AtmosphereId = 'mars' | 'lunar' | 'lab-air' | 'tvac';
+
+export const ATMOSPHERES: AtmosphereId[] = ['mars', 'lunar', 'lab-air', 'tvac'];
+
+export type AtmosphereConfig = {
+  id: AtmosphereId | 'custom';
+  pressure: number;      // Pa (0 = vacuum, no drag)
+  temperature: number;   // K
+  viscosity: number;     // Pa·s, dynamic
+  molarMass: number;     // kg/mol
+  accommodation: number; // Epstein δ (1 specular … ~1.44 diffuse + thermal)
+};
+
+export const ATMOSPHERE_PRESETS: Record<AtmosphereId, AtmosphereConfig> = {
+  mars: {
+    id: 'mars',
+    pressure: 600,
+    temperature: 210,
+    viscosity: 1.08e-5, // CO2 at 210 K
+    molarMass: 0.04401,
+    accommodation: 1.39
+  },
+  lunar: {
+    id: 'lunar',
+    pressure: 0,
+    temperature: 250,
+    viscosity: 0,
+    molarMass: 0.004,
+    accommodation: 1.39
+  },
+  'lab-air': {
+    id: 'lab-air',
+    pressure: 101325,
+    temperature: 293,
+    viscosity: 1.81e-5,
+    molarMass: 0.02897,
+    accommodation: 1.39
+  },
+  tvac: {
+    id: 'tvac',
+    pressure: 1e-3, // residual N2, Epstein regime
+    temperature: 173,
+    viscosity: 1.1e-5,
+    molarMass: 0.028,
+    accommodation: 1.39
+  }
+};
+
+// Above this Knudsen number the Epstein law is used directly
+export const EPSTEIN_KNUDSEN = 10;
+
+export type DragRegime = 'vacuum' | 'stokes-cunningham' | 'epstein';
+
+/** Derived gas state; recompute whenever the atmosphere changes. */
+export type GasProperties = {
+  meanFreePath: number; // m
+  density: number;      // kg/m³
+  thermalSpeed: number; // m/s, mean molecular speed
+  viscosity: number;
+  accommodation: number;
+};
+
+export function gasProperties(atm: AtmosphereConfig): GasProperties {
+  if (atm.pressure <= 0) {
+    return {
+      meanFreePath: Infinity,
+      density: 0,
+      thermalSpeed: 0,
+      viscosity: 0,
+      accommodation: atm.accommodation
+    };
+  }
+  const thermalSpeed = Math.sqrt((8 * GAS_CONSTANT * atm.temperature) / (Math.PI * atm.molarMass));
+  return {
+    // kinetic theory: λ = (μ/p)·√(π R T / 2M)
+    meanFreePath:
+      (atm.viscosity / atm.pressure) *
+      Math.sqrt((Math.PI * GAS_CONSTANT * atm.temperature) / (2 * atm.molarMass)),
+    density: (atm.pressure * atm.molarMass) / (GAS_CONSTANT * atm.temperature),
+    thermalSpeed,
+    viscosity: atm.viscosity,
+    accommodation: atm.accommodation
+  };
+}
+
+export function dragRegime(gas: GasProperties, radius: number): DragRegime {
+  if (gas.density === 0) return 'vacuum';
+  return gas.meanFreePath / radius > EPSTEIN_KNUDSEN ? 'epstein' : 'stokes-cunningham';
+}
+
+/** Cunningham slip correction (Davies coefficients). */
+export function cunninghamCorrection(knudsen: number) {
+  return 1 + knudsen * (1.257 + 0.4 * Math.exp(-1.1 / knudsen));
+}
+
+/** Linear drag rate k (1/s) for a grain of `radius` and `mass`: a = −k·v. */
+export function dragRate(gas: GasProperties, radius: number, mass: number) {
+  if (gas.density === 0) return 0;
+  const knudsen = gas.meanFreePath / radius;
+  if (knudsen > EPSTEIN_KNUDSEN) {
+    const force = (4 / 3) * Math.PI * gas.accommodation * gas.density * gas.thermalSpeed * radius * radius;
+    return force / mass;
+  }
+  return (6 * Math.PI * gas.viscosity * radius) / (mass * cunninghamCorrection(knudsen));
+}
@@ -0,0 +1,77 @@
+// ─────────────────────────────────────────────────────────────
+// Charge distribution waterfall (overlay canvas)
+//
+// Each sample is one column: charge bins run bottom (negative) to top
+// (positive), brightness is the share of grains in the bin, and time
+// scrolls right to left. Polarity reversal shows up as the bright band
+// crossing the zero line.
+// ─────────────────────────────────────────────────────────────
+
+import { chargeHistogram } from './ancillia-charging';
+import { DustSimulation, DustStatus } from './ancillia-sim';
+
+const BINS = 24;
+const COUNTED = (1 << DustStatus.Attached) | (1 << DustStatus.Airborne);
+
+export type ChargeWaterfall = {
+  canvas: HTMLCanvasElement;
+  columns: Float32Array[]; // oldest first, each normalized to its peak
+  bins: Uint32Array;
+};
+
+export function createChargeWaterfall(canvas: HTMLCanvasElement): ChargeWaterfall {
+  return { canvas, columns: [], bins: new Uint32Array(BINS) };
+}
+
+/** Sample the current distribution and redraw. Range is ±dust.chargeMax. */
+export function updateChargeWaterfall(view: ChargeWaterfall, sim: DustSimulation) {
+  const { charge, status } = sim.state;
+  const limit = sim.config.dust.chargeMax;
+  const total = chargeHistogram(charge, status, COUNTED, limit, view.bins);
+
+  let peak = 0;
+  for (let b = 0; b < BINS; b++) peak = Math.max(peak, view.bins[b]);
+  const column = new Float32Array(BINS);
+  if (total > 0) {
+    for (let b = 0; b < BINS; b++) column[b] = view.bins[b] / peak;
+  }
+  view.columns.push(column);
+  if (view.columns.length > view.canvas.width) view.columns.shift();
+
+  drawChargeWaterfall(view);
+}
+
+function drawChargeWaterfall(view: ChargeWaterfall) {
+  const { canvas, columns } = view;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const w = canvas.width;
+  const h = canvas.height;
+  const rowH = h / BINS;
+
+  ctx.fillStyle = '#05070d';
+  ctx.fillRect(0, 0, w, h);
+
+  const x0 = w - columns.length;
+  for (let c = 0; c < columns.length; c++) {
+    const column = columns[c];
+    for (let b = 0; b < BINS; b++) {
+      if (column[b] === 0) continue;
+      // positive charge warm, negative cool
+      const hue = b < BINS / 2 ? 205 : 28;
+      ctx.fillStyle = `hsla(${hue}, 85%, 60%, ${column[b].toFixed(3)})`;
+      ctx.fillRect(x0 + c, h - (b + 1) * rowH, 1, rowH);
+    }
+  }
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.beginPath();
+  ctx.moveTo(0, h / 2);
+  ctx.lineTo(w, h / 2);
+  ctx.stroke();
+
+  ctx.fillStyle = '#b5c2d9';
+  ctx.font = '10px system-ui, sans-serif';
+  ctx.fillText('+q', 3, 11);
+  ctx.fillText('−q', 3, h - 3);
+}
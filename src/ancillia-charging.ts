@@ -0,0 +1,133 @@
+// ─────────────────────────────────────────────────────────────
+// Triboelectric contact charging
+//
+// Condenser model: on contact, electrons flow from the lower work
+// function surface to the higher one until the contact potential
+// difference is cancelled. Each impact only touches a small patch of the
+// grain (Hertzian area grows with impact speed), so charge relaxes toward
+// its saturation value over many contacts and can change sign when the
+// cover drives it the other way. Surface charge is capped by gas
+// breakdown, which is what limits real grains in a thin atmosphere.
+// ─────────────────────────────────────────────────────────────
+
+import { VACUUM_PERMITTIVITY } from './ancillia-field-solver';
+
+export type CoverMaterialId = 'glass' | 'ito' | 'polycarbonate' | 'ptfe';
+
+export const COVER_MATERIALS: CoverMaterialId[] = ['glass', 'ito', 'polycarbonate', 'ptfe'];
+
+/** Effective work functions (eV) used for the contact potential. */
+export const COVER_WORK_FUNCTIONS: Record<CoverMaterialId, number> = {
+  glass: 4.7,
+  ito: 4.4,
+  polycarbonate: 4.8,
+  ptfe: 5.75
+};
+
+export type ChargingConfig = {
+  enabled: boolean;
+  cover: CoverMaterialId;
+  dustWorkFunction: number;   // eV, regolith
+  separation: number;         // m, charge-transfer cutoff gap (z0)
+  surfaceChargeLimit: number; // C/m², breakdown cap on |σ|
+  contactFraction: number;    // of the grain surface touched at the reference speed
+  referenceSpeed: number;     // m/s
+  grainContacts: boolean;     // exchange charge in grain–grain contacts too
+};
+
+export const DEFAULT_CHARGING_CONFIG: ChargingConfig = {
+  enabled: false,
+  cover: 'glass',
+  dustWorkFunction: 5.0, // basaltic simulant
+  separation: 4e-10,
+  surfaceChargeLimit: 1e-5, // ~Mars surface pressure
+  contactFraction: 0.1,
+  referenceSpeed: 1,
+  grainContacts: true
+};
+
+/**
+ * Surface charge density a grain settles at after many contacts with
+ * the cover. Positive when the cover holds electrons more tightly
+ * (higher work function) than the regolith.
+ */
+export function saturationSurfaceCharge(config: ChargingConfig) {
+  const contactPotential = COVER_WORK_FUNCTIONS[config.cover] - config.dustWorkFunction; // V
+  const sigma = (VACUUM_PERMITTIVITY * contactPotential) / config.separation;
+  const limit = config.surfaceChargeLimit;
+  return Math.max(-limit, Math.min(limit, sigma));
+}
+
+// Fraction of the surface in contact for an impact at `speed` (Hertz: A ∝ v^0.8)
+function contactFraction(config: ChargingConfig, speed: number) {
+  const f = config.contactFraction * Math.pow(Math.abs(speed) / config.referenceSpeed, 0.8);
+  return Math.min(1, f);
+}
+
+/** New charge of a grain after hitting the cover at normal speed `speed`. */
+export function coverContactCharge(
+  config: ChargingConfig,
+  radius: number,
+  charge: number,
+  speed: number
+) {
+  const area = 4 * Math.PI * radius * radius;
+  const target = saturationSurfaceCharge(config) * area;
+  return charge + contactFraction(config, speed) * (target - charge);
+}
+
+/**
+ * Grain–grain contact: the touching patches even out their surface
+ * charge density, offset by the contact potential when the grains are
+ * different materials (`workFunctionGap` = φj − φi, eV; 0 for identical
+ * ones). Charge is conserved; returns the amount moved from `j` to `i`.
+ */
+export function grainContactTransfer(
+  config: ChargingConfig,
+  radiusI: number,
+  chargeI: number,
+  radiusJ: number,
+  chargeJ: number,
+  speed: number,
+  workFunctionGap = 0
+) {
+  const areaI = 4 * Math.PI * radiusI * radiusI;
+  const areaJ = 4 * Math.PI * radiusJ * radiusJ;
+  const patch = contactFraction(config, speed) * Math.min(areaI, areaJ);
+  const sigmaI = chargeI / areaI;
+  const sigmaJ = chargeJ / areaJ;
+  // at equilibrium σi − σj = ε0·(φj − φi)/z0, capped by breakdown
+  const limit = config.surfaceChargeLimit;
+  const offset = (VACUUM_PERMITTIVITY * workFunctionGap) / config.separation;
+  const gap = Math.max(-2 * limit, Math.min(2 * limit, offset));
+  // each side shares half the density gap over the patch
+  return 0.5 * patch * (sigmaJ - sigmaI + gap);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Charge distribution
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Bin charges into `out` over [-limit, limit] (outliers land in the end
+ * bins). Only particles whose status is in `include` (a bitmask) count.
+ * Returns the number binned.
+ */
+export function chargeHistogram(
+  charge: Float64Array,
+  status: Uint8Array,
+  include: number,
+  limit: number,
+  out: Uint32Array
+) {
+  out.fill(0);
+  const bins = out.length;
+  let n = 0;
+  for (let i = 0; i < charge.length; i++) {
+    if (!(include & (1 << status[i]))) continue;
+    const u = (charge[i] + limit) / (2 * limit);
+    out[Math.max(0, Math.min(bins - 1, Math.floor(u * bins)))]++;
+    n++;
+  }
+  return n;
+}
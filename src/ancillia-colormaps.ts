@@ -0,0 +1,91 @@
+// ─────────────────────────────────────────────────────────────
+// Colormaps for data-driven colouring
+//
+// Perceptually ordered maps from stops, as 256-entry lookup tables:
+// viridis for magnitudes, a blue–white–red diverging map for signed
+// quantities (zero is white). Values are mapped to 0–1 over a range,
+// on a linear or a log scale.
+// ─────────────────────────────────────────────────────────────
+
+export type ColormapId = 'viridis' | 'diverging';
+export type ColorScale = 'linear' | 'log';
+
+const TABLE_SIZE = 256;
+
+// sRGB stops, evenly spaced over 0–1
+const STOPS: Record<ColormapId, number[]> = {
+  viridis: [
+    0x440154, 0x472d7b, 0x3b528b, 0x2c728e, 0x21918c, 0x28ae80, 0x5ec962, 0xaddc30, 0xfde725
+  ],
+  diverging: [
+    0x2166ac, 0x4393c3, 0x92c5de, 0xd1e5f0, 0xf7f7f7, 0xfddbc7, 0xf4a582, 0xd6604d, 0xb2182b
+  ]
+};
+
+const tables = new Map<string, Float32Array>();
+
+export function srgbToLinear(c: number) {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/** RGB (0–1) channels of a 0xRRGGBB colour. */
+export function hexChannels(hex: number): [number, number, number] {
+  return [((hex >> 16) & 255) / 255, ((hex >> 8) & 255) / 255, (hex & 255) / 255];
+}
+
+export function hexToCss(hex: number) {
+  return `#${hex.toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * The map as TABLE_SIZE RGB triples, sRGB or (for the renderer's
+ * instance colours) linear. Built once per map and space.
+ */
+export function colormapTable(map: ColormapId, linear = false) {
+  const key = `${map}:${linear}`;
+  let table = tables.get(key);
+  if (table) return table;
+  const stops = STOPS[map].map(hexChannels);
+  table = new Float32Array(TABLE_SIZE * 3);
+  for (let k = 0; k < TABLE_SIZE; k++) {
+    const u = (k / (TABLE_SIZE - 1)) * (stops.length - 1);
+    const s = Math.min(Math.floor(u), stops.length - 2);
+    const f = u - s;
+    for (let c = 0; c < 3; c++) {
+      const value = stops[s][c] + (stops[s + 1][c] - stops[s][c]) * f;
+      table[k * 3 + c] = linear ? srgbToLinear(value) : value;
+    }
+  }
+  tables.set(key, table);
+  return table;
+}
+
+/** Offset into a colormapTable() of the entry for t ∈ [0, 1] (clamped). */
+export function colormapIndex(t: number) {
+  const k = Math.round(Math.min(Math.max(t, 0), 1) * (TABLE_SIZE - 1));
+  return (k || 0) * 3; // NaN → first entry
+}
+
+/** CSS colour of the map at t ∈ [0, 1]. */
+export function colormapCss(map: ColormapId, t: number) {
+  const table = colormapTable(map);
+  const k = colormapIndex(t);
+  const [r, g, b] = [table[k], table[k + 1], table[k + 2]].map((c) => Math.round(c * 255));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/** Position of `value` in [min, max] on the scale (log needs min > 0). */
+export function normalize(value: number, min: number, max: number, scale: ColorScale = 'linear') {
+  if (scale === 'log') {
+    return Math.log(value / min) / Math.log(max / min);
+  }
+  return (value - min) / (max - min);
+}
+
+/** Smallest 1, 2 or 5 × 10ⁿ ≥ `value`, so auto ranges move in steps. */
+export function niceCeil(value: number) {
+  if (!(value > 0)) return 1;
+  const exponent = Math.pow(10, Math.floor(Math.log10(value)));
+  const mantissa = value / exponent;
+  return (mantissa <= 1 ? 1 : mantissa <= 2 ? 2 : mantissa <= 5 ? 5 : 10) * exponent;
+}
@@ -0,0 +1,61 @@
+// ─────────────────────────────────────────────────────────────
+// Surface coverage map (overlay canvas)
+//
+// Top-down view of the panel: each cell is tinted by the fraction of
+// its area shadowed by attached dust, averaged over the modules of an
+// array. The scale saturates at FULL_SCALE so early soiling is visible.
+// ─────────────────────────────────────────────────────────────
+
+import { createCoverageMap, CoverageMap, updateCoverageMap } from './ancillia-deposition';
+import { hexRadius, ModuleGeometry } from './ancillia-geometry';
+import { DustSimulation, DustStatus } from './ancillia-sim';
+
+const FULL_SCALE = 0.25;
+
+export type CoverageView = {
+  canvas: HTMLCanvasElement;
+  map: CoverageMap;
+};
+
+/** A view for modules of `geometry`; make a new one when the module changes. */
+export function createCoverageView(canvas: HTMLCanvasElement, geometry: ModuleGeometry): CoverageView {
+  return { canvas, map: createCoverageMap(hexRadius(geometry)) };
+}
+
+/** Recompute coverage from the sim and redraw. Returns the mean fraction. */
+export function updateCoverageView(view: CoverageView, sim: DustSimulation) {
+  const { canvas, map } = view;
+  updateCoverageMap(
+    map,
+    sim.state,
+    DustStatus.Attached,
+    sim.config.deposition.grainsPerParticle,
+    sim.array.centers
+  );
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return map.mean;
+  const n = map.resolution;
+  const size = Math.min(canvas.width, canvas.height);
+  const cell = size / n;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      const c = j * n + i;
+      if (!map.inside[c]) continue;
+      const t = Math.min(map.fraction[c] / FULL_SCALE, 1);
+      // clean glass → ochre dust
+      const r = Math.round(20 + t * 190);
+      const g = Math.round(32 + t * 110);
+      const b = Math.round(52 - t * 12);
+      ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.fillRect(i * cell, j * cell, Math.ceil(cell), Math.ceil(cell));
+    }
+  }
+
+  ctx.fillStyle = '#b5c2d9';
+  ctx.font = '10px system-ui, sans-serif';
+  ctx.fillText(`${(map.mean * 100).toFixed(2)}%`, size + 6, 12);
+  return map.mean;
+}
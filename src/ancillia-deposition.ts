@@ -0,0 +1,161 @@
+// ─────────────────────────────────────────────────────────────
+// Dust deposition + surface coverage
+//
+// Dust settling out of the atmosphere, specified the way field data
+// reports it (g/m² per sol), with dust-storm episodes that multiply the
+// flux. Each simulated grain stands for `grainsPerParticle` real ones,
+// and `acceleration` compresses sols into viewer minutes. The coverage
+// map turns the attached grains into an obscured-area fraction per cell.
+// ─────────────────────────────────────────────────────────────
+
+import { isInsideHex } from './ancillia-geometry';
+
+export const MARS_SOL = 88775; // s
+
+export type DepositionConfig = {
+  enabled: boolean;
+  flux: number;              // g/m²/sol
+  direction: [number, number, number]; // settling direction (y < 0)
+  speed: number;             // m/s at release
+  height: number;            // m above the panel where grains appear
+  grainsPerParticle: number; // real grains per simulated grain
+  acceleration: number;      // simulated sols per sol of sim time
+  initialFraction: number;   // of the pool laid down at start (rest arrives later)
+  storm: {
+    intensity: number;       // flux multiplier while a storm blows
+    duration: number;        // s of sim time
+    meanInterval: number;    // s between storm starts (0 = manual only)
+  };
+};
+
+export const DEFAULT_DEPOSITION_CONFIG: DepositionConfig = {
+  enabled: false,
+  flux: 0.3,
+  direction: [0.25, -1, 0.1],
+  speed: 0.05,
+  height: 0.06,
+  grainsPerParticle: 2e4,
+  acceleration: 1500, // ≈ one sol per minute
+  initialFraction: 0.2,
+  storm: {
+    intensity: 20,
+    duration: 8,
+    meanInterval: 0
+  }
+};
+
+export type DepositionState = {
+  pending: number;     // fractional grains owed to the source
+  stormUntil: number;  // sim time the current storm ends (≤ now = calm)
+  nextStorm: number;   // sim time of the next scheduled storm
+  deposited: number;   // simulated grains released so far
+  dropped: number;     // releases skipped for lack of a free slot
+};
+
+export function createDepositionState(): DepositionState {
+  return { pending: 0, stormUntil: -Infinity, nextStorm: Infinity, deposited: 0, dropped: 0 };
+}
+
+export function isStormActive(deposition: DepositionState, time: number) {
+  return time < deposition.stormUntil;
+}
+
+/**
+ * Simulated grains released per second of sim time over `area` (m²),
+ * given the mean real-grain mass in kg.
+ */
+export function depositionRate(
+  config: DepositionConfig,
+  meanGrainMass: number,
+  area: number,
+  storm: boolean
+) {
+  const kgPerSecond = (config.flux * 1e-3 * area * config.acceleration) / MARS_SOL;
+  const multiplier = storm ? config.storm.intensity : 1;
+  return (kgPerSecond * multiplier) / (meanGrainMass * config.grainsPerParticle);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Coverage map
+// ─────────────────────────────────────────────────────────────
+
+export type CoverageMap = {
+  radius: number;         // m, hex radius the map spans
+  resolution: number;
+  cellSize: number;       // m
+  inside: Uint8Array;     // cell center on the panel
+  fraction: Float32Array; // obscured fraction per cell
+  mean: number;           // area-weighted over inside cells
+};
+
+/** A map over one module of hex radius `radius` (m). */
+export function createCoverageMap(radius: number, resolution = 48): CoverageMap {
+  const cellSize = (2 * radius) / resolution;
+  const inside = new Uint8Array(resolution * resolution);
+  for (let j = 0; j < resolution; j++) {
+    for (let i = 0; i < resolution; i++) {
+      const x = -radius + (i + 0.5) * cellSize;
+      const z = -radius + (j + 0.5) * cellSize;
+      inside[j * resolution + i] = isInsideHex(x, z, radius) ? 1 : 0;
+    }
+  }
+  return {
+    radius,
+    resolution,
+    cellSize,
+    inside,
+    fraction: new Float32Array(resolution * resolution),
+    mean: 0
+  };
+}
+
+const SINGLE_MODULE = [0, 0];
+
+/**
+ * Recompute coverage from grains whose status equals `attached`. Grains
+ * land independently, so shadowed area per cell is 1 − exp(−Σ πr²/A).
+ * For a module array, `centers` holds each module's x, z and grains are
+ * folded onto one module by `state.module`: the map shows the average
+ * module.
+ */
+export function updateCoverageMap(
+  map: CoverageMap,
+  state: {
+    count: number;
+    position: Float64Array;
+    radius: Float64Array;
+    status: Uint8Array;
+    module?: Uint16Array;
+  },
+  attached: number,
+  grainsPerParticle: number,
+  centers: ArrayLike<number> = SINGLE_MODULE
+) {
+  const { radius, resolution: n, cellSize, fraction, inside } = map;
+  const modules = centers.length / 2;
+  fraction.fill(0);
+
+  for (let p = 0; p < state.count; p++) {
+    if (state.status[p] !== attached) continue;
+    const m = modules > 1 && state.module ? state.module[p] : 0;
+    const x = state.position[p * 3] - centers[m * 2];
+    const z = state.position[p * 3 + 2] - centers[m * 2 + 1];
+    const i = Math.floor((x + radius) / cellSize);
+    const j = Math.floor((z + radius) / cellSize);
+    if (i < 0 || j < 0 || i >= n || j >= n) continue;
+    const r = state.radius[p];
+    fraction[j * n + i] += (grainsPerParticle * Math.PI * r * r) / modules;
+  }
+
+  const cellArea = cellSize * cellSize;
+  let sum = 0;
+  let cells = 0;
+  for (let c = 0; c < fraction.length; c++) {
+    fraction[c] = 1 - Math.exp(-fraction[c] / cellArea);
+    if (inside[c]) {
+      sum += fraction[c];
+      cells++;
+    }
+  }
+  map.mean = cells > 0 ? sum / cells : 0;
+}
@@ -0,0 +1,111 @@
+// ─────────────────────────────────────────────────────────────
+// Determinism check (Node command line)
+//
+//   npm run determinism -- [--steps N] [--seed S]
+//
+// Runs a few configs on their own, then again side by side, stepping
+// each sim in turn, and compares state fingerprints. The repeat catches
+// anything unseeded; the interleaved run catches state one sim leaks
+// into another (caches, scratch). Prints a line per config and exits
+// non-zero on any mismatch.
+// ─────────────────────────────────────────────────────────────
+
+import { applyEnvironment, ENVIRONMENT_PRESETS } from './ancillia-environment';
+import { applySimulant, SIMULANT_PRESETS } from './ancillia-psd';
+import {
+  createDustSimulation,
+  DEFAULT_DUST_SIM_CONFIG,
+  DustSimConfig,
+  DustSimulation,
+  dustStepSize,
+  fingerprintDustState,
+  stepDustSimulation
+} from './ancillia-sim';
+import { MARS_DUST_MIX } from './ancillia-species';
+
+type CliOptions = {
+  steps: number;
+  seed: number;
+};
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { steps: 600, seed: 1 };
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    if (arg === '--steps') options.steps = Number(argv[++k]);
+    else if (arg === '--seed') options.seed = Number(argv[++k]);
+    else throw new Error(`Unexpected argument "${arg}"`);
+  }
+  if (!Number.isInteger(options.steps) || options.steps < 1 || !Number.isInteger(options.seed)) {
+    throw new Error('Usage: npm run determinism -- [--steps N] [--seed S]');
+  }
+  return options;
+}
+
+// The legacy default plus configs that go through every per-sim table:
+// measured size and charge distributions, a species mix, physical drag
+// in two atmospheres, contact charging and the deposition source
+function checkedConfigs(): [string, DustSimConfig][] {
+  const mars = applySimulant(
+    applyEnvironment(DEFAULT_DUST_SIM_CONFIG, ENVIRONMENT_PRESETS.mars),
+    SIMULANT_PRESETS['mgs-1']
+  );
+  const moon = applySimulant(
+    applyEnvironment(DEFAULT_DUST_SIM_CONFIG, ENVIRONMENT_PRESETS.moon),
+    SIMULANT_PRESETS['jsc-1a']
+  );
+  return [
+    ['default', DEFAULT_DUST_SIM_CONFIG],
+    [
+      'mars mix',
+      {
+        ...mars,
+        particleCount: 400,
+        dust: { ...mars.dust, species: MARS_DUST_MIX },
+        charging: { ...mars.charging, enabled: true },
+        deposition: { ...mars.deposition, enabled: true }
+      }
+    ],
+    ['lunar', moon]
+  ];
+}
+
+function stepOnce(sim: DustSimulation) {
+  stepDustSimulation(sim, dustStepSize(sim.config));
+}
+
+function main() {
+  const { steps, seed } = parseArgs(process.argv.slice(2));
+  const configs = checkedConfigs();
+
+  const alone = configs.map(([, config]) => {
+    const sim = createDustSimulation(config, seed);
+    for (let k = 0; k < steps; k++) stepOnce(sim);
+    return fingerprintDustState(sim.state);
+  });
+
+  const sims = configs.map(([, config]) => createDustSimulation(config, seed));
+  for (let k = 0; k < steps; k++) sims.forEach(stepOnce);
+
+  let failures = 0;
+  configs.forEach(([name], c) => {
+    const together = fingerprintDustState(sims[c].state);
+    const ok = together === alone[c];
+    if (!ok) failures++;
+    process.stdout.write(
+      `${name.padEnd(10)} seed ${seed}, ${steps} steps: ${alone[c]}` +
+        (ok ? ' ok\n' : ` but ${together} side by side\n`)
+    );
+  });
+  if (failures > 0) {
+    process.stderr.write(`${failures} of ${configs.length} configs are not deterministic\n`);
+    process.exit(1);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n`);
+  process.exit(1);
+}
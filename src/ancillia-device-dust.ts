@@ -2,23 +2,26 @@
 
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { DEFAULT_ELECTRODE_COUNTS } from './ancillia-electrodes';
+import { DEFAULT_MODULE_GEOMETRY, hexRadius } from './ancillia-geometry';
+import { DEFAULT_DUST_SIM_CONFIG } from './ancillia-sim';
 
 // ======================================================================================
-// CONFIGURATION
+// CONFIGURATION (shared values come from the main scene's defaults)
 // ======================================================================================
 
-const NUM_DUST = 260;
-const HEX_RADIUS = 0.45;
-const ELECTRODE_SEGMENTS = 12;
+const NUM_DUST = DEFAULT_DUST_SIM_CONFIG.particleCount;
+const HEX_RADIUS = hexRadius(DEFAULT_MODULE_GEOMETRY);
+const ELECTRODE_SEGMENTS = DEFAULT_ELECTRODE_COUNTS.radial;
 
-const FIELD_BASE = 1.2e5;
+const FIELD_BASE = DEFAULT_DUST_SIM_CONFIG.field.base;
 const FIELD_TRAVEL = 6.5e4;
 const FIELD_LATERAL = 3.1e4;
-const WAVE_FREQ = 42;
-const PHASE_SHIFT = (2 * Math.PI) / 3;
+const WAVE_FREQ = DEFAULT_DUST_SIM_CONFIG.drive.frequency;
+const PHASE_SHIFT = (2 * Math.PI) / DEFAULT_DUST_SIM_CONFIG.drive.phases;
 
-const GRAV = 3.71;
-const DRAG = 0.45;
+const GRAV = DEFAULT_DUST_SIM_CONFIG.gravity;
+const DRAG = DEFAULT_DUST_SIM_CONFIG.dragCoeff;
 
 let dustEnabled = true;   // <--- Toggle with D
 
@@ -0,0 +1,141 @@
+// ─────────────────────────────────────────────────────────────
+// Drive energy + breakdown limits
+//
+// An EDS panel is a capacitive load: neighbouring lanes form
+// coplanar-strip capacitors, and the driver loses ½CΔV² every time it
+// swings one through ΔV. Per cycle each neighbour pair swings through
+// its peak-to-peak difference twice, so the energy drawn is
+// C·ΔVpp² per pair per cycle. On top of that every lane leaks to the
+// grounded frame through the cover and substrate (V²/R, so a DC offset
+// costs energy too), and the driver draws its standby power while it
+// is on, even at zero amplitude. Dielectric loss and the driver's own
+// efficiency are left out; this is the floor any real driver pays.
+// ─────────────────────────────────────────────────────────────
+
+import { DriveConfig, drivePhaseVoltages, isDriveActive } from './ancillia-drive';
+import type { ElectrodeLayout } from './ancillia-electrodes';
+import { VACUUM_PERMITTIVITY, FieldSolverConfig } from './ancillia-field-solver';
+
+export const COVER_DIELECTRIC_STRENGTH = 2.5e7; // V/m, fused silica
+export const BREAKDOWN_SAFETY = 0.5;
+export const LANE_LEAKAGE_RESISTANCE = 1e10; // Ω, one lane to the frame
+export const DRIVER_STANDBY_POWER = 0.05;    // W, control and HV supply at idle
+
+/** Highest lane voltage (kV) a cover `thickness` m thick can hold off with margin. */
+export function coverBreakdownKV(
+  thickness: number,
+  strength = COVER_DIELECTRIC_STRENGTH,
+  safety = BREAKDOWN_SAFETY
+) {
+  return (strength * thickness * safety) / 1000;
+}
+
+const WAVE_SAMPLES = 256;
+const sampleVoltages = new Float64Array(8);
+
+/** Peak |V| (kV) on any phase over one period, offset included. */
+export function peakDriveVoltageKV(drive: DriveConfig) {
+  const probe = { ...drive, burst: { ...drive.burst, enabled: false } };
+  let peak = 0;
+  for (let k = 0; k < WAVE_SAMPLES; k++) {
+    drivePhaseVoltages(probe, k / (WAVE_SAMPLES * drive.frequency), sampleVoltages);
+    for (let p = 0; p < drive.phases; p++) peak = Math.max(peak, Math.abs(sampleVoltages[p]));
+  }
+  return peak / 1000;
+}
+
+/**
+ * Capacitance (F) between neighbouring lanes, summed over the layout:
+ * coplanar strips of width w and gap s between the substrate and cover
+ * dielectrics, using Hilberg's approximation for K(k′)/K(k).
+ */
+export function layoutCapacitance(layout: ElectrodeLayout, solver: FieldSolverConfig) {
+  const permittivity = (solver.substratePermittivity + solver.coverPermittivity) / 2;
+  let total = 0;
+  for (const lane of layout.lanes) {
+    const gap = Math.max(layout.pitch - lane.width, lane.width);
+    const k = gap / (gap + 2 * lane.width);
+    const kp = Math.sqrt(1 - k * k);
+    // K(k′)/K(k): narrow gaps (small k) store the most charge
+    const ratio =
+      k <= Math.SQRT1_2
+        ? Math.log((2 * (1 + Math.sqrt(kp))) / (1 - Math.sqrt(kp))) / Math.PI
+        : Math.PI / Math.log((2 * (1 + Math.sqrt(k))) / (1 - Math.sqrt(k)));
+    // one pair per lane: the lane and its next neighbour along the wave
+    total += VACUUM_PERMITTIVITY * permittivity * ratio * lane.length;
+  }
+  return total;
+}
+
+/** Mean over neighbouring phase pairs of the squared peak-to-peak difference (V²). */
+function meanPairSwingSquared(drive: DriveConfig) {
+  const probe = { ...drive, burst: { ...drive.burst, enabled: false } };
+  const lo = new Float64Array(drive.phases).fill(Infinity);
+  const hi = new Float64Array(drive.phases).fill(-Infinity);
+  for (let k = 0; k < WAVE_SAMPLES; k++) {
+    drivePhaseVoltages(probe, k / (WAVE_SAMPLES * drive.frequency), sampleVoltages);
+    for (let p = 0; p < drive.phases; p++) {
+      const dv = sampleVoltages[(p + 1) % drive.phases] - sampleVoltages[p];
+      lo[p] = Math.min(lo[p], dv);
+      hi[p] = Math.max(hi[p], dv);
+    }
+  }
+  let sum = 0;
+  for (let p = 0; p < drive.phases; p++) sum += (hi[p] - lo[p]) ** 2;
+  return sum / drive.phases;
+}
+
+/** Mean of V² (V²) over the phases and one period, offset included. */
+function meanSquareVoltage(drive: DriveConfig) {
+  const probe = { ...drive, burst: { ...drive.burst, enabled: false } };
+  let sum = 0;
+  for (let k = 0; k < WAVE_SAMPLES; k++) {
+    drivePhaseVoltages(probe, k / (WAVE_SAMPLES * drive.frequency), sampleVoltages);
+    for (let p = 0; p < drive.phases; p++) sum += sampleVoltages[p] ** 2;
+  }
+  return sum / (WAVE_SAMPLES * drive.phases);
+}
+
+/** Fraction of cycles the burst gate lets through. */
+export function driveOnFraction(drive: DriveConfig) {
+  if (!drive.burst.enabled) return 1;
+  const total = drive.burst.onCycles + drive.burst.offCycles;
+  if (total <= 0) return 1;
+  let on = 0;
+  for (let c = 0; c < total; c++) {
+    if (isDriveActive(drive, (c + 0.5) / drive.frequency)) on++;
+  }
+  return on / total;
+}
+
+/** Energy (J) the driver draws per active wave cycle. */
+export function driveEnergyPerCycle(
+  layout: ElectrodeLayout,
+  drive: DriveConfig,
+  solver: FieldSolverConfig
+) {
+  return layoutCapacitance(layout, solver) * meanPairSwingSquared(drive);
+}
+
+/** Power (W) lost through the dielectrics while the drive is on. */
+export function leakagePower(layout: ElectrodeLayout, drive: DriveConfig) {
+  return (layout.lanes.length * meanSquareVoltage(drive)) / LANE_LEAKAGE_RESISTANCE;
+}
+
+/**
+ * Energy (J) drawn over `duration` seconds of operation: swings and
+ * leakage while the burst gate is open, standby power throughout.
+ */
+export function driveEnergy(
+  layout: ElectrodeLayout,
+  drive: DriveConfig,
+  solver: FieldSolverConfig,
+  duration: number
+) {
+  const onTime = duration * driveOnFraction(drive);
+  return (
+    driveEnergyPerCycle(layout, drive, solver) * drive.frequency * onTime +
+    leakagePower(layout, drive) * onTime +
+    DRIVER_STANDBY_POWER * duration
+  );
+}
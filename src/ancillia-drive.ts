@@ -0,0 +1,131 @@
+// ─────────────────────────────────────────────────────────────
+// Multi-phase HV drive model
+//
+// Mirrors the knobs on the bench driver: phase count, waveform,
+// amplitude in kV, frequency, duty cycle, wave direction and burst
+// gating. Output is the instantaneous voltage on each phase bus.
+// ─────────────────────────────────────────────────────────────
+
+export type DriveWaveform = 'sine' | 'square' | 'triangle' | 'custom';
+export type DrivePhaseCount = 2 | 3 | 4 | 6;
+export type DriveDirection = 'forward' | 'reverse';
+
+export const DRIVE_WAVEFORMS: DriveWaveform[] = ['sine', 'square', 'triangle', 'custom'];
+export const DRIVE_PHASE_COUNTS: DrivePhaseCount[] = [2, 3, 4, 6];
+
+export type DriveConfig = {
+  phases: DrivePhaseCount;
+  waveform: DriveWaveform;
+  amplitudeKV: number;  // peak, per phase
+  offsetKV: number;     // DC bias added to every phase
+  frequency: number;    // Hz
+  /**
+   * Square: fraction of the period spent at +V (rest at −V).
+   * Others: one full cycle squeezed into this fraction, then 0 V.
+   */
+  dutyCycle: number;
+  direction: DriveDirection;
+  customSamples: number[]; // one period, normalized to [-1, 1]
+  burst: {
+    enabled: boolean;
+    onCycles: number;
+    offCycles: number;
+  };
+};
+
+export const DEFAULT_DRIVE_CONFIG: DriveConfig = {
+  phases: 3,
+  waveform: 'sine',
+  amplitudeKV: 3.0,
+  offsetKV: 0,
+  frequency: 42, // visual scale
+  dutyCycle: 1,
+  direction: 'forward',
+  customSamples: [0, 1, 0, -1],
+  burst: {
+    enabled: false,
+    onCycles: 20,
+    offCycles: 20
+  }
+};
+
+function frac(x: number) {
+  return x - Math.floor(x);
+}
+
+// Linear interpolation around one periodic table of samples
+function sampleCustom(samples: number[], u: number) {
+  if (samples.length === 0) return 0;
+  const f = u * samples.length;
+  const i = Math.floor(f) % samples.length;
+  const j = (i + 1) % samples.length;
+  const t = f - Math.floor(f);
+  return samples[i] * (1 - t) + samples[j] * t;
+}
+
+/** Normalized waveform in [-1, 1] at cycle position `u` ∈ [0, 1). */
+export function waveformValue(drive: DriveConfig, u: number) {
+  const duty = Math.min(Math.max(drive.dutyCycle, 0), 1);
+
+  if (drive.waveform === 'square') {
+    return u < duty ? 1 : -1;
+  }
+  if (u >= duty) return 0;
+
+  const v = duty > 0 ? u / duty : 0;
+  switch (drive.waveform) {
+    case 'sine':
+      return Math.sin(2 * Math.PI * v);
+    case 'triangle':
+      // starts at 0 rising, like the sine
+      return v < 0.25 ? 4 * v : v < 0.75 ? 2 - 4 * v : 4 * v - 4;
+    case 'custom':
+      return sampleCustom(drive.customSamples, v);
+  }
+  return 0;
+}
+
+/** True while the burst gate lets the drive through. */
+export function isDriveActive(drive: DriveConfig, time: number) {
+  if (!drive.burst.enabled) return true;
+  const { onCycles, offCycles } = drive.burst;
+  const total = onCycles + offCycles;
+  if (total <= 0) return true;
+  const cycle = Math.floor(time * drive.frequency);
+  return ((cycle % total) + total) % total < onCycles;
+}
+
+/**
+ * Instantaneous voltage (V) on each phase bus. Phase p leads phase 0 by
+ * p/phases of a period when forward, lags when reverse.
+ */
+export function drivePhaseVoltages(
+  drive: DriveConfig,
+  time: number,
+  out: Float64Array | number[]
+) {
+  const offset = drive.offsetKV * 1000;
+  const active = isDriveActive(drive, time);
+  const sign = drive.direction === 'forward' ? 1 : -1;
+  const cycles = time * drive.frequency;
+
+  for (let p = 0; p < drive.phases; p++) {
+    const u = frac(cycles + (sign * p) / drive.phases);
+    const v = active ? drive.amplitudeKV * 1000 * waveformValue(drive, u) : 0;
+    out[p] = v + offset;
+  }
+}
+
+export function describeDrive(drive: DriveConfig) {
+  const parts = [
+    `${drive.phases}φ ${drive.waveform}`,
+    `${drive.amplitudeKV.toFixed(1)} kV`,
+    `${drive.frequency} Hz`,
+    drive.direction
+  ];
+  if (drive.dutyCycle < 1) parts.push(`duty ${(drive.dutyCycle * 100).toFixed(0)}%`);
+  if (drive.burst.enabled) {
+    parts.push(`burst ${drive.burst.onCycles}/${drive.burst.offCycles}`);
+  }
+  return parts.join(' · ');
+}
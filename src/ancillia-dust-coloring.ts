@@ -0,0 +1,310 @@
+// ─────────────────────────────────────────────────────────────
+// Data-driven dust colouring (with an overlay legend)
+//
+// Grains are tinted by species by default. The other colourings map a
+// per-grain quantity through a colormap: radius (log scale), charge and
+// charge-to-mass ratio (diverging, so the sign reads at a glance),
+// speed and time since liftoff (viridis), or the discrete state. Ranges
+// follow the live grains, rounded to 1-2-5 steps so the legend does not
+// flicker. Recordings only carry state and motion, so in replay the
+// other quantities draw as "no data".
+// ─────────────────────────────────────────────────────────────
+
+import {
+  ColormapId,
+  colormapCss,
+  colormapIndex,
+  colormapTable,
+  ColorScale,
+  hexChannels,
+  hexToCss,
+  niceCeil,
+  normalize,
+  srgbToLinear
+} from './ancillia-colormaps';
+import type { DustFrame } from './ancillia-recording';
+import { DustSimulation, DustStatus } from './ancillia-sim';
+
+export type DustColoring =
+  | 'species'
+  | 'radius'
+  | 'charge'
+  | 'charge-to-mass'
+  | 'speed'
+  | 'liftoff-age'
+  | 'state';
+
+export const DUST_COLORINGS: DustColoring[] = [
+  'species',
+  'radius',
+  'charge',
+  'charge-to-mass',
+  'speed',
+  'liftoff-age',
+  'state'
+];
+
+type ScalarColoring = Exclude<DustColoring, 'species' | 'state'>;
+
+type ScalarSpec = {
+  label: string;
+  unit: string;
+  factor: number; // SI → unit
+  colormap: ColormapId;
+  scale: ColorScale;
+  signed: boolean;   // range is symmetric about zero
+  recorded: boolean; // recordings carry it, so replays can be coloured by it
+  value(sim: DustSimulation, frame: DustFrame, i: number): number; // SI; NaN: none
+};
+
+const SCALARS: Record<ScalarColoring, ScalarSpec> = {
+  radius: {
+    label: 'Radius',
+    unit: 'µm',
+    factor: 1e6,
+    colormap: 'viridis',
+    scale: 'log',
+    signed: false,
+    recorded: false,
+    value: (sim, _frame, i) => sim.state.radius[i]
+  },
+  charge: {
+    label: 'Charge',
+    unit: 'fC',
+    factor: 1e15,
+    colormap: 'diverging',
+    scale: 'linear',
+    signed: true,
+    recorded: false,
+    value: (sim, _frame, i) => sim.state.charge[i]
+  },
+  'charge-to-mass': {
+    label: 'Charge-to-mass',
+    unit: 'µC/g',
+    factor: 1e3,
+    colormap: 'diverging',
+    scale: 'linear',
+    signed: true,
+    recorded: false,
+    value: (sim, _frame, i) => sim.state.charge[i] / sim.state.mass[i]
+  },
+  speed: {
+    label: 'Speed',
+    unit: 'm/s',
+    factor: 1,
+    colormap: 'viridis',
+    scale: 'linear',
+    signed: false,
+    recorded: true,
+    value: (_sim, frame, i) =>
+      Math.hypot(frame.velocity[i * 3], frame.velocity[i * 3 + 1], frame.velocity[i * 3 + 2])
+  },
+  'liftoff-age': {
+    label: 'Time since liftoff',
+    unit: 's',
+    factor: 1,
+    colormap: 'viridis',
+    scale: 'linear',
+    signed: false,
+    recorded: false,
+    value: (sim, frame, i) =>
+      frame.status[i] === DustStatus.Airborne ? Math.max(frame.time - sim.state.liftoff[i], 0) : NaN
+  }
+};
+
+// by DustStatus (attached, airborne, collected)
+const STATE_COLORS = [0xb08d57, 0xf4a261, 0x2a9d8f];
+const STATE_NAMES = ['attached', 'airborne', 'collected'];
+const NO_DATA = 0x3a3f4b;
+const noData = hexChannels(NO_DATA).map(srgbToLinear);
+const stateTints = STATE_COLORS.map((hex) => hexChannels(hex).map(srgbToLinear));
+
+export type DustColors = {
+  coloring: DustColoring;
+  range: [number, number]; // SI; NaN until fitted to the grains
+  colors: Float32Array;    // linear RGB per grain, for the instances
+  legend: HTMLCanvasElement | null;
+};
+
+export function createDustColors(legend: HTMLCanvasElement | null): DustColors {
+  return { coloring: 'species', range: [NaN, NaN], colors: new Float32Array(0), legend };
+}
+
+export function setDustColoring(view: DustColors, coloring: DustColoring) {
+  view.coloring = coloring;
+  view.range = [NaN, NaN];
+}
+
+/** Status-line name of a colouring. */
+export function describeDustColoring(coloring: DustColoring) {
+  if (coloring === 'species') return 'species';
+  if (coloring === 'state') return 'state';
+  const { label, unit } = SCALARS[coloring];
+  return `${label.toLowerCase()} (${unit})`;
+}
+
+function inPlay(status: number) {
+  return status === DustStatus.Attached || status === DustStatus.Airborne;
+}
+
+// Range of the quantity over the grains in play
+function fitRange(spec: ScalarSpec, sim: DustSimulation, frame: DustFrame): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  let peak = 0;
+  for (let i = 0; i < frame.status.length; i++) {
+    if (!inPlay(frame.status[i])) continue;
+    const v = spec.value(sim, frame, i);
+    if (!Number.isFinite(v)) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+    peak = Math.max(peak, Math.abs(v));
+  }
+  if (spec.signed) {
+    const bound = niceCeil(peak * spec.factor) / spec.factor;
+    return [-bound, bound];
+  }
+  if (spec.scale === 'log') {
+    if (!(min > 0)) return [1 / spec.factor, 10 / spec.factor];
+    return max > min * 1.01 ? [min, max] : [min / 1.5, min * 1.5];
+  }
+  return [0, niceCeil(max * spec.factor) / spec.factor];
+}
+
+/**
+ * Colours for the grains of the drawn `frame`, or null for the species
+ * colouring (the renderer's own tints). `live` is false in replay.
+ */
+export function fillDustColors(
+  view: DustColors,
+  sim: DustSimulation,
+  frame: DustFrame,
+  live: boolean
+) {
+  const { coloring } = view;
+  if (coloring === 'species') return null;
+  const n = frame.status.length;
+  if (view.colors.length !== n * 3) view.colors = new Float32Array(n * 3);
+  const { colors } = view;
+
+  if (coloring === 'state') {
+    for (let i = 0; i < n; i++) {
+      colors.set(stateTints[frame.status[i]] ?? noData, i * 3);
+    }
+    return colors;
+  }
+
+  const spec = SCALARS[coloring];
+  if (!live && !spec.recorded) {
+    for (let i = 0; i < n; i++) colors.set(noData, i * 3);
+    return colors;
+  }
+  if (!Number.isFinite(view.range[0])) view.range = fitRange(spec, sim, frame);
+  const [min, max] = view.range;
+  const table = colormapTable(spec.colormap, true);
+  for (let i = 0; i < n; i++) {
+    const v = spec.value(sim, frame, i);
+    if (!Number.isFinite(v)) {
+      colors.set(noData, i * 3);
+      continue;
+    }
+    const k = colormapIndex(normalize(v, min, max, spec.scale));
+    colors[i * 3] = table[k];
+    colors[i * 3 + 1] = table[k + 1];
+    colors[i * 3 + 2] = table[k + 2];
+  }
+  return colors;
+}
+
+/** Re-fit the range to the grains and redraw the legend (status-line cadence). */
+export function updateDustColors(
+  view: DustColors,
+  sim: DustSimulation,
+  frame: DustFrame,
+  live: boolean
+) {
+  const { coloring } = view;
+  if (coloring !== 'species' && coloring !== 'state') {
+    view.range = fitRange(SCALARS[coloring], sim, frame);
+  }
+  drawDustLegend(view, sim, frame, live);
+}
+
+function formatValue(value: number) {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0) return '0';
+  return magnitude >= 100 || magnitude < 0.01 ? value.toPrecision(2) : String(Number(value.toPrecision(3)));
+}
+
+function drawSwatches(ctx: CanvasRenderingContext2D, entries: [string, string][]) {
+  let x = 0;
+  for (const [color, text] of entries) {
+    ctx.fillStyle = color;
+    ctx.fillRect(x, 17, 10, 10);
+    ctx.fillStyle = '#b5c2d9';
+    ctx.fillText(text, x + 14, 26);
+    x += ctx.measureText(text).width + 24;
+  }
+}
+
+function drawDustLegend(view: DustColors, sim: DustSimulation, frame: DustFrame, live: boolean) {
+  const { legend: canvas, coloring } = view;
+  if (!canvas) return;
+  const { species } = sim.config.dust;
+  const shown = coloring !== 'species' || species.length > 0;
+  canvas.style.display = shown ? '' : 'none';
+  const ctx = canvas.getContext('2d');
+  if (!shown || !ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.font = '10px system-ui, sans-serif';
+  ctx.fillStyle = '#b5c2d9';
+
+  if (coloring === 'species') {
+    ctx.fillText('Species', 0, 10);
+    drawSwatches(
+      ctx,
+      species.map((s) => [hexToCss(s.color), s.id])
+    );
+    return;
+  }
+
+  if (coloring === 'state') {
+    const counts = [0, 0, 0];
+    for (let i = 0; i < frame.status.length; i++) {
+      if (frame.status[i] < counts.length) counts[frame.status[i]]++;
+    }
+    const escaped = live ? ` · escaped ${sim.metrics.escapedCount} (respawned)` : '';
+    ctx.fillText(`State${escaped}`, 0, 10);
+    drawSwatches(
+      ctx,
+      STATE_NAMES.map((name, s) => [hexToCss(STATE_COLORS[s]), `${name} ${counts[s]}`])
+    );
+    return;
+  }
+
+  const spec = SCALARS[coloring];
+  ctx.fillText(`${spec.label} (${spec.unit})`, 0, 10);
+  if (!live && !spec.recorded) {
+    ctx.fillText('not in recordings', 0, 26);
+    return;
+  }
+
+  const width = canvas.width;
+  for (let x = 0; x < width; x++) {
+    ctx.fillStyle = colormapCss(spec.colormap, x / (width - 1));
+    ctx.fillRect(x, 14, 1, 10);
+  }
+
+  const [min, max] = view.range;
+  if (!Number.isFinite(min)) return;
+  const mid = spec.scale === 'log' ? Math.sqrt(min * max) : (min + max) / 2;
+  ctx.fillStyle = '#b5c2d9';
+  ctx.textAlign = 'left';
+  ctx.fillText(formatValue(min * spec.factor), 0, 36);
+  ctx.textAlign = 'center';
+  ctx.fillText(formatValue(mid * spec.factor), width / 2, 36);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatValue(max * spec.factor), width, 36);
+  ctx.textAlign = 'left';
+}
@@ -0,0 +1,376 @@
+// ─────────────────────────────────────────────────────────────
+// Electrode layout library
+//
+// Each layout generates both its trace geometry (plain segments the
+// scene turns into meshes and the field solver rasterizes) and its
+// phase mapping (which lane slot a surface point sits over, and which
+// way the wave travels there). Both come from the same parameters, so
+// the visualization and the physics can't drift apart.
+// ─────────────────────────────────────────────────────────────
+
+import { DRIVE_PHASE_COUNTS, DrivePhaseCount } from './ancillia-drive';
+import { hexApothem, hexRadius, isInsideHex, ModuleGeometry } from './ancillia-geometry';
+
+export type ElectrodeLayoutId =
+  | 'radial'
+  | 'parallel'
+  | 'interdigitated'
+  | 'spiral'
+  | 'concentric';
+
+export const ELECTRODE_LAYOUTS: ElectrodeLayoutId[] = [
+  'radial',
+  'parallel',
+  'interdigitated',
+  'spiral',
+  'concentric'
+];
+
+export type ElectrodeLayoutConfig = {
+  layout: ElectrodeLayoutId;
+  count: number; // bars / lines / fingers / spiral turns / rings
+  width: number; // m, trace width
+};
+
+/** Sensible trace counts when switching layouts. */
+export const DEFAULT_ELECTRODE_COUNTS: Record<ElectrodeLayoutId, number> = {
+  radial: 12,
+  parallel: 24,
+  interdigitated: 24,
+  spiral: 6,
+  concentric: 12
+};
+
+/**
+ * Drive phase counts a layout can be wired for in one metal layer. An
+ * interdigitated comb has one bus per side and every finger touches
+ * its bus, so it takes exactly two phases.
+ */
+export function layoutPhaseCounts(layout: ElectrodeLayoutId): DrivePhaseCount[] {
+  return layout === 'interdigitated' ? [2] : DRIVE_PHASE_COUNTS;
+}
+
+export const DEFAULT_ELECTRODE_CONFIG: ElectrodeLayoutConfig = {
+  layout: 'radial',
+  count: DEFAULT_ELECTRODE_COUNTS.radial,
+  width: 0.008
+};
+
+// Traces stay on the electrode support (panel is 0.94 of the hex).
+const ACTIVE_SCALE = 0.92;
+const CURVE_SEGMENT = 0.014; // m, polyline resolution for rings + spirals
+const CURVE_MAX_STEP = Math.PI / 12;
+
+function activeRadius(geometry: ModuleGeometry) {
+  return hexRadius(geometry) * ACTIVE_SCALE;
+}
+
+function activeApothem(geometry: ModuleGeometry) {
+  return hexApothem(geometry) * ACTIVE_SCALE;
+}
+
+function curveStep(r: number) {
+  return Math.min(CURVE_MAX_STEP, CURVE_SEGMENT / Math.max(r, 1e-3));
+}
+
+export type ElectrodeLane = {
+  cx: number;     // center x
+  cz: number;     // center z
+  angle: number;  // rotation about +y (Three.js convention), long axis = local x
+  length: number;
+  width: number;
+  phase: number;  // drive phase index
+};
+
+/**
+ * Phase mapping at a surface point. `slot` counts lanes along the
+ * travel direction; the lane under the point is driven by
+ * `slot mod phases`. `travel` and `normal` are unit vectors in x/z.
+ */
+export type LaneSample = {
+  slot: number;
+  travelX: number;
+  travelZ: number;
+  normalX: number;
+  normalZ: number;
+};
+
+export type ElectrodeLayout = {
+  id: ElectrodeLayoutId;
+  phases: number;
+  pitch: number;      // m between neighbouring lanes along `travel`
+  lanes: ElectrodeLane[];
+  hubRadius: number;  // grounded disc at the center (0 = none)
+  busRing: { inner: number; outer: number } | null;
+  sample(x: number, z: number, out: LaneSample): void;
+};
+
+export function createLaneSample(): LaneSample {
+  return { slot: 0, travelX: 1, travelZ: 0, normalX: 0, normalZ: 1 };
+}
+
+/** Endpoints of a lane's center line in the x/z plane. */
+export function laneEndpoints(lane: ElectrodeLane): [number, number, number, number] {
+  // rotation.y = θ maps local +x to (cos θ, -sin θ) in x/z
+  const dx = (Math.cos(lane.angle) * lane.length) / 2;
+  const dz = (-Math.sin(lane.angle) * lane.length) / 2;
+  return [lane.cx - dx, lane.cz - dz, lane.cx + dx, lane.cz + dz];
+}
+
+function laneBetween(
+  ax: number,
+  az: number,
+  bx: number,
+  bz: number,
+  width: number,
+  phase: number
+): ElectrodeLane {
+  const dx = bx - ax;
+  const dz = bz - az;
+  return {
+    cx: (ax + bx) / 2,
+    cz: (az + bz) / 2,
+    angle: Math.atan2(-dz, dx),
+    length: Math.sqrt(dx * dx + dz * dz),
+    width,
+    phase
+  };
+}
+
+// Polyline → lanes, dropping pieces that leave the active area (hex of
+// radius `active`)
+function polylineLanes(
+  points: [number, number][],
+  width: number,
+  phase: number,
+  active: number,
+  lanes: ElectrodeLane[]
+) {
+  for (let i = 0; i + 1 < points.length; i++) {
+    const [ax, az] = points[i];
+    const [bx, bz] = points[i + 1];
+    if (!isInsideHex(ax, az, active) || !isInsideHex(bx, bz, active)) continue;
+    lanes.push(laneBetween(ax, az, bx, bz, width, phase));
+  }
+}
+
+// Half-height of the (pointy-in-z) hex of radius `radius` at a given x
+function hexHalfHeight(x: number, radius: number) {
+  return Math.max(radius - Math.abs(x) / Math.sqrt(3), 0);
+}
+
+function setRadialSample(x: number, z: number, out: LaneSample) {
+  const r = Math.sqrt(x * x + z * z) || 1;
+  out.travelX = x / r;
+  out.travelZ = z / r;
+  out.normalX = -z / r;
+  out.normalZ = x / r;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Layouts
+// ─────────────────────────────────────────────────────────────
+
+function radialLayout(
+  config: ElectrodeLayoutConfig,
+  phases: number,
+  geometry: ModuleGeometry
+): ElectrodeLayout {
+  const segments = Math.max(1, Math.round(config.count));
+  // spokes from the hub outward + bus ring (the original design). Spoke
+  // k runs down the middle of sector k of `sample`, so each trace is one
+  // lane with one phase, however many phases the drive has.
+  const apothem = hexApothem(geometry);
+  const laneLength = apothem * 0.71;
+  const busInner = apothem * 0.2;
+  const busOuter = apothem * 0.45;
+  const lanes: ElectrodeLane[] = [];
+  for (let i = 0; i < segments; i++) {
+    const direction = -Math.PI + ((i + 0.5) / segments) * Math.PI * 2; // atan2(z, x)
+    lanes.push({
+      cx: (Math.cos(direction) * laneLength) / 2,
+      cz: (Math.sin(direction) * laneLength) / 2,
+      angle: -direction,
+      length: laneLength,
+      width: config.width,
+      phase: i % phases
+    });
+  }
+
+  return {
+    id: 'radial',
+    phases,
+    pitch: (Math.PI * activeApothem(geometry)) / segments, // arc spacing at mid radius
+    lanes,
+    hubRadius: busOuter,
+    busRing: { inner: busInner, outer: busOuter },
+    sample(x, z, out) {
+      const angle = Math.atan2(z, x);
+      const sector = ((angle + Math.PI) / (2 * Math.PI)) * segments;
+      out.slot = Math.max(0, Math.min(segments - 1, Math.floor(sector)));
+      // wave runs around the hub; normal points outward
+      out.travelX = -Math.sin(angle);
+      out.travelZ = Math.cos(angle);
+      out.normalX = Math.cos(angle);
+      out.normalZ = Math.sin(angle);
+    }
+  };
+}
+
+/** Straight lines along z, stepped in x. Fingers optionally leave a comb gap. */
+function lineLayout(
+  id: 'parallel' | 'interdigitated',
+  config: ElectrodeLayoutConfig,
+  phases: number,
+  geometry: ModuleGeometry
+): ElectrodeLayout {
+  const wired = layoutPhaseCounts(id);
+  if (!wired.includes(phases as DrivePhaseCount)) {
+    throw new Error(`${id} electrodes need a ${wired.join(' or ')}-phase drive, got ${phases}`);
+  }
+  const count = Math.max(1, Math.round(config.count));
+  const apothem = activeApothem(geometry);
+  const pitch = (2 * apothem) / count;
+  const gap = id === 'interdigitated' ? Math.max(pitch, config.width * 2) : 0;
+  const busZ = activeRadius(geometry) * 0.5; // where the slanted hex edges start
+  const lanes: ElectrodeLane[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const x = -apothem + (i + 0.5) * pitch;
+    const half = id === 'interdigitated' ? busZ : hexHalfHeight(x, activeRadius(geometry));
+    const phase = i % phases;
+    if (id === 'interdigitated') {
+      // even fingers (phase 0) hang from the lower bus, odd ones (phase 1)
+      // from the upper, leaving a gap at the other bus
+      const fromLower = i % 2 === 0;
+      const z0 = fromLower ? -half : -half + gap;
+      const z1 = fromLower ? half - gap : half;
+      lanes.push(laneBetween(x, z0, x, z1, config.width, phase));
+    } else {
+      lanes.push(laneBetween(x, -half, x, half, config.width, phase));
+    }
+  }
+
+  if (id === 'interdigitated') {
+    const span = apothem - pitch * 0.25;
+    lanes.push(laneBetween(-span, -busZ, span, -busZ, config.width * 1.5, 0));
+    lanes.push(laneBetween(-span, busZ, span, busZ, config.width * 1.5, 1));
+  }
+
+  return {
+    id,
+    phases,
+    pitch,
+    lanes,
+    hubRadius: 0,
+    busRing: null,
+    sample(x, _z, out) {
+      out.slot = Math.max(0, Math.min(count - 1, Math.floor((x + apothem) / pitch)));
+      out.travelX = 1;
+      out.travelZ = 0;
+      out.normalX = 0;
+      out.normalZ = 1;
+    }
+  };
+}
+
+/** Interleaved Archimedean arms; arm p carries phase p. */
+function spiralLayout(
+  config: ElectrodeLayoutConfig,
+  phases: number,
+  geometry: ModuleGeometry
+): ElectrodeLayout {
+  const turns = Math.max(1, config.count);
+  const radius = activeRadius(geometry);
+  const r0 = activeApothem(geometry) * 0.12;
+  // radial distance between neighbouring arms
+  const pitch = (radius - r0) / (turns * phases);
+  const growth = (pitch * phases) / (2 * Math.PI); // dr/dθ of one arm
+  const lanes: ElectrodeLane[] = [];
+
+  for (let p = 0; p < phases; p++) {
+    const points: [number, number][] = [];
+    const offset = (p * 2 * Math.PI) / phases;
+    for (let theta = 0; ; ) {
+      const r = r0 + growth * (theta + offset);
+      if (r > radius) break;
+      points.push([r * Math.cos(theta), r * Math.sin(theta)]);
+      theta += curveStep(r);
+    }
+    polylineLanes(points, config.width, p, radius, lanes);
+  }
+
+  return {
+    id: 'spiral',
+    phases,
+    pitch,
+    lanes,
+    hubRadius: 0,
+    busRing: null,
+    sample(x, z, out) {
+      let angle = Math.atan2(z, x);
+      if (angle < 0) angle += 2 * Math.PI;
+      const r = Math.sqrt(x * x + z * z);
+      // arms cross angle φ at r = r0 + pitch·(phases·φ/2π + m), arm = m mod phases
+      const s = (r - r0) / pitch - (phases * angle) / (2 * Math.PI);
+      out.slot = Math.floor(s + phases * 64); // keep it non-negative
+      setRadialSample(x, z, out);
+    }
+  };
+}
+
+function concentricLayout(
+  config: ElectrodeLayoutConfig,
+  phases: number,
+  geometry: ModuleGeometry
+): ElectrodeLayout {
+  const rings = Math.max(1, Math.round(config.count));
+  const active = activeRadius(geometry);
+  const r0 = activeApothem(geometry) * 0.12;
+  const pitch = (active - r0) / rings;
+  const lanes: ElectrodeLane[] = [];
+
+  for (let i = 0; i < rings; i++) {
+    const r = r0 + (i + 0.5) * pitch;
+    const points: [number, number][] = [];
+    const steps = Math.ceil((2 * Math.PI) / curveStep(r));
+    for (let n = 0; n <= steps; n++) {
+      const theta = (n / steps) * 2 * Math.PI;
+      points.push([r * Math.cos(theta), r * Math.sin(theta)]);
+    }
+    polylineLanes(points, config.width, i % phases, active, lanes);
+  }
+
+  return {
+    id: 'concentric',
+    phases,
+    pitch,
+    lanes,
+    hubRadius: 0,
+    busRing: null,
+    sample(x, z, out) {
+      const r = Math.sqrt(x * x + z * z);
+      out.slot = Math.max(0, Math.min(rings - 1, Math.floor((r - r0) / pitch)));
+      setRadialSample(x, z, out);
+    }
+  };
+}
+
+/** Traces and phase mapping of `config` on a module of `geometry`. */
+export function buildElectrodeLayout(
+  config: ElectrodeLayoutConfig,
+  phases: number,
+  geometry: ModuleGeometry
+): ElectrodeLayout {
+  switch (config.layout) {
+    case 'radial':
+      return radialLayout(config, phases, geometry);
+    case 'parallel':
+    case 'interdigitated':
+      return lineLayout(config.layout, config, phases, geometry);
+    case 'spiral':
+      return spiralLayout(config, phases, geometry);
+    case 'concentric':
+      return concentricLayout(config, phases, geometry);
+  }
+}
@@ -2,35 +2,15 @@
 
 import * as THREE from 'three';
 
-// Match main scene geometry (point-to-point 0.44 m → radius)
-const HEX_POINT = 0.44;
-const HEX_RADIUS = HEX_POINT / 2;
-
 // ===============================================================
 //  ADD-ON FOR: ancillia-scene.ts
 //  Enhances visuals WITHOUT modifying your core file.
 // ===============================================================
 
-export function enhanceAncilliaDevice(scene, module, materials) {
-  // -------------------------------------------------------------
-  // 0) Mars-ish lighting tweak (warmer, dustier)
-  // -------------------------------------------------------------
-  scene.background = new THREE.Color(0x050306); // deep, warm black
-
-  scene.traverse((obj: any) => {
-    if (obj.isHemisphereLight) {
-      obj.skyColor.set(0xfff0cf);
-      obj.groundColor.set(0x3a1405);
-      obj.intensity = 0.55;
-    }
-    if (obj.isDirectionalLight) {
-      obj.color.set(0xffdfb0);
-      obj.intensity *= 0.95;
-    }
-    if (obj.isSpotLight) {
-      obj.color.set(0xffe2b8);
-    }
-  });
+// `hexRadius` is the module's (m), from its config geometry
+export function enhanceAncilliaDevice(scene, module, materials, hexRadius) {
+  // Lighting is owned by the active environment (see applyLighting in
+  // ancillia-scene.ts), so the add-on no longer retints the lights.
 
   // -------------------------------------------------------------
   // 1) THIN-FILM INTERFERENCE (Rainbow Gold Electrodes)
@@ -167,8 +147,8 @@ export function enhanceAncilliaDevice(scene, module, materials) {
   const offsets = [0.0004, 0.0008, 0.0012];
 
   offsets.forEach((off, i) => {
-    const inner = HEX_RADIUS * (0.28 + i * 0.04);
-    const outer = HEX_RADIUS * (0.9 - i * 0.03);
+    const inner = hexRadius * (0.28 + i * 0.04);
+    const outer = hexRadius * (0.9 - i * 0.03);
     const g = new THREE.RingGeometry(inner, outer, 6 * 4, 1);
     const m = new THREE.MeshStandardMaterial({
       color: new THREE.Color().setHSL(0.58 + i * 0.02, 0.35, 0.65),
@@ -262,6 +242,8 @@ export function enhanceAncilliaDevice(scene, module, materials) {
   const clock = new THREE.Clock();
 
   function animateEnhancements() {
+    // a loaded scenario rebuilds the module; this loop dies with the old one
+    if (!module.parent) return;
     const t = clock.getElapsedTime();
 
     // Animate trench glow (collector active)
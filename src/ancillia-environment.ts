@@ -0,0 +1,105 @@
+// ─────────────────────────────────────────────────────────────
+// Planetary / test environments
+//
+// One object per place the panel might operate: gravity, gas, panel
+// temperature, the ambient charging conditions and how the scene should
+// be lit. Applying one rewrites the matching parts of a sim config and
+// leaves electrodes, drive and dust choices alone, so the same panel can
+// be compared across environments.
+// ─────────────────────────────────────────────────────────────
+
+import { AtmosphereConfig, ATMOSPHERE_PRESETS } from './ancillia-atmosphere';
+import type { DustSimConfig } from './ancillia-sim';
+
+export type EnvironmentId = 'mars' | 'moon' | 'earth-lab' | 'tvac';
+
+export const ENVIRONMENTS: EnvironmentId[] = ['mars', 'moon', 'earth-lab', 'tvac'];
+
+/** Scene lighting looks; the viewer maps each to concrete lights. */
+export type LightingStyle = 'mars' | 'lunar' | 'lab' | 'chamber';
+
+export type EnvironmentConfig = {
+  id: EnvironmentId;
+  label: string;
+  gravity: number;      // m/s²
+  atmosphere: AtmosphereConfig;
+  temperature: number;  // K, gas + panel
+  charge: {
+    ambientField: [number, number, number]; // V/m, background field at the panel
+    grainMin: number;   // C, charge grains arrive with
+    grainMax: number;   // C
+    surfaceLimit: number; // C/m², breakdown cap for contact charging
+  };
+  lighting: LightingStyle;
+};
+
+export const ENVIRONMENT_PRESETS: Record<EnvironmentId, EnvironmentConfig> = {
+  mars: {
+    id: 'mars',
+    label: 'Mars surface',
+    gravity: 3.71,
+    atmosphere: ATMOSPHERE_PRESETS.mars,
+    temperature: 210,
+    charge: {
+      ambientField: [0.15, 0, -0.08],
+      grainMin: 2e-15,
+      grainMax: 9e-14,
+      surfaceLimit: 1e-5 // CO2 breaks down early at 600 Pa
+    },
+    lighting: 'mars'
+  },
+  moon: {
+    id: 'moon',
+    label: 'Lunar dayside',
+    gravity: 1.62,
+    atmosphere: ATMOSPHERE_PRESETS.lunar,
+    temperature: 380,
+    charge: {
+      ambientField: [0, 8, 0], // photoelectron sheath
+      grainMin: 1e-15,
+      grainMax: 3e-14,
+      surfaceLimit: 1e-4 // no gas; field emission limits instead
+    },
+    lighting: 'lunar'
+  },
+  'earth-lab': {
+    id: 'earth-lab',
+    label: 'Earth benchtop',
+    gravity: 9.81,
+    atmosphere: ATMOSPHERE_PRESETS['lab-air'],
+    temperature: 293,
+    charge: {
+      ambientField: [0, 0, 0], // indoors, shielded from the fair-weather field
+      grainMin: 2e-15,
+      grainMax: 9e-14,
+      surfaceLimit: 2.6e-5 // air breakdown, 3 MV/m
+    },
+    lighting: 'lab'
+  },
+  tvac: {
+    id: 'tvac',
+    label: 'Thermal-vacuum chamber',
+    gravity: 9.81,
+    atmosphere: ATMOSPHERE_PRESETS.tvac,
+    temperature: 173,
+    charge: {
+      ambientField: [0, 0, 0],
+      grainMin: 2e-15,
+      grainMax: 9e-14,
+      surfaceLimit: 1e-4
+    },
+    lighting: 'chamber'
+  }
+};
+
+/** Copy of `config` with the environment's physics applied. */
+export function applyEnvironment(config: DustSimConfig, env: EnvironmentConfig): DustSimConfig {
+  return {
+    ...config,
+    gravity: env.gravity,
+    atmosphere: { ...env.atmosphere, temperature: env.temperature },
+    field: { ...config.field, drift: env.charge.ambientField },
+    dust: { ...config.dust, chargeMin: env.charge.grainMin, chargeMax: env.charge.grainMax },
+    charging: { ...config.charging, surfaceChargeLimit: env.charge.surfaceLimit }
+  };
+}
@@ -0,0 +1,341 @@
+// ─────────────────────────────────────────────────────────────
+// Electric field overlays
+//
+// Three views of the field the dust feels, sampled from the same model
+// as the sim (analytic or solved) at the time of the drawn frame, so
+// they move with the traveling wave:
+//   • vectors: arrows on a grid just above the panel, colored by |E|
+//   • field lines: streamlines traced up from points on the lanes
+//   • slice: a horizontal plane colored by potential or |E|, which can
+//     be dragged up and down through the air gap
+// Everything lives in module coordinates (add the group next to the
+// dust so it follows the spin, at the centre of the module shown).
+// ─────────────────────────────────────────────────────────────
+
+import * as THREE from 'three';
+import { hexRadius, isInsideHex, ModuleGeometry, panelSurfaceY } from './ancillia-geometry';
+import { laneEndpoints } from './ancillia-electrodes';
+import { DustSimulation, sampleModuleField, sampleModulePotential } from './ancillia-sim';
+
+export type FieldOverlayId = 'field-vectors' | 'field-lines' | 'field-slice';
+export type SliceQuantity = 'potential' | 'magnitude';
+
+export const SLICE_QUANTITIES: SliceQuantity[] = ['potential', 'magnitude'];
+export const SLICE_MAX_HEIGHT = 0.06; // m above the panel
+
+const VECTOR_GRID = 17;         // arrows per row
+const VECTOR_HEIGHT = 0.008;    // m above the panel
+const ARROW_LENGTH = 0.035;     // m at the strongest sample
+const LINE_SEEDS = 96;          // at most
+const LINE_STEP = 0.003;        // m per integration step
+const LINE_STEPS = 40;
+const SLICE_RESOLUTION = 64;
+
+export type FieldOverlays = {
+  group: THREE.Group;
+  radius: number;   // hex radius the grid and slice were laid out for
+  surfaceY: number; // and the panel surface they sit over
+  vectors: THREE.InstancedMesh;
+  vectorColors: THREE.InstancedBufferAttribute;
+  vectorPoints: Float64Array; // xz per arrow
+  vectorField: Float64Array;  // E per arrow, scratch
+  lines: THREE.LineSegments;
+  slice: THREE.Mesh;
+  sliceTexture: THREE.DataTexture;
+  sliceHeight: number; // m above the panel
+  quantity: SliceQuantity;
+};
+
+export function createFieldOverlays(parent: THREE.Object3D, geometry: ModuleGeometry): FieldOverlays {
+  const group = new THREE.Group();
+  parent.add(group);
+
+  // unit arrow along +y, base at the origin
+  const arrow = new THREE.ConeGeometry(0.06, 1, 6);
+  arrow.translate(0, 0.5, 0);
+  const arrows = VECTOR_GRID * VECTOR_GRID;
+  const vectors = new THREE.InstancedMesh(
+    arrow,
+    new THREE.MeshBasicMaterial({ color: 0xffffff }),
+    arrows
+  );
+  vectors.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  const vectorColors = new THREE.InstancedBufferAttribute(new Float32Array(arrows * 3), 3);
+  vectors.instanceColor = vectorColors;
+  vectors.frustumCulled = false;
+  vectors.visible = false;
+  group.add(vectors);
+
+  const lineGeometry = new THREE.BufferGeometry();
+  const capacity = LINE_SEEDS * LINE_STEPS * 2;
+  lineGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+  lineGeometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+  const lines = new THREE.LineSegments(
+    lineGeometry,
+    new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.85 })
+  );
+  lines.frustumCulled = false;
+  lines.visible = false;
+  group.add(lines);
+
+  const n = SLICE_RESOLUTION;
+  const sliceTexture = new THREE.DataTexture(new Uint8Array(n * n * 4), n, n);
+  sliceTexture.colorSpace = THREE.SRGBColorSpace;
+  sliceTexture.magFilter = THREE.LinearFilter;
+  const slice = new THREE.Mesh(
+    new THREE.PlaneGeometry(2, 2), // scaled to the hex in fitToModule
+    new THREE.MeshBasicMaterial({
+      map: sliceTexture,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    })
+  );
+  slice.rotation.x = -Math.PI / 2; // lie in x/z; texture rows run from +z to −z
+  slice.visible = false;
+  group.add(slice);
+
+  const overlays: FieldOverlays = {
+    group,
+    radius: 0,
+    surfaceY: 0,
+    vectors,
+    vectorColors,
+    vectorPoints: new Float64Array(0),
+    vectorField: new Float64Array(arrows * 3),
+    lines,
+    slice,
+    sliceTexture,
+    sliceHeight: 0.01,
+    quantity: 'potential'
+  };
+  fitToModule(overlays, geometry);
+  return overlays;
+}
+
+// Arrow grid and slice size follow the module (scenarios can resize it)
+function fitToModule(overlays: FieldOverlays, geometry: ModuleGeometry) {
+  const radius = hexRadius(geometry);
+  const points: number[] = [];
+  for (let i = 0; i < VECTOR_GRID; i++) {
+    for (let k = 0; k < VECTOR_GRID; k++) {
+      const x = ((i + 0.5) / VECTOR_GRID - 0.5) * 2 * radius;
+      const z = ((k + 0.5) / VECTOR_GRID - 0.5) * 2 * radius;
+      if (isInsideHex(x, z, radius * 0.95)) points.push(x, z);
+    }
+  }
+  overlays.vectorPoints = Float64Array.from(points);
+  overlays.vectors.count = points.length / 2;
+  overlays.slice.scale.set(radius, radius, 1);
+  overlays.radius = radius;
+  overlays.surfaceY = panelSurfaceY(geometry);
+  setSliceHeight(overlays, overlays.sliceHeight);
+}
+
+export function fieldOverlayObject(overlays: FieldOverlays, id: FieldOverlayId) {
+  if (id === 'field-vectors') return overlays.vectors;
+  if (id === 'field-lines') return overlays.lines;
+  return overlays.slice;
+}
+
+export function setSliceHeight(overlays: FieldOverlays, height: number) {
+  overlays.sliceHeight = Math.min(Math.max(height, 0), SLICE_MAX_HEIGHT);
+  overlays.slice.position.y = overlays.surfaceY + overlays.sliceHeight;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Color maps
+// ─────────────────────────────────────────────────────────────
+
+// rgb triples are written into plain arrays and attribute buffers alike
+type ColorOut = { [index: number]: number };
+
+// |E|: dark blue → cyan → yellow → red
+const MAGNITUDE_STOPS = [
+  [0.05, 0.1, 0.35],
+  [0.1, 0.65, 0.85],
+  [0.95, 0.85, 0.2],
+  [0.9, 0.2, 0.1]
+];
+
+function magnitudeColor(t: number, out: ColorOut, at: number) {
+  const u = Math.min(Math.max(t, 0), 1) * (MAGNITUDE_STOPS.length - 1);
+  const k = Math.min(Math.floor(u), MAGNITUDE_STOPS.length - 2);
+  const f = u - k;
+  for (let c = 0; c < 3; c++) {
+    out[at + c] = MAGNITUDE_STOPS[k][c] * (1 - f) + MAGNITUDE_STOPS[k + 1][c] * f;
+  }
+}
+
+// potential: blue (negative) → white → red (positive), t in [−1, 1]
+function potentialColor(t: number, out: ColorOut, at: number) {
+  const u = Math.min(Math.max(t, -1), 1);
+  const fade = 1 - Math.abs(u);
+  out[at] = u > 0 ? 1 : fade;
+  out[at + 1] = fade;
+  out[at + 2] = u < 0 ? 1 : fade;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Updates
+// ─────────────────────────────────────────────────────────────
+
+const E = new Float64Array(3);
+const UP = new THREE.Vector3(0, 1, 0);
+const direction = new THREE.Vector3();
+const position = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const scale = new THREE.Vector3();
+const matrix = new THREE.Matrix4();
+const rgb = [0, 0, 0];
+const sliceValues = new Float64Array(SLICE_RESOLUTION * SLICE_RESOLUTION);
+const sliceInside = new Uint8Array(SLICE_RESOLUTION * SLICE_RESOLUTION);
+
+/**
+ * Resample the visible overlays at sim time `time`. Returns false (and
+ * hides them) while the solver model's field is still being solved in
+ * the sim worker; sampling would otherwise solve it on the page.
+ */
+export function updateFieldOverlays(overlays: FieldOverlays, sim: DustSimulation, time: number) {
+  const ready = sim.config.field.model !== 'solver' || sim.fieldSolution !== null;
+  overlays.group.visible = ready;
+  if (!ready) return false;
+  const { geometry } = sim.config;
+  if (overlays.radius !== hexRadius(geometry) || overlays.surfaceY !== panelSurfaceY(geometry)) {
+    fitToModule(overlays, geometry);
+  }
+  if (overlays.vectors.visible) updateVectors(overlays, sim, time);
+  if (overlays.lines.visible) updateLines(overlays, sim, time);
+  if (overlays.slice.visible) updateSlice(overlays, sim, time);
+  return true;
+}
+
+function updateVectors(overlays: FieldOverlays, sim: DustSimulation, time: number) {
+  const { vectors, vectorColors, vectorPoints, vectorField, surfaceY } = overlays;
+  const count = vectorPoints.length / 2;
+  const y = surfaceY + VECTOR_HEIGHT;
+  let peak = 0;
+  for (let a = 0; a < count; a++) {
+    sampleModuleField(sim, vectorPoints[a * 2], y, vectorPoints[a * 2 + 1], time, E);
+    vectorField.set(E, a * 3);
+    peak = Math.max(peak, Math.hypot(E[0], E[1], E[2]));
+  }
+
+  const colors = vectorColors.array;
+  for (let a = 0; a < count; a++) {
+    direction.fromArray(vectorField, a * 3);
+    const magnitude = direction.length();
+    const t = peak > 0 ? magnitude / peak : 0;
+    position.set(vectorPoints[a * 2], y, vectorPoints[a * 2 + 1]);
+    if (magnitude > 0) rotation.setFromUnitVectors(UP, direction.divideScalar(magnitude));
+    else rotation.identity();
+    const length = ARROW_LENGTH * (0.2 + 0.8 * t);
+    scale.set(length, length, length);
+    matrix.compose(position, rotation, scale);
+    vectors.setMatrixAt(a, matrix);
+    magnitudeColor(t, colors, a * 3);
+  }
+  vectors.instanceMatrix.needsUpdate = true;
+  vectorColors.needsUpdate = true;
+}
+
+function updateLines(overlays: FieldOverlays, sim: DustSimulation, time: number) {
+  const { lanes } = sim.layout;
+  const { radius, surfaceY } = overlays;
+  const geometry = overlays.lines.geometry;
+  const positions = geometry.getAttribute('position');
+  const colors = geometry.getAttribute('color');
+  const top = surfaceY + SLICE_MAX_HEIGHT;
+
+  // seeds: center and quarter points of evenly picked lanes
+  const stride = Math.max(1, Math.ceil((lanes.length * 3) / LINE_SEEDS));
+  const seeds: number[] = [];
+  for (let l = 0; l < lanes.length; l += stride) {
+    const [x0, z0, x1, z1] = laneEndpoints(lanes[l]);
+    for (const f of [0.25, 0.5, 0.75]) seeds.push(x0 + (x1 - x0) * f, z0 + (z1 - z0) * f);
+  }
+
+  // peak |E| at the seeds sets the color scale
+  let peak = 0;
+  for (let s = 0; s < seeds.length; s += 2) {
+    sampleModuleField(sim, seeds[s], surfaceY, seeds[s + 1], time, E);
+    peak = Math.max(peak, Math.hypot(E[0], E[1], E[2]));
+  }
+
+  let v = 0;
+  const capacity = positions.count;
+  for (let s = 0; s < seeds.length && v + 2 <= capacity; s += 2) {
+    let x = seeds[s];
+    let y = surfaceY + 0.0005;
+    let z = seeds[s + 1];
+    sampleModuleField(sim, x, y, z, time, E);
+    const sign = E[1] < 0 ? -1 : 1; // trace the way that leaves the panel
+
+    for (let step = 0; step < LINE_STEPS && v + 2 <= capacity; step++) {
+      // midpoint step along the unit field direction
+      sampleModuleField(sim, x, y, z, time, E);
+      let m = Math.hypot(E[0], E[1], E[2]);
+      if (m === 0) break;
+      const h = (sign * LINE_STEP) / 2 / m;
+      sampleModuleField(sim, x + E[0] * h, y + E[1] * h, z + E[2] * h, time, E);
+      m = Math.hypot(E[0], E[1], E[2]);
+      if (m === 0) break;
+      const k = (sign * LINE_STEP) / m;
+      const nx = x + E[0] * k;
+      const ny = y + E[1] * k;
+      const nz = z + E[2] * k;
+      if (ny < surfaceY || ny > top || !isInsideHex(nx, nz, radius)) break;
+
+      magnitudeColor(peak > 0 ? m / peak : 0, rgb, 0);
+      positions.setXYZ(v, x, y, z);
+      colors.setXYZ(v++, rgb[0], rgb[1], rgb[2]);
+      positions.setXYZ(v, nx, ny, nz);
+      colors.setXYZ(v++, rgb[0], rgb[1], rgb[2]);
+      x = nx;
+      y = ny;
+      z = nz;
+    }
+  }
+  geometry.setDrawRange(0, v);
+  positions.needsUpdate = true;
+  colors.needsUpdate = true;
+}
+
+function updateSlice(overlays: FieldOverlays, sim: DustSimulation, time: number) {
+  const n = SLICE_RESOLUTION;
+  const { radius } = overlays;
+  const y = overlays.surfaceY + overlays.sliceHeight;
+  const values = sliceValues;
+  const inside = sliceInside;
+  inside.fill(0);
+  let peak = 0;
+  for (let j = 0; j < n; j++) {
+    const z = radius - ((j + 0.5) / n) * 2 * radius;
+    for (let i = 0; i < n; i++) {
+      const x = ((i + 0.5) / n) * 2 * radius - radius;
+      const c = j * n + i;
+      if (!isInsideHex(x, z, radius)) continue;
+      inside[c] = 1;
+      if (overlays.quantity === 'potential') {
+        values[c] = sampleModulePotential(sim, x, y, z, time);
+      } else {
+        sampleModuleField(sim, x, y, z, time, E);
+        values[c] = Math.hypot(E[0], E[1], E[2]);
+      }
+      peak = Math.max(peak, Math.abs(values[c]));
+    }
+  }
+
+  const data = overlays.sliceTexture.image.data;
+  for (let c = 0; c < n * n; c++) {
+    const t = peak > 0 ? values[c] / peak : 0;
+    if (overlays.quantity === 'potential') potentialColor(t, rgb, 0);
+    else magnitudeColor(t, rgb, 0);
+    data[c * 4] = Math.round(rgb[0] * 255);
+    data[c * 4 + 1] = Math.round(rgb[1] * 255);
+    data[c * 4 + 2] = Math.round(rgb[2] * 255);
+    data[c * 4 + 3] = inside[c] ? 255 : 0;
+  }
+  overlays.sliceTexture.needsUpdate = true;
+}
@@ -0,0 +1,453 @@
+// ─────────────────────────────────────────────────────────────
+// Electrostatic field solver
+//
+// Finite-volume solve of ∇·(ε∇φ) = −ρ/ε0 on a box above the module,
+// driven by the lanes of the active electrode layout. The field is linear in the
+// electrode voltages, so we solve once per drive phase (that phase at
+// 1 V, everything else grounded) and superpose at run time:
+//
+//   E(x, t) = Σ_p V_p(t) · E_p(x)
+//
+// Stack model, bottom to top: grounded chassis, substrate dielectric,
+// electrode plane, cover dielectric (encapsulation + glass) whose top
+// is the surface dust rests on, then air.
+// ─────────────────────────────────────────────────────────────
+
+import { ElectrodeLayout, laneEndpoints } from './ancillia-electrodes';
+import { hexRadius, ModuleGeometry, panelSurfaceY } from './ancillia-geometry';
+
+export const VACUUM_PERMITTIVITY = 8.8541878128e-12; // F/m
+
+export type FieldSolverConfig = {
+  resolution: number;            // lateral nodes per axis
+  height: number;                // m of air above the dust surface
+  substratePermittivity: number; // relative
+  coverPermittivity: number;     // relative
+  tolerance: number;             // max |Δφ| per sweep, fraction of 1 V
+  maxIterations: number;
+  relaxation: number;            // SOR ω
+};
+
+export const DEFAULT_FIELD_SOLVER_CONFIG: FieldSolverConfig = {
+  resolution: 65,
+  height: 0.08,
+  substratePermittivity: 4.6, // borosilicate
+  coverPermittivity: 3.8,     // fused silica
+  tolerance: 1e-5,
+  maxIterations: 600,
+  relaxation: 1.85
+};
+
+// ─────────────────────────────────────────────────────────────
+// Grid
+// ─────────────────────────────────────────────────────────────
+
+const SUBSTRATE_CELLS = 4;
+const COVER_CELLS = 4;
+const AIR_GROWTH = 1.25;
+
+/**
+ * Uniform in x/z, stretched in y so the thin dielectric layers are
+ * resolved without paying for fine cells in open air.
+ * Node index: ((k · nx) + i) · ny + j, so each vertical column is contiguous.
+ */
+export type SolverGrid = {
+  nx: number;
+  ny: number;
+  nz: number;
+  x0: number;        // first node, both x and z
+  dx: number;        // lateral spacing, both x and z
+  ys: Float64Array;  // node heights (world y)
+  eps: Float64Array; // relative permittivity of cell j → j+1
+  electrodeLayer: number;
+  surfaceLayer: number;
+};
+
+export function buildSolverGrid(config: FieldSolverConfig, geometry: ModuleGeometry): SolverGrid {
+  const surfaceY = panelSurfaceY(geometry);
+  const ys: number[] = [geometry.baseThickness];
+  const eps: number[] = [];
+
+  const subCell = geometry.substrateThickness / SUBSTRATE_CELLS;
+  for (let j = 0; j < SUBSTRATE_CELLS; j++) {
+    ys.push(ys[ys.length - 1] + subCell);
+    eps.push(config.substratePermittivity);
+  }
+  const electrodeLayer = ys.length - 1;
+
+  const coverCell = (surfaceY - ys[electrodeLayer]) / COVER_CELLS;
+  for (let j = 0; j < COVER_CELLS; j++) {
+    ys.push(ys[ys.length - 1] + coverCell);
+    eps.push(config.coverPermittivity);
+  }
+  const surfaceLayer = ys.length - 1;
+
+  const top = surfaceY + config.height;
+  let airCell = coverCell;
+  while (ys[ys.length - 1] < top) {
+    ys.push(Math.min(ys[ys.length - 1] + airCell, top));
+    eps.push(1);
+    airCell *= AIR_GROWTH;
+  }
+
+  const halfSpan = hexRadius(geometry) * geometry.trenchOuterScale;
+  const n = Math.max(5, Math.floor(config.resolution));
+
+  return {
+    nx: n,
+    ny: ys.length,
+    nz: n,
+    x0: -halfSpan,
+    dx: (2 * halfSpan) / (n - 1),
+    ys: Float64Array.from(ys),
+    eps: Float64Array.from(eps),
+    electrodeLayer,
+    surfaceLayer
+  };
+}
+
+function nodeIndex(grid: SolverGrid, i: number, j: number, k: number) {
+  return (k * grid.nx + i) * grid.ny + j;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Electrode rasterization
+// ─────────────────────────────────────────────────────────────
+
+const GROUND = -1;
+const FREE = -2;
+
+function distanceToSegment(
+  px: number,
+  pz: number,
+  ax: number,
+  az: number,
+  bx: number,
+  bz: number
+) {
+  const vx = bx - ax;
+  const vz = bz - az;
+  const len2 = vx * vx + vz * vz;
+  const t = len2 > 0 ? Math.min(Math.max(((px - ax) * vx + (pz - az) * vz) / len2, 0), 1) : 0;
+  const dx = px - (ax + vx * t);
+  const dz = pz - (az + vz * t);
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+/**
+ * Per-node electrode label: phase index, GROUND, or FREE. Lanes are at
+ * least one cell wide so narrow traces never fall between nodes. The
+ * layout's hub (where the radial spokes meet) is treated as grounded.
+ */
+function rasterizeElectrodes(grid: SolverGrid, layout: ElectrodeLayout) {
+  const { nx, ny, nz, x0, dx } = grid;
+  const { lanes, hubRadius } = layout;
+  const labels = new Int8Array(nx * ny * nz).fill(FREE);
+  const segments = lanes.map(laneEndpoints);
+
+  for (let k = 0; k < nz; k++) {
+    for (let i = 0; i < nx; i++) {
+      // outer walls + floor + ceiling are grounded
+      const wall = i === 0 || k === 0 || i === nx - 1 || k === nz - 1;
+      for (let j = 0; j < ny; j++) {
+        if (wall || j === 0 || j === ny - 1) {
+          labels[nodeIndex(grid, i, j, k)] = GROUND;
+        }
+      }
+      if (wall) continue;
+
+      const x = x0 + i * dx;
+      const z = x0 + k * dx;
+      const idx = nodeIndex(grid, i, grid.electrodeLayer, k);
+
+      if (Math.sqrt(x * x + z * z) <= hubRadius) {
+        labels[idx] = GROUND;
+        continue;
+      }
+      for (let l = 0; l < lanes.length; l++) {
+        const [ax, az, bx, bz] = segments[l];
+        const reach = Math.max(lanes[l].width / 2, dx / 2);
+        if (distanceToSegment(x, z, ax, az, bx, bz) <= reach) {
+          labels[idx] = lanes[l].phase;
+          break;
+        }
+      }
+    }
+  }
+  return labels;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Line-SOR solve (exact tridiagonal solve along each y column)
+// ─────────────────────────────────────────────────────────────
+
+export type SolveResult = {
+  potential: Float64Array;
+  iterations: number;
+  maxChange: number;
+};
+
+/**
+ * Solve for the potential with `fixed[n] = 1` nodes held at `value[n]`.
+ * `rho` (C/m^3 per node) turns Laplace into Poisson; omit for Laplace.
+ */
+export function solvePotential(
+  grid: SolverGrid,
+  fixed: Uint8Array,
+  value: Float64Array,
+  config: FieldSolverConfig,
+  rho?: Float64Array
+): SolveResult {
+  const { nx, ny, nz, dx, ys, eps } = grid;
+  const phi = Float64Array.from(value);
+  const invDx2 = 1 / (dx * dx);
+
+  // column coefficients depend only on j
+  const aUp = new Float64Array(ny);
+  const aDn = new Float64Array(ny);
+  const aLat = new Float64Array(ny);
+  const halfHeight = new Float64Array(ny);
+  for (let j = 1; j < ny - 1; j++) {
+    const dyDn = ys[j] - ys[j - 1];
+    const dyUp = ys[j + 1] - ys[j];
+    const h = (dyDn + dyUp) / 2;
+    aUp[j] = eps[j] / dyUp;
+    aDn[j] = eps[j - 1] / dyDn;
+    aLat[j] = ((eps[j - 1] * dyDn + eps[j] * dyUp) / (dyDn + dyUp)) * h * invDx2;
+    halfHeight[j] = h;
+  }
+
+  const cPrime = new Float64Array(ny);
+  const dPrime = new Float64Array(ny);
+  const line = new Float64Array(ny);
+
+  let iterations = 0;
+  let maxChange = Infinity;
+
+  while (iterations < config.maxIterations && maxChange > config.tolerance) {
+    maxChange = 0;
+
+    for (let k = 1; k < nz - 1; k++) {
+      for (let i = 1; i < nx - 1; i++) {
+        const base = (k * nx + i) * ny;
+        const east = base + ny;
+        const west = base - ny;
+        const north = base + nx * ny;
+        const south = base - nx * ny;
+
+        // Thomas algorithm; fixed nodes become identity rows
+        cPrime[0] = 0;
+        dPrime[0] = phi[base];
+        for (let j = 1; j < ny; j++) {
+          const n = base + j;
+          let a = 0;
+          let b = 1;
+          let c = 0;
+          let d = phi[n];
+          if (!fixed[n] && j < ny - 1) {
+            a = -aDn[j];
+            b = aUp[j] + aDn[j] + 4 * aLat[j];
+            c = -aUp[j];
+            d =
+              aLat[j] * (phi[east + j] + phi[west + j] + phi[north + j] + phi[south + j]);
+            if (rho) d += (rho[n] * halfHeight[j]) / VACUUM_PERMITTIVITY;
+          }
+          const m = b - a * cPrime[j - 1];
+          cPrime[j] = c / m;
+          dPrime[j] = (d - a * dPrime[j - 1]) / m;
+        }
+        line[ny - 1] = dPrime[ny - 1];
+        for (let j = ny - 2; j >= 0; j--) {
+          line[j] = dPrime[j] - cPrime[j] * line[j + 1];
+        }
+
+        for (let j = 1; j < ny - 1; j++) {
+          const n = base + j;
+          if (fixed[n]) continue;
+          const change = config.relaxation * (line[j] - phi[n]);
+          phi[n] += change;
+          const abs = Math.abs(change);
+          if (abs > maxChange) maxChange = abs;
+        }
+      }
+    }
+    iterations++;
+  }
+
+  return { potential: phi, iterations, maxChange };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Field basis (one per drive phase)
+// ─────────────────────────────────────────────────────────────
+
+export type FieldBasis = {
+  ex: Float32Array; // V/m per volt on this phase
+  ey: Float32Array;
+  ez: Float32Array;
+  potential: Float32Array; // V per volt on this phase
+};
+
+export type FieldSolution = {
+  grid: SolverGrid;
+  basis: FieldBasis[];
+  iterations: number[];
+};
+
+function gradientToField(grid: SolverGrid, phi: Float64Array) {
+  const { nx, ny, nz, dx, ys, surfaceLayer } = grid;
+  const size = nx * ny * nz;
+  const ex = new Float32Array(size);
+  const ey = new Float32Array(size);
+  const ez = new Float32Array(size);
+
+  for (let k = 0; k < nz; k++) {
+    for (let i = 0; i < nx; i++) {
+      for (let j = 0; j < ny; j++) {
+        const n = nodeIndex(grid, i, j, k);
+
+        const iL = Math.max(i - 1, 0);
+        const iR = Math.min(i + 1, nx - 1);
+        ex[n] = -(phi[nodeIndex(grid, iR, j, k)] - phi[nodeIndex(grid, iL, j, k)]) / ((iR - iL) * dx);
+
+        const kL = Math.max(k - 1, 0);
+        const kR = Math.min(k + 1, nz - 1);
+        ez[n] = -(phi[nodeIndex(grid, i, j, kR)] - phi[nodeIndex(grid, i, j, kL)]) / ((kR - kL) * dx);
+
+        // the dust surface takes the air-side (one-sided) derivative
+        const jL = j === surfaceLayer ? j : Math.max(j - 1, 0);
+        const jR = Math.min(j + 1, ny - 1);
+        ey[n] = -(phi[n - j + jR] - phi[n - j + jL]) / (ys[jR] - ys[jL]);
+      }
+    }
+  }
+  return { ex, ey, ez };
+}
+
+export function solveElectrodeField(
+  layout: ElectrodeLayout,
+  config: FieldSolverConfig,
+  geometry: ModuleGeometry
+): FieldSolution {
+  const grid = buildSolverGrid(config, geometry);
+  const labels = rasterizeElectrodes(grid, layout);
+  const fixed = new Uint8Array(labels.length);
+  for (let n = 0; n < labels.length; n++) fixed[n] = labels[n] === FREE ? 0 : 1;
+
+  const basis: FieldBasis[] = [];
+  const iterations: number[] = [];
+  for (let p = 0; p < layout.phases; p++) {
+    const value = new Float64Array(labels.length);
+    for (let n = 0; n < labels.length; n++) value[n] = labels[n] === p ? 1 : 0;
+    const result = solvePotential(grid, fixed, value, config);
+    basis.push({
+      ...gradientToField(grid, result.potential),
+      potential: Float32Array.from(result.potential)
+    });
+    iterations.push(result.iterations);
+  }
+  return { grid, basis, iterations };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Sampling
+// ─────────────────────────────────────────────────────────────
+
+function trilinear(
+  f: Float32Array,
+  n000: number,
+  n100: number,
+  n001: number,
+  n101: number,
+  tx: number,
+  ty: number,
+  tz: number
+) {
+  const lower =
+    (f[n000] * (1 - tx) + f[n100] * tx) * (1 - tz) +
+    (f[n001] * (1 - tx) + f[n101] * tx) * tz;
+  const upper =
+    (f[n000 + 1] * (1 - tx) + f[n100 + 1] * tx) * (1 - tz) +
+    (f[n001 + 1] * (1 - tx) + f[n101 + 1] * tx) * tz;
+  return lower * (1 - ty) + upper * ty;
+}
+
+function findLayer(ys: Float64Array, y: number) {
+  let lo = 0;
+  let hi = ys.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (ys[mid] <= y) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Grid cell holding a sample point, with the fractions across it
+type Cell = { n000: number; n100: number; n001: number; n101: number; tx: number; ty: number; tz: number };
+const cell: Cell = { n000: 0, n100: 0, n001: 0, n101: 0, tx: 0, ty: 0, tz: 0 };
+
+function locate(grid: SolverGrid, x: number, y: number, z: number) {
+  const { nx, ny, nz, x0, dx, ys } = grid;
+  const fx = (x - x0) / dx;
+  const fz = (z - x0) / dx;
+  const yc = Math.max(y, ys[grid.surfaceLayer]);
+  if (fx < 0 || fz < 0 || fx > nx - 1 || fz > nz - 1 || yc > ys[ny - 1]) return false;
+
+  const i = Math.min(Math.floor(fx), nx - 2);
+  const k = Math.min(Math.floor(fz), nz - 2);
+  const j = Math.min(findLayer(ys, yc), ny - 2);
+  cell.tx = fx - i;
+  cell.tz = fz - k;
+  cell.ty = (yc - ys[j]) / (ys[j + 1] - ys[j]);
+  cell.n000 = nodeIndex(grid, i, j, k);
+  cell.n100 = cell.n000 + ny;
+  cell.n001 = cell.n000 + nx * ny;
+  cell.n101 = cell.n001 + ny;
+  return true;
+}
+
+/**
+ * Trilinear sample of Σ_p voltages[p] · E_p at (x, y, z). Points below
+ * the dust surface read the surface value; outside the box reads zero.
+ */
+export function sampleSolvedField(
+  solution: FieldSolution,
+  voltages: ArrayLike<number>,
+  x: number,
+  y: number,
+  z: number,
+  out: Float64Array | number[]
+) {
+  const { basis } = solution;
+  out[0] = out[1] = out[2] = 0;
+  if (!locate(solution.grid, x, y, z)) return;
+  const { n000, n100, n001, n101, tx, ty, tz } = cell;
+
+  for (let p = 0; p < basis.length; p++) {
+    const v = voltages[p];
+    if (v === 0) continue;
+    const { ex, ey, ez } = basis[p];
+    out[0] += v * trilinear(ex, n000, n100, n001, n101, tx, ty, tz);
+    out[1] += v * trilinear(ey, n000, n100, n001, n101, tx, ty, tz);
+    out[2] += v * trilinear(ez, n000, n100, n001, n101, tx, ty, tz);
+  }
+}
+
+/** Σ_p voltages[p] · φ_p at (x, y, z), sampled like sampleSolvedField. */
+export function sampleSolvedPotential(
+  solution: FieldSolution,
+  voltages: ArrayLike<number>,
+  x: number,
+  y: number,
+  z: number
+) {
+  if (!locate(solution.grid, x, y, z)) return 0;
+  const { n000, n100, n001, n101, tx, ty, tz } = cell;
+  let phi = 0;
+  for (let p = 0; p < solution.basis.length; p++) {
+    const v = voltages[p];
+    if (v !== 0) phi += v * trilinear(solution.basis[p].potential, n000, n100, n001, n101, tx, ty, tz);
+  }
+  return phi;
+}
@@ -0,0 +1,79 @@
+// ─────────────────────────────────────────────────────────────
+// Module geometry (hex + layer stack)
+//
+// Shared by the Three.js scene and the headless simulation, so this
+// file must stay free of any rendering imports.
+// ─────────────────────────────────────────────────────────────
+
+export type ModuleGeometry = {
+  hexFlat: number;  // m, flat-to-flat
+  hexPoint: number; // m, point-to-point
+  baseThickness: number;      // chassis slab
+  substrateThickness: number; // glass dielectric
+  panelThickness: number;     // encapsulated electrodes
+  coverThickness: number;     // protective glass
+  coverOffset: number;        // visible air gap
+  trenchInnerScale: number;   // of the hex
+  trenchOuterScale: number;
+  cartridgeHeight: number;
+};
+
+/*
+ * A module's dimensions travel with whatever uses them (the sim
+ * config's `geometry`, a scenario's `module` and `stack`), so runs of
+ * differently sized modules can share a process.
+ */
+export const DEFAULT_MODULE_GEOMETRY: ModuleGeometry = {
+  hexFlat: 0.38,
+  hexPoint: 0.44,
+  baseThickness: 0.0042,
+  substrateThickness: 0.0016,
+  panelThickness: 0.0025,
+  coverThickness: 0.0014,
+  coverOffset: 0.0009,
+  trenchInnerScale: 1.02,
+  trenchOuterScale: 1.12,
+  cartridgeHeight: 0.0115
+};
+
+/** Center → flat. */
+export function hexApothem(geometry: ModuleGeometry) {
+  return geometry.hexFlat / 2;
+}
+
+/** Center → vertex. */
+export function hexRadius(geometry: ModuleGeometry) {
+  return geometry.hexPoint / 2;
+}
+
+/** Nominal electrode surface. */
+export function panelSurfaceY(geometry: ModuleGeometry) {
+  return geometry.baseThickness + geometry.substrateThickness + geometry.panelThickness;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Hex helpers (plain numbers, x/z in the panel plane)
+// ─────────────────────────────────────────────────────────────
+
+export function hexVertexAt(i: number, radius: number): [number, number] {
+  const angle = Math.PI / 6 + (Math.PI / 3) * i; // flat-top
+  return [radius * Math.cos(angle), radius * Math.sin(angle)];
+}
+
+// Hot path (every airborne grain, every step): test the three slabs
+// between opposite edges instead of walking the vertices
+const SQRT3_2 = Math.sqrt(3) / 2;
+
+/** Inside the hex with center → vertex `radius`. */
+export function isInsideHex(x: number, z: number, radius: number) {
+  const apothem = radius * SQRT3_2;
+  const ax = Math.abs(x);
+  return ax <= apothem && ax * 0.5 + Math.abs(z) * SQRT3_2 <= apothem;
+}
+
+/** Which hex side (0–5, counter-clockwise from the +x side) a direction points at. */
+export function hexSideAt(x: number, z: number) {
+  const twoPi = Math.PI * 2;
+  const angle = (((Math.atan2(z, x) - Math.PI / 6) % twoPi) + twoPi) % twoPi;
+  return Math.min(5, Math.floor(angle / (Math.PI / 3)));
+}
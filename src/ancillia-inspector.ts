@@ -0,0 +1,205 @@
+// ─────────────────────────────────────────────────────────────
+// Grain inspector (overlay panel)
+//
+// Click a grain in the viewer to see why it does what it does: size,
+// mass, charge, adhesion threshold, state and the forces on it right
+// now (field, gravity, drag, neighbours), with the liftoff margin for
+// attached grains. Shift-click pins grains so several can be compared
+// side by side; each column's colour matches the grain's trail in the
+// scene.
+// ─────────────────────────────────────────────────────────────
+
+import { panelSurfaceY } from './ancillia-geometry';
+import type { DustFrame } from './ancillia-recording';
+import {
+  createDustForces,
+  DustForces,
+  dustForces,
+  DustSimulation,
+  DustStatus
+} from './ancillia-sim';
+
+export const MAX_INSPECTED = 5;
+export const INSPECTOR_COLORS = ['#ffd166', '#4cc9f0', '#06d6a0', '#f72585', '#c77dff'];
+
+export type InspectedGrain = {
+  index: number;
+  pinned: boolean;
+  color: string;
+};
+
+export type Inspector = {
+  root: HTMLElement;
+  grains: InspectedGrain[];
+  cells: HTMLElement[][]; // [row][grain]
+  forces: DustForces;
+  s: Float64Array; // position + velocity of the grain being evaluated
+  onChange: () => void; // the selection changed
+};
+
+const STATUS_NAMES = ['attached', 'airborne', 'collected', 'inactive'];
+
+// row labels, in the order updateInspector() fills them
+const ROWS = [
+  'State',
+  'Radius',
+  'Mass',
+  'Charge',
+  'Height',
+  'Speed',
+  'Electric ↑',
+  'Gravity ↑',
+  'Drag ↑',
+  'Neighbours ↑',
+  'Adhesion threshold',
+  'Lift margin'
+];
+
+export function createInspector(root: HTMLElement, onChange: () => void = () => {}): Inspector {
+  const inspector: Inspector = {
+    root,
+    grains: [],
+    cells: [],
+    forces: createDustForces(),
+    s: new Float64Array(6),
+    onChange
+  };
+  layoutInspector(inspector);
+  return inspector;
+}
+
+/**
+ * Inspect grain `index`. A plain pick replaces the unpinned grain; with
+ * `pin` it is pinned next to the others (or unpinned if it already was).
+ */
+export function selectGrain(inspector: Inspector, index: number, pin = false) {
+  const { grains } = inspector;
+  const existing = grains.find((grain) => grain.index === index);
+  if (existing) {
+    if (pin) existing.pinned = !existing.pinned;
+  } else {
+    inspector.grains = grains.filter((grain) => grain.pinned);
+    if (inspector.grains.length >= MAX_INSPECTED) inspector.grains.shift();
+    const used = new Set(inspector.grains.map((grain) => grain.color));
+    const color = INSPECTOR_COLORS.find((c) => !used.has(c)) ?? INSPECTOR_COLORS[0];
+    inspector.grains.push({ index, pinned: pin, color });
+  }
+  layoutInspector(inspector);
+}
+
+/** Drop the unpinned grain (a click on empty space). */
+export function releaseGrain(inspector: Inspector) {
+  if (inspector.grains.every((grain) => grain.pinned)) return;
+  inspector.grains = inspector.grains.filter((grain) => grain.pinned);
+  layoutInspector(inspector);
+}
+
+function removeGrain(inspector: Inspector, index: number) {
+  inspector.grains = inspector.grains.filter((grain) => grain.index !== index);
+  layoutInspector(inspector);
+}
+
+function button(parent: HTMLElement, text: string, title: string, onClick: () => void) {
+  const el = document.createElement('button');
+  el.type = 'button';
+  el.textContent = text;
+  el.title = title;
+  el.addEventListener('click', onClick);
+  parent.appendChild(el);
+  return el;
+}
+
+// Rebuild the table for the current selection (values come in updateInspector)
+function layoutInspector(inspector: Inspector) {
+  const { root, grains } = inspector;
+  root.replaceChildren();
+  root.style.display = grains.length ? '' : 'none';
+  inspector.cells = [];
+  if (grains.length) {
+    const table = document.createElement('table');
+    const head = table.insertRow();
+    head.insertCell().textContent = 'Grain';
+    for (const grain of grains) {
+      const cell = head.insertCell();
+      cell.style.color = grain.color;
+      cell.append(`#${grain.index} `);
+      button(cell, grain.pinned ? '●' : '○', 'Pin / unpin (shift-click a grain to pin it)', () => {
+        grain.pinned = !grain.pinned;
+        layoutInspector(inspector);
+      });
+      button(cell, '×', 'Stop inspecting', () => removeGrain(inspector, grain.index));
+    }
+    for (const label of ROWS) {
+      const row = table.insertRow();
+      row.insertCell().textContent = label;
+      inspector.cells.push(grains.map(() => row.insertCell()));
+    }
+    root.appendChild(table);
+  }
+  inspector.onChange();
+}
+
+function formatForce(newtons: number) {
+  return `${(newtons * 1e9).toPrecision(3)} nN`;
+}
+
+function magnitude(v: ArrayLike<number>) {
+  return Math.hypot(v[0], v[1], v[2]);
+}
+
+/**
+ * Refresh the values for the drawn `frame`. `live` is false in replay:
+ * size, charge and forces belong to the live run, so only the recorded
+ * state and motion are shown. Forces are also left blank for grains out
+ * of play and while the sim worker is still solving the field.
+ */
+export function updateInspector(
+  inspector: Inspector,
+  sim: DustSimulation,
+  frame: DustFrame,
+  live: boolean
+) {
+  const { grains, cells, forces, s } = inspector;
+  const { state } = sim;
+  const solving = sim.config.field.model === 'solver' && !sim.fieldSolution;
+
+  grains.forEach((grain, g) => {
+    const i = grain.index;
+    const values: string[] = [];
+    if (i >= frame.status.length) {
+      for (let r = 0; r < ROWS.length; r++) values.push('—');
+    } else {
+      const status = frame.status[i];
+      for (let a = 0; a < 3; a++) {
+        s[a] = frame.position[i * 3 + a];
+        s[3 + a] = frame.velocity[i * 3 + a];
+      }
+      values.push(
+        STATUS_NAMES[status] ?? '—',
+        live ? `${(state.radius[i] * 1e6).toFixed(1)} µm` : '—',
+        live ? `${state.mass[i].toExponential(2)} kg` : '—',
+        live ? `${(state.charge[i] * 1e15).toFixed(2)} fC` : '—',
+        `${((s[1] - panelSurfaceY(sim.config.geometry)) * 1000).toFixed(1)} mm`,
+        `${(magnitude(s.subarray(3)) * 1000).toFixed(0)} mm/s`
+      );
+      const inPlay = status === DustStatus.Attached || status === DustStatus.Airborne;
+      if (live && inPlay && !solving) {
+        dustForces(sim, i, s, frame.time, forces);
+        const attached = status === DustStatus.Attached;
+        values.push(
+          `${formatForce(forces.electric[1])} (|F| ${formatForce(magnitude(forces.electric))})`,
+          formatForce(forces.gravity),
+          formatForce(forces.drag[1]),
+          formatForce(forces.neighbours[1]),
+          formatForce(forces.adhesion),
+          attached ? `${formatForce(forces.lift)} (${forces.lift > 0 ? 'lifts' : 'holds'})` : '—'
+        );
+      } else {
+        for (let r = values.length; r < ROWS.length; r++) values.push('—');
+      }
+    }
+    values.forEach((value, r) => {
+      if (cells[r][g].textContent !== value) cells[r][g].textContent = value;
+    });
+  });
+}
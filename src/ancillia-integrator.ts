@@ -0,0 +1,177 @@
+// ─────────────────────────────────────────────────────────────
+// Fixed-step integrators for a single particle
+//
+// State vector layout: [x, y, z, vx, vy, vz]. The acceleration
+// callback gets the particle index so callers can look up charge and
+// mass without allocating a closure per particle.
+// ─────────────────────────────────────────────────────────────
+
+export type IntegratorScheme =
+  | 'explicit-euler'
+  | 'semi-implicit-euler'
+  | 'velocity-verlet'
+  | 'rk4';
+
+export const INTEGRATOR_SCHEMES: IntegratorScheme[] = [
+  'explicit-euler',
+  'semi-implicit-euler',
+  'velocity-verlet',
+  'rk4'
+];
+
+export type IntegratorConfig = {
+  scheme: IntegratorScheme;
+  substepsPerPeriod: number; // fixed steps per drive wave period
+  maxFrameDt: number;        // s; longer frames (tab switches) are clamped
+  maxStepsPerFrame: number;  // leftover time beyond this is dropped
+  trackEnergy: boolean;      // accumulate the energy-balance diagnostic
+};
+
+export const DEFAULT_INTEGRATOR_CONFIG: IntegratorConfig = {
+  // velocity first, then position: what the original frame loop did
+  scheme: 'semi-implicit-euler',
+  substepsPerPeriod: 16,
+  maxFrameDt: 0.1,
+  maxStepsPerFrame: 240,
+  trackEnergy: false
+};
+
+export type AccelerationFn = (
+  i: number,
+  s: Float64Array,
+  t: number,
+  out: Float64Array
+) => void;
+
+const a0 = new Float64Array(3);
+const a1 = new Float64Array(3);
+const k1 = new Float64Array(6);
+const k2 = new Float64Array(6);
+const k3 = new Float64Array(6);
+const k4 = new Float64Array(6);
+const probe = new Float64Array(6);
+
+function rk4Derivative(
+  accel: AccelerationFn,
+  i: number,
+  s: Float64Array,
+  t: number,
+  out: Float64Array
+) {
+  accel(i, s, t, a0);
+  out[0] = s[3];
+  out[1] = s[4];
+  out[2] = s[5];
+  out[3] = a0[0];
+  out[4] = a0[1];
+  out[5] = a0[2];
+}
+
+/** Advance `s` in place by one step of size `h` starting at time `t`. */
+export function integrate(
+  scheme: IntegratorScheme,
+  accel: AccelerationFn,
+  i: number,
+  s: Float64Array,
+  t: number,
+  h: number
+) {
+  switch (scheme) {
+    case 'explicit-euler': {
+      accel(i, s, t, a0);
+      for (let k = 0; k < 3; k++) {
+        s[k] += s[k + 3] * h;
+        s[k + 3] += a0[k] * h;
+      }
+      return;
+    }
+    case 'semi-implicit-euler': {
+      accel(i, s, t, a0);
+      for (let k = 0; k < 3; k++) {
+        s[k + 3] += a0[k] * h;
+        s[k] += s[k + 3] * h;
+      }
+      return;
+    }
+    case 'velocity-verlet': {
+      accel(i, s, t, a0);
+      for (let k = 0; k < 3; k++) {
+        s[k] += s[k + 3] * h + 0.5 * a0[k] * h * h;
+        // predicted velocity for the velocity-dependent (drag) terms
+        probe[k] = s[k];
+        probe[k + 3] = s[k + 3] + a0[k] * h;
+      }
+      accel(i, probe, t + h, a1);
+      for (let k = 0; k < 3; k++) {
+        s[k + 3] += 0.5 * (a0[k] + a1[k]) * h;
+      }
+      return;
+    }
+    case 'rk4': {
+      rk4Derivative(accel, i, s, t, k1);
+      for (let k = 0; k < 6; k++) probe[k] = s[k] + 0.5 * h * k1[k];
+      rk4Derivative(accel, i, probe, t + 0.5 * h, k2);
+      for (let k = 0; k < 6; k++) probe[k] = s[k] + 0.5 * h * k2[k];
+      rk4Derivative(accel, i, probe, t + 0.5 * h, k3);
+      for (let k = 0; k < 6; k++) probe[k] = s[k] + h * k3[k];
+      rk4Derivative(accel, i, probe, t + h, k4);
+      for (let k = 0; k < 6; k++) {
+        s[k] += (h / 6) * (k1[k] + 2 * k2[k] + 2 * k3[k] + k4[k]);
+      }
+      return;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Stability
+// ─────────────────────────────────────────────────────────────
+
+// Largest stable h·k for the linear decay dv/dt = -k·v
+const DECAY_LIMIT: Record<IntegratorScheme, number> = {
+  'explicit-euler': 2,
+  'semi-implicit-euler': 2,
+  'velocity-verlet': 2,
+  rk4: 2.785
+};
+
+export type StabilityReport = {
+  stepSize: number;
+  stepsPerWavePeriod: number;
+  dragStiffness: number; // h · (drag rate)
+  stable: boolean;
+  warnings: string[];
+};
+
+export function checkStability(
+  scheme: IntegratorScheme,
+  stepSize: number,
+  waveFrequency: number,
+  dragRate: number
+): StabilityReport {
+  const stepsPerWavePeriod = 1 / (waveFrequency * stepSize);
+  const dragStiffness = dragRate * stepSize;
+  const warnings: string[] = [];
+
+  if (dragStiffness >= DECAY_LIMIT[scheme]) {
+    warnings.push(
+      `drag stiffness h·k = ${dragStiffness.toFixed(2)} exceeds ${scheme} limit ${DECAY_LIMIT[scheme]}`
+    );
+  }
+  if (stepsPerWavePeriod < 8) {
+    warnings.push(
+      `only ${stepsPerWavePeriod.toFixed(1)} steps per wave period; the drive will alias`
+    );
+  }
+  if (scheme === 'explicit-euler') {
+    warnings.push('explicit Euler gains energy on oscillatory motion');
+  }
+
+  return {
+    stepSize,
+    stepsPerWavePeriod,
+    dragStiffness,
+    stable: dragStiffness < DECAY_LIMIT[scheme] && stepsPerWavePeriod >= 2,
+    warnings
+  };
+}
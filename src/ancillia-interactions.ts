@@ -0,0 +1,309 @@
+// ─────────────────────────────────────────────────────────────
+// Particle–particle interactions
+//
+// Coulomb repulsion between nearby charged grains, cohesive merging of
+// slow collisions into agglomerates, and break-up of agglomerates whose
+// field load exceeds their bond strength. Neighbour search goes through
+// a spatial-hash cell list so cost scales with local density, not N².
+// ─────────────────────────────────────────────────────────────
+
+import { VACUUM_PERMITTIVITY } from './ancillia-field-solver';
+
+export const COULOMB_CONSTANT = 1 / (4 * Math.PI * VACUUM_PERMITTIVITY);
+
+export type InteractionConfig = {
+  coulomb: boolean;
+  cutoff: number;        // m, Coulomb range and cell size
+  softening: number;     // m, keeps the force finite at contact
+  cohesion: boolean;
+  contactScale: number;  // × (r_i + r_j) counts as touching
+  stickVelocity: number; // m/s, slower impacts merge
+  breakupStress: number; // Pa, |qE| / (π r²) that tears an agglomerate
+};
+
+export const DEFAULT_INTERACTION_CONFIG: InteractionConfig = {
+  coulomb: false,
+  cutoff: 0.01,
+  softening: 50e-6,
+  cohesion: false,
+  contactScale: 1,
+  stickVelocity: 0.05,
+  breakupStress: 50
+};
+
+/**
+ * The slice of particle state the interaction passes touch. Kept
+ * structural so this module doesn't depend on the simulation core.
+ */
+export type InteractingState = {
+  count: number;
+  position: Float64Array;
+  velocity: Float64Array;
+  radius: Float64Array;
+  mass: Float64Array;
+  charge: Float64Array;
+  members: Uint16Array;
+  force: Float64Array;
+  status: Uint8Array;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Cell list (spatial hash, linked lists in typed arrays)
+// ─────────────────────────────────────────────────────────────
+
+export type CellList = {
+  cellSize: number;
+  head: Int32Array; // bucket → first particle (-1 = empty)
+  next: Int32Array; // particle → next in bucket
+};
+
+export function createCellList(capacity: number): CellList {
+  let buckets = 64;
+  while (buckets < capacity * 2) buckets *= 2;
+  return {
+    cellSize: 1,
+    head: new Int32Array(buckets).fill(-1),
+    next: new Int32Array(capacity).fill(-1)
+  };
+}
+
+function bucketOf(cells: CellList, cx: number, cy: number, cz: number) {
+  const h = Math.imul(cx, 73856093) ^ Math.imul(cy, 19349663) ^ Math.imul(cz, 83492791);
+  return (h >>> 0) & (cells.head.length - 1);
+}
+
+/** Insert every particle whose status is in `include` (a bitmask of status codes). */
+export function buildCellList(
+  cells: CellList,
+  state: InteractingState,
+  cellSize: number,
+  include: number
+) {
+  if (cells.next.length < state.count) {
+    Object.assign(cells, createCellList(state.count));
+  }
+  cells.cellSize = cellSize;
+  cells.head.fill(-1);
+  const pos = state.position;
+
+  // insert in reverse so each bucket lists particles in ascending order
+  for (let i = state.count - 1; i >= 0; i--) {
+    cells.next[i] = -1;
+    if (!(include & (1 << state.status[i]))) continue;
+    const b = bucketOf(
+      cells,
+      Math.floor(pos[i * 3] / cellSize),
+      Math.floor(pos[i * 3 + 1] / cellSize),
+      Math.floor(pos[i * 3 + 2] / cellSize)
+    );
+    cells.next[i] = cells.head[b];
+    cells.head[b] = i;
+  }
+}
+
+const neighbourBuckets = new Int32Array(27);
+
+/** Unique buckets covering the 3×3×3 cells around a point. */
+function gatherBuckets(cells: CellList, x: number, y: number, z: number) {
+  const cx = Math.floor(x / cells.cellSize);
+  const cy = Math.floor(y / cells.cellSize);
+  const cz = Math.floor(z / cells.cellSize);
+  let n = 0;
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const b = bucketOf(cells, cx + dx, cy + dy, cz + dz);
+        let seen = false;
+        for (let k = 0; k < n; k++) {
+          if (neighbourBuckets[k] === b) {
+            seen = true;
+            break;
+          }
+        }
+        if (!seen) neighbourBuckets[n++] = b;
+      }
+    }
+  }
+  return n;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Coulomb forces
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Fill `state.force` with the Coulomb force from neighbours within the
+ * cutoff. `movable` is a status bitmask of particles that receive force;
+ * the cell list decides who exerts it.
+ */
+export function computeCoulombForces(
+  state: InteractingState,
+  config: InteractionConfig,
+  cells: CellList,
+  movable: number
+) {
+  const { position: pos, charge, force } = state;
+  const cutoff2 = config.cutoff * config.cutoff;
+  const soft2 = config.softening * config.softening;
+
+  for (let i = 0; i < state.count; i++) {
+    const ix = i * 3;
+    force[ix] = force[ix + 1] = force[ix + 2] = 0;
+    if (!(movable & (1 << state.status[i]))) continue;
+
+    const n = gatherBuckets(cells, pos[ix], pos[ix + 1], pos[ix + 2]);
+    for (let b = 0; b < n; b++) {
+      for (let j = cells.head[neighbourBuckets[b]]; j !== -1; j = cells.next[j]) {
+        if (j === i) continue;
+        const dx = pos[ix] - pos[j * 3];
+        const dy = pos[ix + 1] - pos[j * 3 + 1];
+        const dz = pos[ix + 2] - pos[j * 3 + 2];
+        const d2 = dx * dx + dy * dy + dz * dz;
+        if (d2 > cutoff2) continue;
+        const r2 = d2 + soft2;
+        const scale = (COULOMB_CONSTANT * charge[i] * charge[j]) / (r2 * Math.sqrt(r2));
+        force[ix] += scale * dx;
+        force[ix + 1] += scale * dy;
+        force[ix + 2] += scale * dz;
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Cohesion: merge slow contacts into agglomerates
+// ─────────────────────────────────────────────────────────────
+
+function mergeInto(state: InteractingState, i: number, j: number) {
+  const { position: pos, velocity: vel, mass } = state;
+  const mi = mass[i];
+  const mj = mass[j];
+  const m = mi + mj;
+
+  for (let k = 0; k < 3; k++) {
+    pos[i * 3 + k] = (pos[i * 3 + k] * mi + pos[j * 3 + k] * mj) / m;
+    vel[i * 3 + k] = (vel[i * 3 + k] * mi + vel[j * 3 + k] * mj) / m;
+  }
+  mass[i] = m;
+  state.charge[i] += state.charge[j];
+  state.radius[i] = Math.cbrt(
+    Math.pow(state.radius[i], 3) + Math.pow(state.radius[j], 3)
+  );
+  state.members[i] = Math.min(state.members[i] + state.members[j], 0xffff);
+}
+
+/**
+ * Visit every touching pair (i < j) of particles with status `status`,
+ * passing the closing speed. Status is re-checked per pair, so `onContact`
+ * may retire `j` as it goes.
+ */
+export function forEachContact(
+  state: InteractingState,
+  config: InteractionConfig,
+  cells: CellList,
+  status: number,
+  onContact: (i: number, j: number, speed: number) => void
+) {
+  const { position: pos, velocity: vel, radius } = state;
+
+  for (let i = 0; i < state.count; i++) {
+    if (state.status[i] !== status) continue;
+    const ix = i * 3;
+    const n = gatherBuckets(cells, pos[ix], pos[ix + 1], pos[ix + 2]);
+
+    for (let b = 0; b < n; b++) {
+      for (let j = cells.head[neighbourBuckets[b]]; j !== -1; j = cells.next[j]) {
+        if (j <= i || state.status[j] !== status) continue;
+        const dx = pos[j * 3] - pos[ix];
+        const dy = pos[j * 3 + 1] - pos[ix + 1];
+        const dz = pos[j * 3 + 2] - pos[ix + 2];
+        const reach = (radius[i] + radius[j]) * config.contactScale;
+        if (dx * dx + dy * dy + dz * dz > reach * reach) continue;
+
+        const dvx = vel[j * 3] - vel[ix];
+        const dvy = vel[j * 3 + 1] - vel[ix + 1];
+        const dvz = vel[j * 3 + 2] - vel[ix + 2];
+        onContact(i, j, Math.sqrt(dvx * dvx + dvy * dvy + dvz * dvz));
+      }
+    }
+  }
+}
+
+/**
+ * Merge airborne pairs that touch while closing slower than the stick
+ * velocity. Faster contacts pass through (no grain–grain rebound model).
+ * `onMerge(i, j)` is told that `j` was folded into `i` and must free `j`.
+ * Returns the number of merges.
+ */
+export function mergeCollidingGrains(
+  state: InteractingState,
+  config: InteractionConfig,
+  cells: CellList,
+  airborne: number,
+  onMerge: (i: number, j: number) => void
+) {
+  let merges = 0;
+  forEachContact(state, config, cells, airborne, (i, j, speed) => {
+    if (speed > config.stickVelocity) return;
+    mergeInto(state, i, j);
+    onMerge(i, j);
+    merges++;
+  });
+  return merges;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Break-up under field stress
+// ─────────────────────────────────────────────────────────────
+
+/** Mean tensile load the field puts on an agglomerate's cross-section. */
+export function fieldStress(
+  charge: number,
+  radius: number,
+  ex: number,
+  ey: number,
+  ez: number
+) {
+  const e = Math.sqrt(ex * ex + ey * ey + ez * ez);
+  return Math.abs(charge * e) / (Math.PI * radius * radius);
+}
+
+/**
+ * Split agglomerate `i` in two along the field direction (unit vector
+ * `dir`), moving the second half into free slot `j`. Halves fly apart at
+ * twice the stick velocity so they don't immediately re-merge.
+ */
+export function splitAgglomerate(
+  state: InteractingState,
+  config: InteractionConfig,
+  i: number,
+  j: number,
+  dir: [number, number, number]
+) {
+  const total = state.members[i];
+  const keep = Math.ceil(total / 2);
+  const share = (total - keep) / total;
+
+  const mass = state.mass[i];
+  const charge = state.charge[i];
+  const volume = Math.pow(state.radius[i], 3);
+
+  state.mass[j] = mass * share;
+  state.charge[j] = charge * share;
+  state.radius[j] = Math.cbrt(volume * share);
+  state.members[j] = total - keep;
+
+  state.mass[i] = mass - state.mass[j];
+  state.charge[i] = charge - state.charge[j];
+  state.radius[i] = Math.cbrt(volume * (1 - share));
+  state.members[i] = keep;
+
+  const gap = (state.radius[i] + state.radius[j]) * config.contactScale;
+  const kick = config.stickVelocity;
+  for (let k = 0; k < 3; k++) {
+    state.position[j * 3 + k] = state.position[i * 3 + k] + dir[k] * gap;
+    state.velocity[j * 3 + k] = state.velocity[i * 3 + k] + dir[k] * kick;
+    state.velocity[i * 3 + k] -= dir[k] * kick;
+    state.force[j * 3 + k] = 0;
+  }
+}
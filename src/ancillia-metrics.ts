@@ -0,0 +1,354 @@
+// ─────────────────────────────────────────────────────────────
+// Cleaning-efficiency metrics
+//
+// Definitions (shared with the bench protocol so numbers compare):
+//   cleared %      (initial dust mass collected in a trench or escaped) /
+//                  (initial attached mass). Dust that is only lifted is not
+//                  cleared; dust that arrives later (respawn, deposition)
+//                  never counts.
+//   airborne %     initial dust mass in flight right now, of the same total.
+//   attached / airborne / collected
+//                  grains currently in each state.
+//   trench sides   grains and mass collected per hex side (0–5, CCW from +x).
+//   escaped        grains that left the module bounds or flew off the top.
+//   t90            first time cleared % reached 90.
+//   per species    cleared % (same rule), collected and escaped mass for each dust
+//                  species; an agglomerate counts as the species of the
+//                  grain that absorbed the others.
+//   per module     (arrays) cleared % of each module's initial dust, and
+//                  the mass its grains brought to the trench. A module's
+//                  cleared % can go negative when a neighbour's dust
+//                  settles on it.
+//   collectors     (arrays) grains and mass per trench collector: one per
+//                  rim side, one per docked seam, which both modules feed.
+//   transfers      (arrays) grains that flew from one module into a
+//                  neighbour, in total and per seam.
+//
+// Headless runs keep every sample. Interactive runs set `maxSamples`:
+// when the series outgrows it, every other sample is dropped and the
+// interval doubles, so the history still spans the whole run.
+// ─────────────────────────────────────────────────────────────
+
+export type MetricsSample = {
+  time: number;
+  clearedPercent: number;
+  airbornePercent: number; // initial dust in flight: lifted, not yet cleared
+  attached: number;
+  airborne: number;
+  collected: number;
+  collectedTotal: number;
+  escapedTotal: number;
+  speciesCleared: number[]; // %, same order as RunMetrics.species
+  moduleCleared: number[];  // %, same order as RunMetrics.modules
+  transfersTotal: number;
+};
+
+export type RunMetrics = {
+  sampleInterval: number;  // s of sim time between samples
+  maxSamples: number;      // history kept before thinning (Infinity: all)
+  nextSample: number;
+  initialMass: number;     // kg attached at the start of the run
+  origin: Float64Array;    // per slot: kg of initial dust it still carries
+  collectedCount: Uint32Array;  // per trench side
+  collectedMass: Float64Array;  // per trench side, kg
+  escapedCount: number;
+  escapedMass: number;
+  liftoffs: number;
+  timeTo90: number | null;
+  samples: MetricsSample[];
+  species: string[];                 // ids, indexed by the per-grain species code
+  speciesInitialMass: Float64Array;  // kg
+  speciesCollectedMass: Float64Array;
+  speciesEscapedMass: Float64Array;
+  modules: string[];                 // cell labels, indexed by the per-grain module
+  moduleInitialMass: Float64Array;   // kg
+  moduleCollectedMass: Float64Array;
+  collectors: string[];              // labels, indexed like ModuleArray.edges
+  collectorCount: Uint32Array;
+  collectorMass: Float64Array;       // kg
+  collectorTransfers: Uint32Array;   // grains that crossed the seam (0 on the rim)
+  transfers: number;
+};
+
+/** The modules and trench collectors of the run (see ancillia-array). */
+export type MetricsLayout = {
+  modules: string[];
+  collectors: string[];
+};
+
+const SINGLE_MODULE: MetricsLayout = {
+  modules: ['0,0'],
+  collectors: ['0,0/0', '0,0/1', '0,0/2', '0,0/3', '0,0/4', '0,0/5']
+};
+
+export function createRunMetrics(
+  count: number,
+  species: string[] = ['dust'],
+  layout: MetricsLayout = SINGLE_MODULE,
+  sampleInterval = 0.25,
+  maxSamples = Infinity
+): RunMetrics {
+  const { modules, collectors } = layout;
+  return {
+    sampleInterval,
+    maxSamples,
+    nextSample: 0,
+    initialMass: 0,
+    origin: new Float64Array(count),
+    collectedCount: new Uint32Array(6),
+    collectedMass: new Float64Array(6),
+    escapedCount: 0,
+    escapedMass: 0,
+    liftoffs: 0,
+    timeTo90: null,
+    samples: [],
+    species,
+    speciesInitialMass: new Float64Array(species.length),
+    speciesCollectedMass: new Float64Array(species.length),
+    speciesEscapedMass: new Float64Array(species.length),
+    modules,
+    moduleInitialMass: new Float64Array(modules.length),
+    moduleCollectedMass: new Float64Array(modules.length),
+    collectors,
+    collectorCount: new Uint32Array(collectors.length),
+    collectorMass: new Float64Array(collectors.length),
+    collectorTransfers: new Uint32Array(collectors.length),
+    transfers: 0
+  };
+}
+
+type StatusCodes = { attached: number; airborne: number; collected: number };
+
+type TrackedState = {
+  count: number;
+  mass: Float64Array;
+  status: Uint8Array;
+  species: Uint8Array;
+  module: Uint16Array;
+};
+
+/** Mark every grain with status `attached` as initial dust. */
+export function beginRun(metrics: RunMetrics, state: TrackedState, attached: number) {
+  metrics.initialMass = 0;
+  metrics.speciesInitialMass.fill(0);
+  metrics.moduleInitialMass.fill(0);
+  for (let i = 0; i < state.count; i++) {
+    metrics.origin[i] = state.status[i] === attached ? state.mass[i] : 0;
+    metrics.initialMass += metrics.origin[i];
+    metrics.speciesInitialMass[state.species[i]] += metrics.origin[i];
+    metrics.moduleInitialMass[state.module[i]] += metrics.origin[i];
+  }
+}
+
+// Initial dust still in play: on the panel or in flight above it
+function inPlay(status: number, codes: StatusCodes) {
+  return status === codes.attached || status === codes.airborne;
+}
+
+/** Share of the initial dust collected or escaped (lifted dust is not cleared). */
+export function clearedFraction(metrics: RunMetrics, state: TrackedState, codes: StatusCodes) {
+  if (metrics.initialMass <= 0) return 0;
+  let remaining = 0;
+  for (let i = 0; i < state.count; i++) {
+    if (inPlay(state.status[i], codes)) remaining += metrics.origin[i];
+  }
+  return 1 - remaining / metrics.initialMass;
+}
+
+/** Share of the initial dust in flight right now. */
+export function airborneFraction(metrics: RunMetrics, state: TrackedState, airborne: number) {
+  if (metrics.initialMass <= 0) return 0;
+  let aloft = 0;
+  for (let i = 0; i < state.count; i++) {
+    if (state.status[i] === airborne) aloft += metrics.origin[i];
+  }
+  return aloft / metrics.initialMass;
+}
+
+/** Cleared fraction of each species' initial dust, written into `out`. */
+export function speciesClearedFractions(
+  metrics: RunMetrics,
+  state: TrackedState,
+  codes: StatusCodes,
+  out: number[]
+) {
+  const n = metrics.species.length;
+  out.length = n;
+  out.fill(0);
+  for (let i = 0; i < state.count; i++) {
+    if (inPlay(state.status[i], codes)) out[state.species[i]] += metrics.origin[i];
+  }
+  for (let s = 0; s < n; s++) {
+    const initial = metrics.speciesInitialMass[s];
+    out[s] = initial > 0 ? 1 - out[s] / initial : 0;
+  }
+  return out;
+}
+
+/**
+ * Cleared fraction of each module's initial dust, written into `out`:
+ * initial dust still on or above the module, against what started there.
+ */
+export function moduleClearedFractions(
+  metrics: RunMetrics,
+  state: TrackedState,
+  codes: StatusCodes,
+  out: number[]
+) {
+  const n = metrics.modules.length;
+  out.length = n;
+  out.fill(0);
+  for (let i = 0; i < state.count; i++) {
+    if (inPlay(state.status[i], codes)) out[state.module[i]] += metrics.origin[i];
+  }
+  for (let m = 0; m < n; m++) {
+    const initial = metrics.moduleInitialMass[m];
+    out[m] = initial > 0 ? 1 - out[m] / initial : 0;
+  }
+  return out;
+}
+
+/** Append a sample (and note t90) once the interval has elapsed. */
+export function sampleRunMetrics(
+  metrics: RunMetrics,
+  state: TrackedState,
+  time: number,
+  codes: StatusCodes
+) {
+  if (time < metrics.nextSample) return;
+  metrics.nextSample = time + metrics.sampleInterval;
+
+  let attached = 0;
+  let airborne = 0;
+  let collected = 0;
+  for (let i = 0; i < state.count; i++) {
+    const status = state.status[i];
+    if (status === codes.attached) attached++;
+    else if (status === codes.airborne) airborne++;
+    else if (status === codes.collected) collected++;
+  }
+
+  const cleared = clearedFraction(metrics, state, codes);
+  if (metrics.timeTo90 === null && metrics.initialMass > 0 && cleared >= 0.9) {
+    metrics.timeTo90 = time;
+  }
+
+  let collectedTotal = 0;
+  for (let s = 0; s < 6; s++) collectedTotal += metrics.collectedCount[s];
+
+  const speciesCleared = speciesClearedFractions(metrics, state, codes, []);
+  const moduleCleared = moduleClearedFractions(metrics, state, codes, []);
+
+  metrics.samples.push({
+    time,
+    clearedPercent: cleared * 100,
+    airbornePercent: airborneFraction(metrics, state, codes.airborne) * 100,
+    attached,
+    airborne,
+    collected,
+    collectedTotal,
+    escapedTotal: metrics.escapedCount,
+    speciesCleared: speciesCleared.map((f) => f * 100),
+    moduleCleared: moduleCleared.map((f) => f * 100),
+    transfersTotal: metrics.transfers
+  });
+  if (metrics.samples.length > metrics.maxSamples) thinSamples(metrics);
+}
+
+// Halve the history: keep every other sample, sample half as often
+function thinSamples(metrics: RunMetrics) {
+  const { samples } = metrics;
+  let kept = 0;
+  for (let k = 0; k < samples.length; k += 2) samples[kept++] = samples[k];
+  samples.length = kept;
+  metrics.sampleInterval *= 2;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Export
+// ─────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS: Exclude<keyof MetricsSample, 'speciesCleared' | 'moduleCleared' | 'transfersTotal'>[] = [
+  'time',
+  'clearedPercent',
+  'airbornePercent',
+  'attached',
+  'airborne',
+  'collected',
+  'collectedTotal',
+  'escapedTotal'
+];
+
+/**
+ * One row per sample; mixes get a `cleared_<species>` column each, and
+ * arrays `transfersTotal` plus a `cleared_module_<q>_<r>` column each.
+ */
+export function metricsToCSV(metrics: RunMetrics) {
+  const mixed = metrics.species.length > 1;
+  const tiled = metrics.modules.length > 1;
+  const speciesColumns = mixed ? metrics.species.map((id) => `cleared_${id}`) : [];
+  const moduleColumns = tiled
+    ? ['transfersTotal', ...metrics.modules.map((cell) => `cleared_module_${cell.replace(',', '_')}`)]
+    : [];
+  const lines = [[...CSV_COLUMNS, ...speciesColumns, ...moduleColumns].join(',')];
+  for (const sample of metrics.samples) {
+    const row: number[] = CSV_COLUMNS.map((c) => sample[c]);
+    if (mixed) row.push(...sample.speciesCleared);
+    if (tiled) row.push(sample.transfersTotal, ...sample.moduleCleared);
+    lines.push(row.join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function lastSample(metrics: RunMetrics) {
+  return metrics.samples.length ? metrics.samples[metrics.samples.length - 1] : null;
+}
+
+// Per-module and per-collector summary (arrays only)
+function arraySummary(metrics: RunMetrics) {
+  const last = lastSample(metrics);
+  return {
+    transfers: metrics.transfers,
+    modules: metrics.modules.map((cell, m) => ({
+      cell,
+      initialMass: metrics.moduleInitialMass[m],
+      clearedPercent: last ? last.moduleCleared[m] : 0,
+      collectedMass: metrics.moduleCollectedMass[m]
+    })),
+    collectors: metrics.collectors.map((id, e) => ({
+      id,
+      count: metrics.collectorCount[e],
+      mass: metrics.collectorMass[e],
+      transfers: metrics.collectorTransfers[e]
+    }))
+  };
+}
+
+/** Summary + full time series; `run` carries whatever identifies the run. */
+export function metricsToJSON(metrics: RunMetrics, run: Record<string, unknown> = {}) {
+  return JSON.stringify(
+    {
+      run,
+      initialMass: metrics.initialMass,
+      timeTo90: metrics.timeTo90,
+      liftoffs: metrics.liftoffs,
+      escaped: { count: metrics.escapedCount, mass: metrics.escapedMass },
+      trenchSides: Array.from(metrics.collectedCount, (count, side) => ({
+        side,
+        count,
+        mass: metrics.collectedMass[side]
+      })),
+      species: metrics.species.map((id, s) => ({
+        id,
+        initialMass: metrics.speciesInitialMass[s],
+        clearedPercent: lastSample(metrics)?.speciesCleared[s] ?? 0,
+        collectedMass: metrics.speciesCollectedMass[s],
+        escapedMass: metrics.speciesEscapedMass[s]
+      })),
+      ...(metrics.modules.length > 1 ? { array: arraySummary(metrics) } : {}),
+      samples: metrics.samples
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,79 @@
+// ─────────────────────────────────────────────────────────────
+// Drive optimizer (Node command line)
+//
+//   npm run optimize -- optimize.json [--out best.json] [--log convergence.csv]
+//
+// Evaluations run one after another (each Nelder–Mead step depends on
+// the last), with a progress line per evaluation on stderr. The --out
+// file holds the best drive settings plus the full log and loads
+// straight into the viewer (O key).
+// ─────────────────────────────────────────────────────────────
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+  OptimizationDefinition,
+  optimizationLogToCSV,
+  optimizeDrive
+} from './ancillia-optimizer';
+
+type CliOptions = {
+  definitionPath: string;
+  out: string | null;
+  log: string | null;
+};
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { definitionPath: '', out: null, log: null };
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    if (arg === '--out') options.out = argv[++k];
+    else if (arg === '--log') options.log = argv[++k];
+    else if (!options.definitionPath) options.definitionPath = arg;
+    else throw new Error(`Unexpected argument "${arg}"`);
+  }
+  if (!options.definitionPath) {
+    throw new Error(
+      'Usage: npm run optimize -- <optimize.json> [--out best.json] [--log convergence.csv]'
+    );
+  }
+  return options;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const def = JSON.parse(readFileSync(options.definitionPath, 'utf8')) as OptimizationDefinition;
+  const started = Date.now();
+
+  const result = optimizeDrive(def, (step) => {
+    const values = Object.entries(step.values)
+      .map(([name, value]) => `${name}=${Number(value.toPrecision(4))}`)
+      .join(' ');
+    const outcome = step.feasible
+      ? `cleared ${step.clearedPercent.toFixed(1)}% · ` +
+        `${step.driveEnergy.toExponential(2)} J · score ${step.score.toPrecision(4)}`
+      : `infeasible (${step.reason})`;
+    const elapsed = ((Date.now() - started) / 1000).toFixed(1);
+    process.stderr.write(
+      `#${step.evaluation} it ${step.iteration} ${values} → ${outcome} [${elapsed} s]\n`
+    );
+  });
+
+  const { best } = result;
+  process.stderr.write(
+    `${result.converged ? 'converged' : 'stopped'} after ${result.evaluations} evaluations; ` +
+      `best #${best.evaluation}: cleared ${best.clearedPercent.toFixed(1)}%, ` +
+      `${best.driveEnergy.toExponential(2)} J\n`
+  );
+
+  const json = JSON.stringify(result, null, 2);
+  if (options.out) writeFileSync(options.out, json);
+  else process.stdout.write(json + '\n');
+  if (options.log) writeFileSync(options.log, optimizationLogToCSV(result));
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n`);
+  process.exit(1);
+}
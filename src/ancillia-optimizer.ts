@@ -0,0 +1,325 @@
+// ─────────────────────────────────────────────────────────────
+// Drive-parameter optimizer
+//
+// Nelder–Mead over a few drive knobs, with the headless simulation as
+// the objective: every evaluation runs the study config for a fixed
+// sim duration (averaged over seeds) and scores clearance, or
+// clearance per joule of driver energy. Knobs live in a unit box
+// mapped onto their ranges; discrete ones (phase count) are snapped,
+// and snapped points are cached so flat directions cost nothing.
+// Settings over the voltage limit are never simulated: they score a
+// positive penalty, which every feasible point (score ≤ 0) beats.
+// ─────────────────────────────────────────────────────────────
+
+import type { DriveConfig } from './ancillia-drive';
+import { coverBreakdownKV, peakDriveVoltageKV } from './ancillia-drive-energy';
+import { ElectrodeLayoutId, layoutPhaseCounts } from './ancillia-electrodes';
+import type { EnvironmentId } from './ancillia-environment';
+import type { SimulantId } from './ancillia-psd';
+import { validateDrive } from './ancillia-scenario';
+import type { DustSimConfig } from './ancillia-sim';
+import {
+  applyParameters,
+  runStudyConfig,
+  snapValue,
+  studyBaseConfig,
+  SweepParameter
+} from './ancillia-sweep';
+
+export type DriveParameter = Extract<
+  SweepParameter,
+  'amplitudeKV' | 'offsetKV' | 'frequency' | 'dutyCycle' | 'phases'
+>;
+
+export const DRIVE_PARAMETERS: DriveParameter[] = [
+  'amplitudeKV',
+  'offsetKV',
+  'frequency',
+  'dutyCycle',
+  'phases'
+];
+
+/**
+ * `clearance`: maximize cleared %.
+ * `clearance-per-joule`: maximize cleared % per joule of drive energy.
+ */
+export type OptimizerObjective = 'clearance' | 'clearance-per-joule';
+
+export type OptimizationDefinition = {
+  objective: OptimizerObjective;
+  parameters: Partial<Record<DriveParameter, { min: number; max: number }>>;
+  start?: Partial<Record<DriveParameter, number>>; // defaults to the base drive
+  duration: number;           // s of sim time per evaluation
+  seeds?: number[];           // results are averaged over these dust seeds
+  environment?: EnvironmentId;
+  simulant?: SimulantId;
+  base?: DustSimConfig;
+  maxVoltageKV?: number;      // peak lane voltage; defaults to the cover breakdown limit
+  minClearedPercent?: number; // settings cleaning less than this are infeasible
+  maxEvaluations?: number;
+  tolerance?: number;         // stop when the shrunken simplex's scores agree this closely
+};
+
+export type OptimizationStep = {
+  evaluation: number;
+  iteration: number;
+  values: Partial<Record<DriveParameter, number>>;
+  clearedPercent: number;
+  driveEnergy: number; // J
+  score: number;       // objective value (higher is better); 0 when not simulated
+  feasible: boolean;
+  reason?: string;     // why it is infeasible
+};
+
+export type OptimizationResult = {
+  format: 'ancillia-drive-optimization';
+  version: 1;
+  objective: OptimizerObjective;
+  maxVoltageKV: number;
+  converged: boolean;
+  evaluations: number;
+  iterations: number;
+  best: OptimizationStep & { drive: DriveConfig };
+  log: OptimizationStep[];
+};
+
+/** Check a parsed optimizer file; throws with the first problem found. */
+export function validateOptimizationDefinition(def: OptimizationDefinition) {
+  if (def.objective !== 'clearance' && def.objective !== 'clearance-per-joule') {
+    throw new Error(
+      `Objective must be "clearance" or "clearance-per-joule", got ${JSON.stringify(def.objective)}`
+    );
+  }
+  if (!(def.duration > 0)) {
+    throw new Error('Optimizer duration must be a positive number of seconds');
+  }
+  const names = Object.keys(def.parameters ?? {});
+  if (names.length === 0) throw new Error('Optimizer needs at least one drive parameter');
+  for (const name of names) {
+    if (!DRIVE_PARAMETERS.includes(name as DriveParameter)) {
+      throw new Error(
+        `Unknown drive parameter "${name}" (known: ${DRIVE_PARAMETERS.join(', ')})`
+      );
+    }
+    const { min, max } = def.parameters[name as DriveParameter]!;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || max <= min) {
+      throw new Error(`Parameter "${name}" needs numeric min < max`);
+    }
+  }
+  if (
+    def.maxEvaluations !== undefined &&
+    !(Number.isInteger(def.maxEvaluations) && def.maxEvaluations >= 1)
+  ) {
+    throw new Error('maxEvaluations must be a whole number ≥ 1');
+  }
+  if (def.seeds !== undefined && (!Array.isArray(def.seeds) || def.seeds.length === 0)) {
+    throw new Error('seeds must be a non-empty list');
+  }
+  const { layout } = studyBaseConfig(def).electrodes;
+  if (def.parameters.phases !== undefined && layoutPhaseCounts(layout).length < 2) {
+    throw new Error(`Parameter "phases" can't vary on ${layout} electrodes`);
+  }
+}
+
+// Nelder–Mead coefficients (standard choice)
+const REFLECT = 1;
+const EXPAND = 2;
+const CONTRACT = 0.5;
+const SHRINK = 0.5;
+const INITIAL_STEP = 0.25; // of each range
+// agreeing scores only mean convergence on a simplex this small (of
+// each range); a wide one with equal scores sits on a plateau
+const CONVERGED_SIZE = 0.02;
+
+type Vertex = { x: number[]; f: number };
+
+/** Run the optimization; `onStep` sees every new evaluation as it finishes. */
+export function optimizeDrive(
+  def: OptimizationDefinition,
+  onStep: (step: OptimizationStep) => void = () => {}
+): OptimizationResult {
+  validateOptimizationDefinition(def);
+  const names = Object.keys(def.parameters) as DriveParameter[];
+  const ranges = names.map((name) => def.parameters[name]!);
+  const base = studyBaseConfig(def);
+  const seeds = def.seeds ?? [1];
+  const maxVoltageKV = def.maxVoltageKV ?? coverBreakdownKV(base.geometry.coverThickness);
+  const minCleared = def.minClearedPercent ?? 0;
+  const maxEvaluations = def.maxEvaluations ?? 60;
+  const tolerance = def.tolerance ?? 1e-3;
+
+  const log: OptimizationStep[] = [];
+  const cache = new Map<string, number>(); // snapped values → minimized score
+  let iteration = 0;
+
+  const valuesAt = (x: number[]) => {
+    const values: Partial<Record<DriveParameter, number>> = {};
+    names.forEach((name, d) => {
+      const u = Math.min(Math.max(x[d], 0), 1);
+      values[name] = snapValue(name, ranges[d].min + u * (ranges[d].max - ranges[d].min));
+    });
+    return values;
+  };
+
+  const evaluate = (x: number[]) => {
+    const values = valuesAt(x);
+    const key = JSON.stringify(values);
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+    // out of budget: the point is never run, never accepted, and the
+    // loop stops before the next iteration
+    if (log.length >= maxEvaluations) return Infinity;
+
+    const config = applyParameters(base, values);
+    const peak = peakDriveVoltageKV(config.drive);
+    const step: OptimizationStep = {
+      evaluation: log.length,
+      iteration,
+      values,
+      clearedPercent: 0,
+      driveEnergy: 0,
+      score: 0,
+      feasible: false
+    };
+    // minimized: feasible points ≤ 0, infeasible ones > 0 and worse the further out
+    let f: number;
+    if (peak > maxVoltageKV) {
+      step.reason = `peak ${peak.toFixed(2)} kV over the ${maxVoltageKV.toFixed(2)} kV limit`;
+      f = 1e3 + peak - maxVoltageKV;
+    } else {
+      for (const seed of seeds) {
+        const outcome = runStudyConfig(config, def.duration, seed);
+        step.clearedPercent += outcome.clearedPercent / seeds.length;
+        step.driveEnergy += outcome.driveEnergy / seeds.length;
+      }
+      step.score =
+        def.objective === 'clearance'
+          ? step.clearedPercent
+          : step.clearedPercent / step.driveEnergy; // standby power keeps it > 0
+      step.feasible = step.clearedPercent >= minCleared;
+      if (step.feasible) {
+        f = -step.score;
+      } else {
+        step.reason = `cleared ${step.clearedPercent.toFixed(1)}% < ${minCleared}%`;
+        f = minCleared - step.clearedPercent;
+      }
+    }
+    cache.set(key, f);
+    log.push(step);
+    onStep(step);
+    return f;
+  };
+
+  // start vertex plus one step along each knob (back inside the box if needed)
+  const start = names.map((name, d) => {
+    const { min, max } = ranges[d];
+    const value = def.start?.[name] ?? base.drive[name];
+    return Math.min(Math.max((value - min) / (max - min), 0), 1);
+  });
+  let simplex: Vertex[] = [{ x: start, f: evaluate(start) }];
+  for (let d = 0; d < names.length; d++) {
+    const x = start.slice();
+    x[d] = x[d] + INITIAL_STEP <= 1 ? x[d] + INITIAL_STEP : x[d] - INITIAL_STEP;
+    simplex.push({ x, f: evaluate(x) });
+  }
+
+  const clamp = (x: number[]) => x.map((v) => Math.min(Math.max(v, 0), 1));
+  const along = (c: number[], w: number[], t: number) => clamp(c.map((v, d) => v + t * (w[d] - v)));
+  let converged = false;
+
+  // cached (snapped) points cost no evaluation, so iterations get their own cap
+  while (log.length < maxEvaluations && iteration < maxEvaluations * 4) {
+    iteration++;
+    simplex.sort((a, b) => a.f - b.f);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    const spread = Math.abs(worst.f - best.f);
+    const size = Math.max(...simplex.map((v) => Math.max(...v.x.map((u, d) => Math.abs(u - best.x[d])))));
+    const agreed = spread <= tolerance * (Math.abs(best.f) + 1e-12);
+    if ((agreed && size <= CONVERGED_SIZE) || size < 1e-4) {
+      converged = true;
+      break;
+    }
+
+    const centroid = names.map((_, d) => {
+      let sum = 0;
+      for (let v = 0; v < simplex.length - 1; v++) sum += simplex[v].x[d];
+      return sum / (simplex.length - 1);
+    });
+
+    const xr = along(centroid, worst.x, -REFLECT);
+    const fr = evaluate(xr);
+    const secondWorst = simplex[simplex.length - 2];
+    if (fr < best.f) {
+      const xe = along(centroid, worst.x, -EXPAND);
+      const fe = evaluate(xe);
+      simplex[simplex.length - 1] = fe < fr ? { x: xe, f: fe } : { x: xr, f: fr };
+    } else if (fr < secondWorst.f) {
+      simplex[simplex.length - 1] = { x: xr, f: fr };
+    } else {
+      const outside = fr < worst.f;
+      const xc = along(centroid, outside ? xr : worst.x, CONTRACT);
+      const fc = evaluate(xc);
+      if (fc < Math.min(fr, worst.f)) {
+        simplex[simplex.length - 1] = { x: xc, f: fc };
+      } else {
+        simplex = simplex.map((v, k) =>
+          k === 0 ? v : { x: along(best.x, v.x, SHRINK), f: 0 }
+        );
+        for (let k = 1; k < simplex.length; k++) simplex[k].f = evaluate(simplex[k].x);
+      }
+    }
+  }
+
+  // best feasible evaluation; fall back to the least bad one
+  const feasible = log.filter((s) => s.feasible);
+  const pool = feasible.length ? feasible : log;
+  const bestStep = pool.reduce((a, b) => (b.score > a.score ? b : a));
+  return {
+    format: 'ancillia-drive-optimization',
+    version: 1,
+    objective: def.objective,
+    maxVoltageKV,
+    converged,
+    evaluations: log.length,
+    iterations: iteration,
+    best: { ...bestStep, drive: applyParameters(base, bestStep.values).drive },
+    log
+  };
+}
+
+/** One line per evaluation, in the order they ran. */
+export function optimizationLogToCSV(result: OptimizationResult) {
+  const names = Object.keys(result.best.values) as DriveParameter[];
+  const columns = ['evaluation', 'iteration', ...names, 'clearedPercent', 'driveEnergy', 'score'];
+  const lines = [[...columns, 'feasible'].join(',')];
+  for (const step of result.log) {
+    lines.push(
+      [
+        step.evaluation,
+        step.iteration,
+        ...names.map((name) => step.values[name]),
+        step.clearedPercent,
+        step.driveEnergy,
+        step.score,
+        step.feasible
+      ].join(',')
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Drive settings from an optimizer result file, for a panel with
+ * `layout` electrodes. Throws if it isn't one, or naming the first bad
+ * drive field by the scenario rules.
+ */
+export function driveFromOptimization(data: unknown, layout: ElectrodeLayoutId): DriveConfig {
+  const result = data as { format?: unknown; best?: { drive?: unknown } } | null;
+  if (result?.format !== 'ancillia-drive-optimization') {
+    throw new Error('not a drive optimization result');
+  }
+  const drive = result.best?.drive;
+  validateDrive(drive, layout, 'optimization.best.drive');
+  return drive;
+}
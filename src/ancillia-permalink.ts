@@ -0,0 +1,235 @@
+// ─────────────────────────────────────────────────────────────
+// Permalinks (viewer state in the URL hash)
+//
+// `#view=<base64url JSON>` carries everything needed to reopen a view:
+// the scenario (only the fields that differ from the default, which
+// `parseScenario` fills back in), the sim toggles scenarios don't
+// cover, the run seed and sim time, pause state, camera pose, module
+// spin, the visible overlays and the dust colouring. Time is restored
+// by replaying the deterministic run from its seed, so a link shows
+// the same grains.
+// ─────────────────────────────────────────────────────────────
+
+import { ADHESION_MODELS, AdhesionModel } from './ancillia-adhesion';
+import { COVER_MATERIALS, CoverMaterialId } from './ancillia-charging';
+import { DUST_COLORINGS, DustColoring } from './ancillia-dust-coloring';
+import type { FieldOverlayId } from './ancillia-field-overlays';
+import { INTEGRATOR_SCHEMES, IntegratorScheme } from './ancillia-integrator';
+import { configFromScenario, DEFAULT_SCENARIO, parseScenario, Scenario } from './ancillia-scenario';
+import { DustSimConfig, dustStepSize, FieldModel } from './ancillia-sim';
+import { MAX_REPLAY_STEPS } from './ancillia-snapshot';
+
+export const PERMALINK_KEY = 'view';
+export const PERMALINK_VERSION = 1;
+
+export type OverlayId = 'charge-histogram' | 'coverage-map' | FieldOverlayId | 'array-editor';
+
+// order = viewer keys 3, 4, 5, 6, 7, then 0
+export const OVERLAYS: OverlayId[] = [
+  'charge-histogram',
+  'coverage-map',
+  'field-vectors',
+  'field-lines',
+  'field-slice',
+  'array-editor'
+];
+
+/** Sim switches the viewer has keys for but scenario files leave out. */
+export type SimToggles = {
+  integrator: IntegratorScheme;
+  field: FieldModel;
+  coulomb: boolean; // grain–grain forces + agglomeration
+  adhesion: AdhesionModel;
+  charging: boolean;
+  cover: CoverMaterialId;
+  deposition: boolean;
+};
+
+export type ViewState = {
+  scenario: Scenario;
+  toggles: SimToggles;
+  seed: number;
+  time: number; // s of sim time
+  paused: boolean;
+  camera: { position: [number, number, number]; target: [number, number, number] };
+  spin: number; // module rotation about +y (rad)
+  overlays: OverlayId[];
+  coloring: DustColoring;
+};
+
+export function simToggles(config: DustSimConfig): SimToggles {
+  return {
+    integrator: config.integrator.scheme,
+    field: config.field.model,
+    coulomb: config.interactions.coulomb,
+    adhesion: config.adhesion.model,
+    charging: config.charging.enabled,
+    cover: config.charging.cover,
+    deposition: config.deposition.enabled
+  };
+}
+
+/** Copy of `config` with the toggles written in. */
+export function applySimToggles(config: DustSimConfig, toggles: SimToggles): DustSimConfig {
+  return {
+    ...config,
+    integrator: { ...config.integrator, scheme: toggles.integrator },
+    field: { ...config.field, model: toggles.field },
+    interactions: {
+      ...config.interactions,
+      coulomb: toggles.coulomb,
+      cohesion: toggles.coulomb
+    },
+    adhesion: { ...config.adhesion, model: toggles.adhesion },
+    charging: { ...config.charging, enabled: toggles.charging, cover: toggles.cover },
+    deposition: { ...config.deposition, enabled: toggles.deposition }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Encoding
+// ─────────────────────────────────────────────────────────────
+
+// Leaves of `value` that differ from `base`; lists and tagged unions
+// (distributions) are compared and kept whole
+function changedFields(value: unknown, base: unknown): unknown {
+  const plain = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v) && !('kind' in v);
+  if (!plain(value) || !plain(base)) {
+    return JSON.stringify(value) === JSON.stringify(base) ? undefined : value;
+  }
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    const changed = changedFields(value[key], base[key]);
+    if (changed !== undefined) out[key] = changed;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+const round = (v: number, digits = 4) => Number(v.toFixed(digits));
+
+// What the hash carries, with short keys to keep links short
+type PermalinkPayload = {
+  v: number;
+  sc: Record<string, unknown>; // scenario fields that differ from the default
+  tg: SimToggles;
+  seed: number;
+  t: number;
+  p: 0 | 1;
+  cam: number[]; // position then target
+  spin: number;
+  ov: OverlayId[];
+  col: DustColoring;
+};
+
+function toBase64Url(text: string) {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string) {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/** Hash fragment (with the leading `#`) for a view. */
+export function encodePermalink(view: ViewState) {
+  const scenario = (changedFields(view.scenario, DEFAULT_SCENARIO) ?? {}) as Record<string, unknown>;
+  const payload: PermalinkPayload = {
+    v: PERMALINK_VERSION,
+    sc: { ...scenario, format: view.scenario.format, version: view.scenario.version },
+    tg: view.toggles,
+    seed: view.seed,
+    t: round(view.time, 6),
+    p: view.paused ? 1 : 0,
+    cam: [...view.camera.position, ...view.camera.target].map((v) => round(v)),
+    spin: round(view.spin),
+    ov: view.overlays,
+    col: view.coloring
+  };
+  return `#${PERMALINK_KEY}=${toBase64Url(JSON.stringify(payload))}`;
+}
+
+function checkToggles(value: unknown): SimToggles {
+  const fields: [keyof SimToggles, readonly unknown[]][] = [
+    ['integrator', INTEGRATOR_SCHEMES],
+    ['field', ['analytic', 'solver']],
+    ['coulomb', [true, false]],
+    ['adhesion', ADHESION_MODELS],
+    ['charging', [true, false]],
+    ['cover', COVER_MATERIALS],
+    ['deposition', [true, false]]
+  ];
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('permalink.toggles must be an object');
+  }
+  const toggles = value as Record<string, unknown>;
+  for (const [key, allowed] of fields) {
+    if (!allowed.includes(toggles[key])) {
+      throw new Error(`permalink.toggles.${key} must be one of ${allowed.join(', ')}`);
+    }
+  }
+  return toggles as SimToggles;
+}
+
+/**
+ * The view in a location hash, or null when the hash holds none.
+ * Throws naming the bad field when a link is damaged or out of range.
+ */
+export function decodePermalink(hash: string): ViewState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(PERMALINK_KEY);
+  if (!encoded) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error('permalink is not valid (truncated or mangled link?)');
+  }
+  const link = data as { [key in keyof PermalinkPayload]?: unknown } | null;
+  if (link?.v !== PERMALINK_VERSION) {
+    throw new Error(`permalink version must be ${PERMALINK_VERSION}, got ${JSON.stringify(link?.v)}`);
+  }
+  const { seed, t, cam, spin, ov } = link;
+  if (typeof seed !== 'number' || !Number.isInteger(seed)) {
+    throw new Error('permalink.seed must be an integer');
+  }
+  if (typeof t !== 'number' || !(t >= 0)) throw new Error('permalink.time must be a number ≥ 0');
+  if (!Array.isArray(cam) || cam.length !== 6 || !cam.every(Number.isFinite)) {
+    throw new Error('permalink.camera must be 6 numbers (position, target)');
+  }
+  if (typeof spin !== 'number' || !Number.isFinite(spin)) {
+    throw new Error('permalink.spin must be a number');
+  }
+  if (!Array.isArray(ov) || ov.some((id: unknown) => !OVERLAYS.includes(id as OverlayId))) {
+    throw new Error(`permalink.overlays must list ids from ${OVERLAYS.join(', ')}`);
+  }
+  const coloring = link.col ?? 'species'; // links from before dust colourings
+  if (!DUST_COLORINGS.includes(coloring as DustColoring)) {
+    throw new Error(`permalink.coloring must be one of ${DUST_COLORINGS.join(', ')}`);
+  }
+  const camera = cam as number[];
+  const scenario = parseScenario(link.sc);
+  // the worker replays up to `t` in one go before it shows anything
+  const maxTime = MAX_REPLAY_STEPS * dustStepSize(configFromScenario(scenario));
+  if (t > maxTime) {
+    throw new Error(`permalink.time must be at most ${round(maxTime, 1)} s for this drive, got ${t}`);
+  }
+
+  return {
+    scenario,
+    toggles: checkToggles(link.tg),
+    seed,
+    time: t,
+    paused: link.p === 1,
+    camera: {
+      position: camera.slice(0, 3) as [number, number, number],
+      target: camera.slice(3, 6) as [number, number, number]
+    },
+    spin,
+    overlays: ov as OverlayId[],
+    coloring: coloring as DustColoring
+  };
+}
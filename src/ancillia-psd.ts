@@ -0,0 +1,252 @@
+// ─────────────────────────────────────────────────────────────
+// Particle size + charge distributions
+//
+// Lab data comes as cumulative tables: diameter vs cumulative volume
+// (laser diffraction) and charge-to-mass vs cumulative count (Faraday
+// cup). Every simulated grain is one particle, so volume-basis size
+// tables are converted to number basis (weight ∝ 1/d³) before sampling
+// by inverse CDF. Inside a bin, diameter is interpolated in log space,
+// matching how sieve and diffraction bins are spaced.
+// ─────────────────────────────────────────────────────────────
+
+import type { DustSimConfig } from './ancillia-sim';
+
+export type CumulativeTable = {
+  values: number[];     // ascending (µm for sizes, µC/g for charge-to-mass)
+  cumulative: number[]; // 0 … 1, same length
+};
+
+/**
+ * `power`: legacy r = rMin + (rMax − rMin)·u^exponent.
+ * `table`: tabulated diameter (µm) CDF, by volume or by number.
+ */
+export type SizeDistribution =
+  | { kind: 'power' }
+  | { kind: 'table'; basis: 'volume' | 'number'; table: CumulativeTable };
+
+/**
+ * `uniform`: legacy q ∈ [chargeMin, chargeMax].
+ * `normal`: charge-to-mass (µC/g) ~ N(mean, sd).
+ * `table`: tabulated charge-to-mass (µC/g) CDF.
+ */
+export type ChargeDistribution =
+  | { kind: 'uniform' }
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'table'; table: CumulativeTable };
+
+export const MICROCOULOMB_PER_GRAM = 1e-3; // C/kg
+
+// ─────────────────────────────────────────────────────────────
+// CSV import
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Two numeric columns: value, cumulative (fraction or percent). Header
+ * lines, `#` comments and extra columns are ignored. Rows are sorted,
+ * the cumulative column is forced monotonic and normalized to end at 1.
+ */
+export function parseCumulativeCSV(text: string): CumulativeTable {
+  const rows: [number, number][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const cells = trimmed.split(/[,;\t ]+/).map(Number);
+    if (cells.length < 2 || !Number.isFinite(cells[0]) || !Number.isFinite(cells[1])) continue;
+    rows.push([cells[0], cells[1]]);
+  }
+  if (rows.length < 2) {
+    throw new Error('Distribution CSV needs at least two numeric rows (value, cumulative)');
+  }
+
+  rows.sort((a, b) => a[0] - b[0]);
+  const last = rows[rows.length - 1][1];
+  const scale = last > 1.5 ? 100 : 1; // percent vs fraction
+  const values: number[] = [];
+  const cumulative: number[] = [];
+  let running = 0;
+  for (const [value, c] of rows) {
+    running = Math.max(running, c / scale);
+    values.push(value);
+    cumulative.push(running);
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (!(total > 0)) throw new Error('Distribution CSV cumulative column never rises above 0');
+  return { values, cumulative: cumulative.map((c) => c / total) };
+}
+
+export type ImportedDistribution =
+  | { target: 'size'; size: SizeDistribution }
+  | { target: 'charge'; charge: ChargeDistribution };
+
+/**
+ * Parse a lab CSV and decide from its header what it describes: a
+ * header mentioning charge, q/m or µC/uC is a charge-to-mass table,
+ * anything else a size table (by number if the header says so, else by
+ * volume, which is what diffraction instruments report).
+ */
+export function parseDistributionCSV(text: string): ImportedDistribution {
+  const header = text
+    .split(/\r?\n/)
+    .filter((line) => /[a-z]/i.test(line))
+    .join(' ')
+    .toLowerCase();
+  const table = parseCumulativeCSV(text);
+  if (/charge|q\/m|µc|uc\/g/.test(header)) {
+    return { target: 'charge', charge: { kind: 'table', table } };
+  }
+  const basis = /number|count/.test(header) ? 'number' : 'volume';
+  return { target: 'size', size: { kind: 'table', basis, table } };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Inverse-CDF samplers
+// ─────────────────────────────────────────────────────────────
+
+/** Number-basis CDF over log-spaced bins, ready for inverse lookup. */
+export type TableSampler = {
+  values: Float64Array;
+  cdf: Float64Array;
+  log: boolean; // interpolate in log(value)
+};
+
+export function createTableSampler(table: CumulativeTable, log: boolean): TableSampler {
+  return {
+    values: Float64Array.from(table.values),
+    cdf: Float64Array.from(table.cumulative),
+    log
+  };
+}
+
+/** Convert a volume-basis size CDF to number basis (bin weight ΔV / d̄³). */
+export function volumeToNumberBasis(table: CumulativeTable): CumulativeTable {
+  const { values, cumulative } = table;
+  const weights = [0];
+  let total = 0;
+  for (let k = 1; k < values.length; k++) {
+    const dMid = Math.sqrt(Math.max(values[k - 1], 1e-9) * values[k]); // geometric mean
+    total += (cumulative[k] - cumulative[k - 1]) / (dMid * dMid * dMid);
+    weights.push(total);
+  }
+  return { values: values.slice(), cumulative: weights.map((w) => (total > 0 ? w / total : 0)) };
+}
+
+export function sampleTable(sampler: TableSampler, u: number) {
+  const { values, cdf } = sampler;
+  const n = cdf.length;
+  if (u <= cdf[0]) return values[0];
+  if (u >= cdf[n - 1]) return values[n - 1];
+
+  // binary search for cdf[k-1] < u ≤ cdf[k]
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (cdf[mid] < u) lo = mid;
+    else hi = mid;
+  }
+  const span = cdf[hi] - cdf[lo];
+  const t = span > 0 ? (u - cdf[lo]) / span : 0;
+  const a = values[lo];
+  const b = values[hi];
+  if (sampler.log && a > 0 && b > 0) return a * Math.pow(b / a, t);
+  return a + (b - a) * t;
+}
+
+export function sizeSampler(size: SizeDistribution): TableSampler | null {
+  if (size.kind !== 'table') return null;
+  const table = size.basis === 'volume' ? volumeToNumberBasis(size.table) : size.table;
+  return createTableSampler(table, true);
+}
+
+// Box–Muller, consuming two uniforms
+export function normalQuantile(u1: number, u2: number) {
+  return Math.sqrt(-2 * Math.log(1 - u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Simulant presets
+// ─────────────────────────────────────────────────────────────
+
+export type SimulantId = 'legacy' | 'mgs-1' | 'jsc-mars-1' | 'jsc-1a';
+
+export const SIMULANTS: SimulantId[] = ['legacy', 'mgs-1', 'jsc-mars-1', 'jsc-1a'];
+
+export type SimulantPreset = {
+  id: SimulantId;
+  label: string;
+  density: number; // kg/m³, grain (not bulk)
+  size: SizeDistribution;
+  charge: ChargeDistribution;
+};
+
+/*
+ * Curves are representative of the sieved < 45 µm fractions used in EDS
+ * tests (volume basis), shaped after published laser-diffraction data
+ * and cut at 5 µm (finer grains need a smaller step than the default);
+ * load your own lab CSV when numbers must match a specific batch.
+ */
+export const SIMULANT_PRESETS: Record<SimulantId, SimulantPreset> = {
+  legacy: {
+    id: 'legacy',
+    label: 'Legacy power law',
+    density: 3100,
+    size: { kind: 'power' },
+    charge: { kind: 'uniform' }
+  },
+  'mgs-1': {
+    id: 'mgs-1',
+    label: 'MGS-1 (Mars global) < 45 µm',
+    density: 2900,
+    size: {
+      kind: 'table',
+      basis: 'volume',
+      table: {
+        values: [5, 10, 20, 30, 45, 63],
+        cumulative: [0, 0.14, 0.43, 0.67, 0.91, 1]
+      }
+    },
+    charge: { kind: 'normal', mean: 0.3, sd: 0.25 }
+  },
+  'jsc-mars-1': {
+    id: 'jsc-mars-1',
+    label: 'JSC Mars-1 < 45 µm',
+    density: 2600,
+    size: {
+      kind: 'table',
+      basis: 'volume',
+      table: {
+        values: [5, 10, 20, 30, 45, 63],
+        cumulative: [0, 0.17, 0.48, 0.71, 0.94, 1]
+      }
+    },
+    charge: { kind: 'normal', mean: 0.2, sd: 0.3 }
+  },
+  'jsc-1a': {
+    id: 'jsc-1a',
+    label: 'JSC-1A (lunar) < 45 µm',
+    density: 2900,
+    size: {
+      kind: 'table',
+      basis: 'volume',
+      table: {
+        values: [5, 10, 20, 40, 63],
+        cumulative: [0, 0.19, 0.43, 0.84, 1]
+      }
+    },
+    charge: { kind: 'normal', mean: 0.5, sd: 0.3 }
+  }
+};
+
+/** Copy of `config` sampling grains from the simulant's distributions. */
+export function applySimulant(config: DustSimConfig, preset: SimulantPreset): DustSimConfig {
+  return {
+    ...config,
+    dust: {
+      ...config.dust,
+      simulant: preset.id,
+      density: preset.density,
+      size: preset.size,
+      charge: preset.charge
+    }
+  };
+}
@@ -0,0 +1,262 @@
+// ─────────────────────────────────────────────────────────────
+// Trajectory recordings
+//
+// A recording is the particle state the viewer drew, one frame per
+// snapshot the sim worker published: positions and velocities as
+// float32, plus status, species and agglomerate size, which is all the
+// renderer needs.
+// Frames are copied out of the live run, so playback (scrub, step,
+// reverse, any speed) never touches the physics. The `.adrec` file is
+// a small header, the run's scenario as JSON, then the frames packed
+// back to back in little-endian order.
+// ─────────────────────────────────────────────────────────────
+
+import type { Scenario } from './ancillia-scenario';
+
+export const RECORDING_MAGIC = 'ADRC';
+export const RECORDING_VERSION = 1;
+export const RECORDING_EXTENSION = '.adrec';
+export const RECORDING_BUDGET = 128 * 1024 * 1024; // bytes of frames kept in memory
+
+export type RecordingMeta = {
+  seed: number;
+  scenario: Scenario; // setup the run was recorded with
+};
+
+/** One rendered frame; field names match DustState so the renderer takes either. */
+export type DustFrame = {
+  time: number; // s of sim time
+  position: Float32Array; // xyz interleaved
+  velocity: Float32Array;
+  status: Uint8Array;
+  species: Uint8Array;
+  members: Uint16Array;
+};
+
+export type Recording = {
+  count: number; // particles per frame
+  meta: RecordingMeta;
+  frames: DustFrame[];
+};
+
+const HEADER_BYTES = 20;
+
+/** Bytes one frame takes in memory and on disk (8-byte aligned). */
+export function frameBytes(count: number) {
+  return align(8 + 4 * 6 * count + 2 * count + 2 * count, 8);
+}
+
+function align(bytes: number, to: number) {
+  return Math.ceil(bytes / to) * to;
+}
+
+export function createRecording(count: number, meta: RecordingMeta): Recording {
+  return { count, meta, frames: [] };
+}
+
+export function recordingCapacity(recording: Recording) {
+  return Math.floor(RECORDING_BUDGET / frameBytes(recording.count));
+}
+
+/**
+ * Copy a published sim snapshot into a new frame. Returns false (and
+ * records nothing) when the particle count changed or the budget is
+ * used up; the caller should stop recording then.
+ */
+export function captureFrame(recording: Recording, snapshot: DustFrame) {
+  if (snapshot.status.length !== recording.count) return false;
+  if (recording.frames.length >= recordingCapacity(recording)) return false;
+  const last = recording.frames[recording.frames.length - 1];
+  if (last && last.time === snapshot.time) return true; // no new snapshot this frame
+
+  recording.frames.push({
+    time: snapshot.time,
+    position: snapshot.position.slice(),
+    velocity: snapshot.velocity.slice(),
+    status: snapshot.status.slice(),
+    species: snapshot.species.slice(),
+    members: snapshot.members.slice()
+  });
+  return true;
+}
+
+export function recordingDuration(recording: Recording) {
+  const { frames } = recording;
+  return frames.length > 1 ? frames[frames.length - 1].time - frames[0].time : 0;
+}
+
+// ─────────────────────────────────────────────────────────────
+// File format
+// ─────────────────────────────────────────────────────────────
+
+/*
+ *   0  magic "ADRC"
+ *   4  u16 version, u16 reserved
+ *   8  u32 particle count
+ *  12  u32 frame count
+ *  16  u32 meta JSON length (bytes)
+ *  20  meta JSON (UTF-8), zero-padded to 8 bytes
+ *      frames: f64 time, f32 position[3n], f32 velocity[3n],
+ *              u16 members[n], u8 status[n], u8 species[n], padded to 8
+ */
+
+export function recordingToBytes(recording: Recording): Uint8Array {
+  const meta = new TextEncoder().encode(JSON.stringify(recording.meta));
+  const n = recording.count;
+  const start = align(HEADER_BYTES + meta.length, 8);
+  const bytes = new Uint8Array(start + recording.frames.length * frameBytes(n));
+  const view = new DataView(bytes.buffer);
+
+  for (let k = 0; k < 4; k++) bytes[k] = RECORDING_MAGIC.charCodeAt(k);
+  view.setUint16(4, RECORDING_VERSION, true);
+  view.setUint32(8, n, true);
+  view.setUint32(12, recording.frames.length, true);
+  view.setUint32(16, meta.length, true);
+  bytes.set(meta, HEADER_BYTES);
+
+  let offset = start;
+  for (const frame of recording.frames) {
+    view.setFloat64(offset, frame.time, true);
+    let at = offset + 8;
+    new Float32Array(bytes.buffer, at, 3 * n).set(frame.position);
+    at += 12 * n;
+    new Float32Array(bytes.buffer, at, 3 * n).set(frame.velocity);
+    at += 12 * n;
+    new Uint16Array(bytes.buffer, at, n).set(frame.members);
+    at += 2 * n;
+    bytes.set(frame.status, at);
+    bytes.set(frame.species, at + n);
+    offset += frameBytes(n);
+  }
+  return bytes;
+}
+
+/** Parse an `.adrec` file; frames are views into `buffer`, not copies. */
+export function recordingFromBytes(buffer: ArrayBuffer): Recording {
+  if (buffer.byteLength < HEADER_BYTES) throw new Error('recording file is truncated');
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== RECORDING_MAGIC) throw new Error('not an Ancillia recording (bad magic)');
+  const version = view.getUint16(4, true);
+  if (version !== RECORDING_VERSION) {
+    throw new Error(`recording version ${version} is not supported (expected ${RECORDING_VERSION})`);
+  }
+  const n = view.getUint32(8, true);
+  const frameCount = view.getUint32(12, true);
+  const metaLength = view.getUint32(16, true);
+  const start = align(HEADER_BYTES + metaLength, 8);
+  if (buffer.byteLength < start + frameCount * frameBytes(n)) {
+    throw new Error(`recording file is truncated (${frameCount} frames announced)`);
+  }
+
+  let meta: RecordingMeta;
+  try {
+    meta = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, metaLength)));
+  } catch {
+    throw new Error('recording header is damaged');
+  }
+
+  const frames: DustFrame[] = [];
+  let offset = start;
+  for (let f = 0; f < frameCount; f++) {
+    frames.push(frameAt(buffer, offset, n));
+    offset += frameBytes(n);
+  }
+  return { count: n, meta, frames };
+}
+
+/** The frame stored at `offset` in the file layout, as views into `buffer`. */
+export function frameAt(buffer: ArrayBufferLike, offset: number, count: number): DustFrame {
+  let at = offset + 8;
+  const position = new Float32Array(buffer, at, 3 * count);
+  at += 12 * count;
+  const velocity = new Float32Array(buffer, at, 3 * count);
+  at += 12 * count;
+  const members = new Uint16Array(buffer, at, count);
+  at += 2 * count;
+  return {
+    time: new DataView(buffer, offset, 8).getFloat64(0, true),
+    position,
+    velocity,
+    members,
+    status: new Uint8Array(buffer, at, count),
+    species: new Uint8Array(buffer, at + count, count)
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Playback
+// ─────────────────────────────────────────────────────────────
+
+export const PLAYBACK_SPEEDS = [0.05, 0.1, 0.25, 0.5, 1, 2, 4];
+
+export type RecordingPlayer = {
+  recording: Recording;
+  time: number;    // s of sim time under the playhead
+  speed: number;   // playback rate (sim s per wall s)
+  reverse: boolean;
+  playing: boolean;
+};
+
+export function createPlayer(recording: Recording): RecordingPlayer {
+  return {
+    recording,
+    time: recording.frames[0]?.time ?? 0,
+    speed: 1,
+    reverse: false,
+    playing: false
+  };
+}
+
+/** Index of the last frame at or before `time`. */
+export function frameIndexAt(recording: Recording, time: number) {
+  const { frames } = recording;
+  let lo = 0;
+  let hi = frames.length - 1;
+  if (hi < 0 || time <= frames[0].time) return 0;
+  if (time >= frames[hi].time) return hi;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].time <= time) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export function playerFrame(player: RecordingPlayer) {
+  return player.recording.frames[frameIndexAt(player.recording, player.time)];
+}
+
+/** Move the playhead by `dt` wall seconds; stops at either end. */
+export function advancePlayer(player: RecordingPlayer, dt: number) {
+  if (!player.playing) return;
+  const { frames } = player.recording;
+  if (frames.length === 0) return;
+  const first = frames[0].time;
+  const last = frames[frames.length - 1].time;
+  player.time += dt * player.speed * (player.reverse ? -1 : 1);
+  if (player.time <= first || player.time >= last) {
+    player.time = Math.min(Math.max(player.time, first), last);
+    player.playing = false;
+  }
+}
+
+/** Jump `delta` frames (negative = back) and pause there. */
+export function stepPlayer(player: RecordingPlayer, delta: number) {
+  const { frames } = player.recording;
+  if (frames.length === 0) return;
+  const index = frameIndexAt(player.recording, player.time) + delta;
+  player.time = frames[Math.min(Math.max(index, 0), frames.length - 1)].time;
+  player.playing = false;
+}
+
+/** Start playing; from the far end if the playhead is parked at the end it runs toward. */
+export function playPlayer(player: RecordingPlayer) {
+  const { frames } = player.recording;
+  if (frames.length < 2) return;
+  const edge = player.reverse ? frames[0].time : frames[frames.length - 1].time;
+  if (player.time === edge) {
+    player.time = player.reverse ? frames[frames.length - 1].time : frames[0].time;
+  }
+  player.playing = true;
+}
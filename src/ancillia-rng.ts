@@ -0,0 +1,37 @@
+// ─────────────────────────────────────────────────────────────
+// Seeded PRNG (mulberry32)
+//
+// Every random draw in the simulation goes through one of these, so
+// a seed plus a config always reproduces the same run.
+// ─────────────────────────────────────────────────────────────
+
+export type Rng = {
+  /** Uniform float in [0, 1). */
+  next(): number;
+  /** Uniform float in [min, max). */
+  range(min: number, max: number): number;
+  /** Internal 32-bit state, for snapshots. */
+  getState(): number;
+  setState(state: number): void;
+};
+
+export function createRng(seed: number): Rng {
+  let s = seed >>> 0;
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + (max - min) * next(),
+    getState: () => s,
+    setState: (state) => {
+      s = state >>> 0;
+    }
+  };
+}
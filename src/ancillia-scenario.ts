@@ -0,0 +1,518 @@
+// ─────────────────────────────────────────────────────────────
+// Scenario files
+//
+// One JSON document describing a whole setup: module geometry, module
+// array, layer stack, electrodes, drive, dust, environment and the
+// viewer's visual mode. Files carry a format version; older versions are migrated step
+// by step to the current one, missing fields are filled from the
+// defaults, and every field is then checked so a bad file is rejected
+// with the path of the offending value (e.g. `drive.frequency`).
+// ─────────────────────────────────────────────────────────────
+
+import { arrayProblem, ModuleArrayConfig } from './ancillia-array';
+import { ATMOSPHERES, AtmosphereConfig } from './ancillia-atmosphere';
+import { DRIVE_PHASE_COUNTS, DRIVE_WAVEFORMS, DriveConfig } from './ancillia-drive';
+import {
+  ELECTRODE_LAYOUTS,
+  ElectrodeLayoutConfig,
+  ElectrodeLayoutId,
+  layoutPhaseCounts
+} from './ancillia-electrodes';
+import {
+  applyEnvironment,
+  EnvironmentId,
+  ENVIRONMENTS,
+  ENVIRONMENT_PRESETS
+} from './ancillia-environment';
+import { DEFAULT_MODULE_GEOMETRY, ModuleGeometry } from './ancillia-geometry';
+import { SIMULANTS } from './ancillia-psd';
+import { MAX_SPECIES } from './ancillia-species';
+import { DEFAULT_DUST_SIM_CONFIG, DustSimConfig, ESCAPE_MARGIN } from './ancillia-sim';
+
+export const SCENARIO_FORMAT = 'ancillia-scenario';
+export const SCENARIO_VERSION = 1;
+
+export type VisualMode = 'concept' | 'blueprint';
+
+export const VISUAL_MODES: VisualMode[] = ['concept', 'blueprint'];
+
+export type Scenario = {
+  format: typeof SCENARIO_FORMAT;
+  version: typeof SCENARIO_VERSION;
+  name: string;
+  module: {
+    hexFlat: number;          // m, flat-to-flat
+    hexPoint: number;         // m, point-to-point
+    trenchInnerScale: number; // of the hex
+    trenchOuterScale: number;
+    cartridgeHeight: number;  // m
+  };
+  array: ModuleArrayConfig; // axial cells of the docked modules
+  stack: {
+    baseThickness: number;      // m
+    substrateThickness: number;
+    panelThickness: number;
+    coverThickness: number;
+    coverOffset: number;        // m, air gap under the cover
+    substratePermittivity: number; // relative
+    coverPermittivity: number;
+  };
+  electrodes: ElectrodeLayoutConfig;
+  drive: DriveConfig;
+  dust: DustSimConfig['dust'] & { particleCount: number };
+  environment: {
+    preset: EnvironmentId; // lighting, ambient field, charging limits
+    gravity: number;       // m/s²
+    atmosphere: AtmosphereConfig;
+  };
+  visual: {
+    mode: VisualMode;
+  };
+};
+
+// ─────────────────────────────────────────────────────────────
+// Config ↔ scenario
+// ─────────────────────────────────────────────────────────────
+
+/** Snapshot of a sim config, module geometry included. */
+export function scenarioFromConfig(
+  config: DustSimConfig,
+  environment: EnvironmentId,
+  mode: VisualMode,
+  name = 'Untitled scenario'
+): Scenario {
+  const { geometry } = config;
+  return {
+    format: SCENARIO_FORMAT,
+    version: SCENARIO_VERSION,
+    name,
+    module: {
+      hexFlat: geometry.hexFlat,
+      hexPoint: geometry.hexPoint,
+      trenchInnerScale: geometry.trenchInnerScale,
+      trenchOuterScale: geometry.trenchOuterScale,
+      cartridgeHeight: geometry.cartridgeHeight
+    },
+    array: config.array,
+    stack: {
+      baseThickness: geometry.baseThickness,
+      substrateThickness: geometry.substrateThickness,
+      panelThickness: geometry.panelThickness,
+      coverThickness: geometry.coverThickness,
+      coverOffset: geometry.coverOffset,
+      substratePermittivity: config.field.solver.substratePermittivity,
+      coverPermittivity: config.field.solver.coverPermittivity
+    },
+    electrodes: config.electrodes,
+    drive: config.drive,
+    dust: { ...config.dust, particleCount: config.particleCount },
+    environment: {
+      preset: environment,
+      gravity: config.gravity,
+      atmosphere: config.atmosphere
+    },
+    visual: { mode }
+  };
+}
+
+export const DEFAULT_SCENARIO: Scenario = scenarioFromConfig(
+  applyEnvironment(DEFAULT_DUST_SIM_CONFIG, ENVIRONMENT_PRESETS.mars),
+  'mars',
+  'blueprint',
+  'Default module (Mars)'
+);
+
+export function scenarioGeometry(scenario: Scenario): ModuleGeometry {
+  const { module, stack } = scenario;
+  return {
+    hexFlat: module.hexFlat,
+    hexPoint: module.hexPoint,
+    baseThickness: stack.baseThickness,
+    substrateThickness: stack.substrateThickness,
+    panelThickness: stack.panelThickness,
+    coverThickness: stack.coverThickness,
+    coverOffset: stack.coverOffset,
+    trenchInnerScale: module.trenchInnerScale,
+    trenchOuterScale: module.trenchOuterScale,
+    cartridgeHeight: module.cartridgeHeight
+  };
+}
+
+/**
+ * Copy of `base` with the scenario's module and physics written in;
+ * sections the format doesn't cover (integrator, adhesion, charging …)
+ * keep `base`.
+ */
+export function configFromScenario(
+  scenario: Scenario,
+  base: DustSimConfig = DEFAULT_DUST_SIM_CONFIG
+): DustSimConfig {
+  const { particleCount, ...dust } = scenario.dust;
+  const config = applyEnvironment(base, ENVIRONMENT_PRESETS[scenario.environment.preset]);
+  return {
+    ...config,
+    particleCount,
+    dust,
+    electrodes: scenario.electrodes,
+    drive: scenario.drive,
+    geometry: scenarioGeometry(scenario),
+    array: scenario.array,
+    gravity: scenario.environment.gravity,
+    atmosphere: scenario.environment.atmosphere,
+    field: {
+      ...config.field,
+      solver: {
+        ...config.field.solver,
+        substratePermittivity: scenario.stack.substratePermittivity,
+        coverPermittivity: scenario.stack.coverPermittivity
+      }
+    },
+    boundsScale: scenario.module.trenchOuterScale * ESCAPE_MARGIN
+  };
+}
+
+export function scenarioToJSON(scenario: Scenario) {
+  return JSON.stringify(scenario, null, 2) + '\n';
+}
+
+// ─────────────────────────────────────────────────────────────
+// Migration
+// ─────────────────────────────────────────────────────────────
+
+/*
+ * Version 0 is the constant block the scene files used to carry
+ * (NUM_DUST, HEX_RADIUS, FIELD_BASE, WAVE_FREQ, GRAV, DRAG), saved as a
+ * flat JSON object with no format tag. Each entry lifts a file by one
+ * version; add one here whenever the format changes.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (legacy) => {
+    let scale = 1;
+    if (legacy.HEX_RADIUS !== undefined) {
+      num({ above: 0 })(legacy.HEX_RADIUS, 'scenario.HEX_RADIUS');
+      scale = (2 * (legacy.HEX_RADIUS as number)) / DEFAULT_MODULE_GEOMETRY.hexPoint;
+    }
+    const dust: Record<string, unknown> = {};
+    const environment: Record<string, unknown> = {};
+    const drive: Record<string, unknown> = {};
+    if (legacy.NUM_DUST !== undefined) dust.particleCount = legacy.NUM_DUST;
+    if (legacy.WAVE_FREQ !== undefined) drive.frequency = legacy.WAVE_FREQ;
+    if (legacy.GRAV !== undefined) environment.gravity = legacy.GRAV;
+    // FIELD_BASE and DRAG have no scenario field: lift comes from the
+    // electrodes + drive, drag from the atmosphere
+    return {
+      format: SCENARIO_FORMAT,
+      version: 1,
+      name: 'Migrated constants',
+      module: {
+        hexFlat: DEFAULT_MODULE_GEOMETRY.hexFlat * scale,
+        hexPoint: DEFAULT_MODULE_GEOMETRY.hexPoint * scale
+      },
+      dust,
+      environment,
+      drive
+    };
+  }
+};
+
+const LEGACY_CONSTANTS = ['NUM_DUST', 'HEX_RADIUS', 'FIELD_BASE', 'WAVE_FREQ', 'GRAV', 'DRAG'];
+
+function scenarioVersion(data: Record<string, unknown>) {
+  const { format, version } = data;
+  if (format === undefined && version === undefined) {
+    const keys = Object.keys(data);
+    if (keys.length > 0 && keys.every((key) => LEGACY_CONSTANTS.includes(key))) return 0;
+  }
+  if (format !== SCENARIO_FORMAT) {
+    fail('scenario.format', `must be "${SCENARIO_FORMAT}"`, format);
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    fail('scenario.version', 'must be a positive integer', version);
+  }
+  if (version > SCENARIO_VERSION) {
+    fail('scenario.version', `is newer than this viewer reads (up to ${SCENARIO_VERSION})`, version);
+  }
+  return version;
+}
+
+/** Lift a parsed file of any known version to the current one (no validation). */
+export function migrateScenario(data: unknown): Record<string, unknown> {
+  if (!isPlainObject(data)) throw new Error('scenario must be a JSON object');
+  let migrated = data;
+  for (let version = scenarioVersion(data); version < SCENARIO_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────
+
+// A check throws with the dotted path of the bad value
+type Check = (value: unknown, path: string) => void;
+
+function fail(path: string, message: string, value?: unknown): never {
+  const got = value === undefined ? '' : `, got ${JSON.stringify(value)}`;
+  throw new Error(`${path} ${message}${got}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function num(
+  options: { min?: number; above?: number; max?: number; integer?: boolean } = {}
+): Check {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(path, 'must be a number', value);
+    }
+    if (options.integer && !Number.isInteger(value)) fail(path, 'must be an integer', value);
+    if (options.min !== undefined && value < options.min) {
+      fail(path, `must be ≥ ${options.min}`, value);
+    }
+    if (options.above !== undefined && value <= options.above) {
+      fail(path, `must be > ${options.above}`, value);
+    }
+    if (options.max !== undefined && value > options.max) {
+      fail(path, `must be ≤ ${options.max}`, value);
+    }
+  };
+}
+
+function oneOf(values: readonly unknown[]): Check {
+  return (value, path) => {
+    if (!values.includes(value)) {
+      fail(path, `must be one of ${values.map((v) => JSON.stringify(v)).join(', ')}`, value);
+    }
+  };
+}
+
+const text: Check = (value, path) => {
+  if (typeof value !== 'string') fail(path, 'must be a string', value);
+};
+
+const flag: Check = (value, path) => {
+  if (typeof value !== 'boolean') fail(path, 'must be true or false', value);
+};
+
+function list(item: Check, minLength = 0, maxLength = Infinity): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) fail(path, 'must be a list', value);
+    if (value.length < minLength) fail(path, `needs at least ${minLength} entries`);
+    if (value.length > maxLength) fail(path, `can have at most ${maxLength} entries`, value.length);
+    value.forEach((entry, k) => item(entry, `${path}[${k}]`));
+  };
+}
+
+/** Exactly these fields, each present and valid. */
+function record(fields: Record<string, Check>): Check {
+  return (value, path) => {
+    if (!isPlainObject(value)) fail(path, 'must be an object', value);
+    for (const key of Object.keys(value)) {
+      if (!(key in fields)) fail(`${path}.${key}`, 'is not a known field');
+    }
+    for (const [key, check] of Object.entries(fields)) {
+      if (value[key] === undefined) fail(`${path}.${key}`, 'is missing');
+      check(value[key], `${path}.${key}`);
+    }
+  };
+}
+
+/** Union told apart by its `kind` field. */
+function byKind(variants: Record<string, Record<string, Check>>): Check {
+  const kinds = Object.keys(variants);
+  return (value, path) => {
+    if (!isPlainObject(value)) fail(path, 'must be an object', value);
+    oneOf(kinds)(value.kind, `${path}.kind`);
+    record({ kind: text, ...variants[value.kind as string] })(value, path);
+  };
+}
+
+const cumulativeTable: Check = (value, path) => {
+  record({ values: list(num(), 2), cumulative: list(num({ min: 0, max: 1 }), 2) })(value, path);
+  const { values, cumulative } = value as { values: number[]; cumulative: number[] };
+  if (cumulative.length !== values.length) {
+    fail(`${path}.cumulative`, `must have one entry per value (${values.length})`);
+  }
+  for (let k = 1; k < values.length; k++) {
+    if (values[k] <= values[k - 1]) fail(`${path}.values[${k}]`, 'must be ascending', values[k]);
+    if (cumulative[k] < cumulative[k - 1]) {
+      fail(`${path}.cumulative[${k}]`, 'must not decrease', cumulative[k]);
+    }
+  }
+};
+
+const chargeDistribution = byKind({
+  uniform: {},
+  normal: { mean: num(), sd: num({ min: 0 }) },
+  table: { table: cumulativeTable }
+});
+
+// Past these a file would stall the page building the particle pool or
+// the lane meshes, so it is turned away with the limit instead
+const MAX_PARTICLES = 200000;
+const MAX_ELECTRODES = 256;
+
+const DRIVE_SCHEMA = record({
+  phases: oneOf(DRIVE_PHASE_COUNTS),
+  waveform: oneOf(DRIVE_WAVEFORMS),
+  amplitudeKV: num({ min: 0 }),
+  offsetKV: num(),
+  frequency: num({ above: 0 }),
+  dutyCycle: num({ above: 0, max: 1 }),
+  direction: oneOf(['forward', 'reverse']),
+  customSamples: list(num({ min: -1, max: 1 }), 2),
+  burst: record({
+    enabled: flag,
+    onCycles: num({ min: 0, integer: true }),
+    offCycles: num({ min: 0, integer: true })
+  })
+});
+
+const SCENARIO_SCHEMA = record({
+  format: oneOf([SCENARIO_FORMAT]),
+  version: oneOf([SCENARIO_VERSION]),
+  name: text,
+  module: record({
+    hexFlat: num({ above: 0 }),
+    hexPoint: num({ above: 0 }),
+    trenchInnerScale: num({ min: 1 }),
+    trenchOuterScale: num({ min: 1 }),
+    cartridgeHeight: num({ above: 0 })
+  }),
+  array: record({
+    cells: list(list(num({ integer: true }), 2), 1)
+  }),
+  stack: record({
+    baseThickness: num({ above: 0 }),
+    substrateThickness: num({ above: 0 }),
+    panelThickness: num({ above: 0 }),
+    coverThickness: num({ above: 0 }),
+    coverOffset: num({ min: 0 }),
+    substratePermittivity: num({ min: 1 }),
+    coverPermittivity: num({ min: 1 })
+  }),
+  electrodes: record({
+    layout: oneOf(ELECTRODE_LAYOUTS),
+    count: num({ min: 1, max: MAX_ELECTRODES, integer: true }),
+    width: num({ above: 0 })
+  }),
+  drive: DRIVE_SCHEMA,
+  dust: record({
+    particleCount: num({ min: 1, max: MAX_PARTICLES, integer: true }),
+    radiusMin: num({ above: 0 }),
+    radiusMax: num({ above: 0 }),
+    radiusExponent: num({ above: 0 }),
+    density: num({ above: 0 }),
+    chargeMin: num(),
+    chargeMax: num(),
+    simulant: oneOf([...SIMULANTS, 'custom']),
+    size: byKind({
+      power: {},
+      table: { basis: oneOf(['volume', 'number']), table: cumulativeTable }
+    }),
+    charge: chargeDistribution,
+    species: list(
+      record({
+        id: text,
+        label: text,
+        massFraction: num({ min: 0 }),
+        density: num({ above: 0 }),
+        charge: chargeDistribution,
+        workFunction: num({ above: 0 }),
+        hamaker: num({ min: 0 }),
+        perArea: num({ min: 0 }),
+        color: num({ min: 0, max: 0xffffff, integer: true })
+      }),
+      0,
+      MAX_SPECIES
+    )
+  }),
+  environment: record({
+    preset: oneOf(ENVIRONMENTS),
+    gravity: num({ min: 0 }),
+    atmosphere: record({
+      id: oneOf([...ATMOSPHERES, 'custom']),
+      pressure: num({ min: 0 }),
+      temperature: num({ above: 0 }),
+      viscosity: num({ min: 0 }),
+      molarMass: num({ above: 0 }),
+      accommodation: num({ above: 0 })
+    })
+  }),
+  visual: record({
+    mode: oneOf(VISUAL_MODES)
+  })
+});
+
+function checkWiredPhases(drive: DriveConfig, layout: ElectrodeLayoutId, path: string) {
+  const wired = layoutPhaseCounts(layout);
+  if (!wired.includes(drive.phases)) {
+    fail(`${path}.phases`, `must be ${wired.join(' or ')} for ${layout} electrodes`, drive.phases);
+  }
+}
+
+/**
+ * Check drive settings from outside a scenario (optimizer results) by
+ * the same rules, for a panel with `layout` electrodes.
+ */
+export function validateDrive(
+  data: unknown,
+  layout: ElectrodeLayoutId,
+  path = 'drive'
+): asserts data is DriveConfig {
+  DRIVE_SCHEMA(data, path);
+  checkWiredPhases(data as DriveConfig, layout, path);
+}
+
+/** Check a current-version scenario; throws naming the first bad field. */
+export function validateScenario(data: unknown): asserts data is Scenario {
+  SCENARIO_SCHEMA(data, 'scenario');
+  const scenario = data as Scenario;
+  if (scenario.module.hexFlat >= scenario.module.hexPoint) {
+    fail('scenario.module.hexFlat', 'must be smaller than module.hexPoint', scenario.module.hexFlat);
+  }
+  if (scenario.module.trenchOuterScale <= scenario.module.trenchInnerScale) {
+    fail(
+      'scenario.module.trenchOuterScale',
+      'must be larger than module.trenchInnerScale',
+      scenario.module.trenchOuterScale
+    );
+  }
+  checkWiredPhases(scenario.drive, scenario.electrodes.layout, 'scenario.drive');
+  scenario.array.cells.forEach((cell, k) => {
+    if (cell.length !== 2) fail(`scenario.array.cells[${k}]`, 'must be a [q, r] pair', cell);
+  });
+  const problem = arrayProblem(scenario.array.cells);
+  if (problem) fail('scenario.array.cells', problem);
+  if (scenario.dust.radiusMax < scenario.dust.radiusMin) {
+    fail('scenario.dust.radiusMax', 'must be ≥ dust.radiusMin', scenario.dust.radiusMax);
+  }
+  if (scenario.dust.chargeMax < scenario.dust.chargeMin) {
+    fail('scenario.dust.chargeMax', 'must be ≥ dust.chargeMin', scenario.dust.chargeMax);
+  }
+  scenario.dust.species.forEach((species, k) => {
+    if (scenario.dust.species.findIndex((other) => other.id === species.id) < k) {
+      fail(`scenario.dust.species[${k}].id`, 'must be unique', species.id);
+    }
+  });
+}
+
+// Fields a file leaves out come from the defaults; lists and tagged
+// unions (distributions) are taken whole, never mixed with the default
+function withDefaults(value: unknown, defaults: unknown): unknown {
+  if (value === undefined) return defaults;
+  if (!isPlainObject(value) || !isPlainObject(defaults) || 'kind' in value) return value;
+  const merged: Record<string, unknown> = { ...value };
+  for (const key of Object.keys(defaults)) merged[key] = withDefaults(value[key], defaults[key]);
+  return merged;
+}
+
+/** Migrate, fill in defaults and validate a parsed scenario file. */
+export function parseScenario(data: unknown): Scenario {
+  const merged = withDefaults(migrateScenario(data), DEFAULT_SCENARIO);
+  validateScenario(merged);
+  return merged;
+}
@@ -6,59 +6,137 @@ import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment
 import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
 import { EdgesGeometry, LineBasicMaterial, LineSegments } from 'three';
 import { enhanceAncilliaDevice } from './ancillia-enhancements';
+import { ArrayCell, ModuleArray } from './ancillia-array';
+import { createArrayEditor, drawArrayEditor } from './ancillia-array-editor';
+import {
+  DEFAULT_MODULE_GEOMETRY,
+  hexApothem,
+  hexRadius,
+  ModuleGeometry,
+  panelSurfaceY
+} from './ancillia-geometry';
+import {
+  describeDrive,
+  DRIVE_WAVEFORMS
+} from './ancillia-drive';
+import {
+  DEFAULT_ELECTRODE_COUNTS,
+  ELECTRODE_LAYOUTS,
+  ElectrodeLayout,
+  layoutPhaseCounts
+} from './ancillia-electrodes';
+import { ADHESION_MODELS } from './ancillia-adhesion';
+import {
+  applyEnvironment,
+  EnvironmentConfig,
+  ENVIRONMENT_PRESETS,
+  ENVIRONMENTS,
+  LightingStyle
+} from './ancillia-environment';
+import { ATMOSPHERE_PRESETS, ATMOSPHERES } from './ancillia-atmosphere';
+import {
+  createChargeWaterfall,
+  updateChargeWaterfall
+} from './ancillia-charge-histogram';
+import { COVER_MATERIALS } from './ancillia-charging';
+import { createCoverageView, updateCoverageView } from './ancillia-coverage-view';
+import { isStormActive } from './ancillia-deposition';
+import { metricsToCSV, metricsToJSON, RunMetrics } from './ancillia-metrics';
+import {
+  applySimulant,
+  parseDistributionCSV,
+  SIMULANT_PRESETS,
+  SIMULANTS
+} from './ancillia-psd';
+import { DustSpecies, MARS_DUST_MIX } from './ancillia-species';
+import { driveFromOptimization } from './ancillia-optimizer';
+import {
+  advancePlayer,
+  captureFrame,
+  createPlayer,
+  createRecording,
+  DustFrame,
+  playerFrame,
+  Recording,
+  RECORDING_EXTENSION,
+  recordingFromBytes,
+  recordingToBytes,
+  RecordingPlayer,
+  stepPlayer
+} from './ancillia-recording';
+import {
+  createTimeline,
+  showTimeline,
+  togglePlayback,
+  updateTimeline
+} from './ancillia-timeline';
+import {
+  applySimToggles,
+  decodePermalink,
+  encodePermalink,
+  OverlayId,
+  OVERLAYS,
+  simToggles,
+  ViewState
+} from './ancillia-permalink';
+import {
+  configFromScenario,
+  parseScenario,
+  Scenario,
+  scenarioFromConfig,
+  scenarioToJSON,
+  VisualMode
+} from './ancillia-scenario';
+import {
+  DEFAULT_INTEGRATOR_CONFIG,
+  INTEGRATOR_SCHEMES
+} from './ancillia-integrator';
+import {
+  configureArray,
+  configureElectrodes,
+  countAgglomerates,
+  createDustSimulation,
+  DEFAULT_DUST_SIM_CONFIG,
+  DustSimulation,
+  DustStatus,
+  dustStability,
+  residualDustFraction,
+  resetDustSimulation
+} from './ancillia-sim';
+import {
+  applySimReport,
+  createSimHost,
+  resetSimHost,
+  sendSimCommand,
+  simHostFrame,
+  simHostRuns
+} from './ancillia-sim-host';
+import {
+  createFieldOverlays,
+  FieldOverlayId,
+  fieldOverlayObject,
+  setSliceHeight,
+  SLICE_QUANTITIES,
+  updateFieldOverlays
+} from './ancillia-field-overlays';
+import { createInspector, releaseGrain, selectGrain, updateInspector } from './ancillia-inspector';
+import {
+  createDustColors,
+  describeDustColoring,
+  DUST_COLORINGS,
+  fillDustColors,
+  setDustColoring,
+  updateDustColors
+} from './ancillia-dust-coloring';
 
 // ─────────────────────────────────────────────────────────────
-// Geometric + stack constants (hex module)
+// Dust rendering constants
 // ─────────────────────────────────────────────────────────────
 
-const HEX_FLAT = 0.38;            // flat-to-flat (m)
-const HEX_POINT = 0.44;           // point-to-point (m)
-const HEX_APOTHEM = HEX_FLAT / 2; // center → flat
-const HEX_RADIUS = HEX_POINT / 2; // center → vertex
-
-const BASE_THICKNESS = 0.0042;       // chassis slab
-const SUBSTRATE_THICKNESS = 0.0016;  // glass dielectric
-const PANEL_THICKNESS = 0.0025;      // encapsulated electrodes
-const COVER_THICKNESS = 0.0014;      // protective glass
-const COVER_OFFSET = 0.0009;         // visible air gap
-
-const TRENCH_INNER_SCALE = 1.02;
-const TRENCH_OUTER_SCALE = 1.12;
-const CARTRIDGE_HEIGHT = 0.0115;
-
-const PANEL_SURFACE_Y =
-  BASE_THICKNESS +
-  SUBSTRATE_THICKNESS +
-  PANEL_THICKNESS; // nominal electrode surface
-
-// Radial traveling-wave electrode pattern
-const ELECTRODE_SEGMENTS = 12;
-
-// ─────────────────────────────────────────────────────────────
-// Dust physics + field constants
-// ─────────────────────────────────────────────────────────────
-
-const NUM_DUST_PARTICLES = 260;
-const DUST_RADIUS_MIN = 8e-6;
-const DUST_RADIUS_MAX = 38e-6;
-const DUST_DENSITY = 3100; // kg/m^3 (basaltic simulant)
-const DUST_CHARGE_MIN = 2e-15;
-const DUST_CHARGE_MAX = 9e-14;
-const ADHESION_PER_AREA = 50; // N/m^2
-const MARTIAN_GRAVITY = 3.71; // m/s^2
-
-const FIELD_BASE = 1.2e5;    // V/m vertical lift
-const FIELD_TRAVEL = 6.5e4;  // V/m traveling component
-const FIELD_LATERAL = 3.1e4; // V/m tangential push
-const WAVE_FREQUENCY = 42;   // Hz (visual scale)
-const PHASE_SHIFT = (2 * Math.PI) / 3;
-const DRAG_COEFF = 0.45;
-
-const DIRECTIONAL_DRIFT = new THREE.Vector3(0.15, 0, -0.08);
-
-// Bounds for respawn / collection
-const BOUNDS_SCALE = TRENCH_OUTER_SCALE * 1.08;
-const MAX_DUST_HEIGHT = 2.5;
+// visual radius ~0.003 m for readability, even though physical radius is µm-scale
+const DUST_VISUAL_RADIUS = 0.003;
+const DUST_SEED = 1;
+const DUST_COUNTS = [DEFAULT_DUST_SIM_CONFIG.particleCount, 2000, 20000, 100000]; // Z cycles
 
 // ─────────────────────────────────────────────────────────────
 // Types
@@ -109,7 +187,7 @@ type ModePresets = {
 // Visual modes: concept vs blueprint
 // ─────────────────────────────────────────────────────────────
 
-const MODE_PRESETS: Record<'concept' | 'blueprint', ModePresets> = {
+const MODE_PRESETS: Record<VisualMode, ModePresets> = {
   blueprint: {
     cover: {
       color: 0xd4e3ff,
@@ -270,7 +348,7 @@ function applyPreset(
 }
 
 function applyMode(
-  mode: 'concept' | 'blueprint',
+  mode: VisualMode,
   materials: ModuleMaterials,
   statusEl?: HTMLElement | null
 ) {
@@ -294,6 +372,98 @@ function applyMode(
   }
 }
 
+// ─────────────────────────────────────────────────────────────
+// Environment lighting
+// ─────────────────────────────────────────────────────────────
+
+type LightRig = {
+  ambient: THREE.AmbientLight;
+  hemi: THREE.HemisphereLight;
+  key: THREE.DirectionalLight;
+  rim: THREE.DirectionalLight;
+  graze: THREE.DirectionalLight;
+  accent: THREE.SpotLight;
+};
+
+type LightSetting = { color: number; intensity: number };
+
+type LightingPreset = {
+  background: number;
+  exposure: number;
+  ambient: LightSetting;
+  hemi: { sky: number; ground: number; intensity: number };
+  key: LightSetting;
+  rim: LightSetting;
+  graze: LightSetting;
+  accent: LightSetting;
+};
+
+const LIGHTING_PRESETS: Record<LightingStyle, LightingPreset> = {
+  // warm, dusty sky
+  mars: {
+    background: 0x050306,
+    exposure: 1.35,
+    ambient: { color: 0x060711, intensity: 0.48 },
+    hemi: { sky: 0xfff0cf, ground: 0x3a1405, intensity: 0.55 },
+    key: { color: 0xffdfb0, intensity: 1.19 },
+    rim: { color: 0xffdfb0, intensity: 0.57 },
+    graze: { color: 0xffdfb0, intensity: 0.49 },
+    accent: { color: 0xffe2b8, intensity: 0.6 }
+  },
+  // hard sun, black sky, almost no fill
+  lunar: {
+    background: 0x000000,
+    exposure: 1.2,
+    ambient: { color: 0x000000, intensity: 0 },
+    hemi: { sky: 0xd8dce6, ground: 0x202020, intensity: 0.12 },
+    key: { color: 0xfffaf0, intensity: 2.1 },
+    rim: { color: 0x6a7080, intensity: 0.15 },
+    graze: { color: 0xffffff, intensity: 0.3 },
+    accent: { color: 0xffffff, intensity: 0.2 }
+  },
+  // neutral studio rig
+  lab: {
+    background: 0x02040a,
+    exposure: 1.35,
+    ambient: { color: 0x060711, intensity: 0.48 },
+    hemi: { sky: 0xbfcfff, ground: 0x05070c, intensity: 0.4 },
+    key: { color: 0xffffff, intensity: 1.25 },
+    rim: { color: 0x90a8ff, intensity: 0.6 },
+    graze: { color: 0xbecfff, intensity: 0.52 },
+    accent: { color: 0xffe1be, intensity: 0.6 }
+  },
+  // cold shroud + viewport lamps
+  chamber: {
+    background: 0x03060a,
+    exposure: 1.25,
+    ambient: { color: 0x0a1220, intensity: 0.6 },
+    hemi: { sky: 0x9fc3ff, ground: 0x0a0d14, intensity: 0.35 },
+    key: { color: 0xdfe8ff, intensity: 0.9 },
+    rim: { color: 0x4aa0ff, intensity: 0.8 },
+    graze: { color: 0xbfe0ff, intensity: 0.5 },
+    accent: { color: 0xa8d0ff, intensity: 0.7 }
+  }
+};
+
+function applyLighting(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  rig: LightRig,
+  style: LightingStyle
+) {
+  const preset = LIGHTING_PRESETS[style];
+  scene.background = new THREE.Color(preset.background);
+  renderer.toneMappingExposure = preset.exposure;
+
+  rig.hemi.color.set(preset.hemi.sky);
+  rig.hemi.groundColor.set(preset.hemi.ground);
+  rig.hemi.intensity = preset.hemi.intensity;
+  for (const name of ['ambient', 'key', 'rim', 'graze', 'accent'] as const) {
+    rig[name].color.set(preset[name].color);
+    rig[name].intensity = preset[name].intensity;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────
 // Small procedural textures (no assets)
 // ─────────────────────────────────────────────────────────────
@@ -380,18 +550,18 @@ function makeBrushedMetalTexture(direction: 'x' | 'y' = 'x') {
 // Hex geometry helpers
 // ─────────────────────────────────────────────────────────────
 
-function hexVertices(scale = 1): THREE.Vector2[] {
+function hexVertices(radius: number, scale = 1): THREE.Vector2[] {
   const verts: THREE.Vector2[] = [];
   for (let i = 0; i < 6; i++) {
     const angle = Math.PI / 6 + (Math.PI / 3) * i; // flat-top
-    const r = HEX_RADIUS * scale;
+    const r = radius * scale;
     verts.push(new THREE.Vector2(r * Math.cos(angle), r * Math.sin(angle)));
   }
   return verts;
 }
 
-function hexShape(scale = 1) {
-  const verts = hexVertices(scale);
+function hexShape(radius: number, scale = 1) {
+  const verts = hexVertices(radius, scale);
   const shape = new THREE.Shape();
   verts.forEach((v, i) => {
     if (i === 0) shape.moveTo(v.x, v.y);
@@ -401,8 +571,8 @@ function hexShape(scale = 1) {
   return shape;
 }
 
-function makeHexExtrude(thickness: number, scale = 1, bevel = false) {
-  return new THREE.ExtrudeGeometry(hexShape(scale), {
+function makeHexExtrude(radius: number, thickness: number, scale = 1, bevel = false) {
+  return new THREE.ExtrudeGeometry(hexShape(radius, scale), {
     depth: thickness,
     bevelEnabled: bevel,
     bevelSegments: bevel ? 2 : 0,
@@ -411,30 +581,6 @@ function makeHexExtrude(thickness: number, scale = 1, bevel = false) {
   });
 }
 
-function isInsideHex(point: THREE.Vector3, scale = 1) {
-  const verts = hexVertices(scale);
-  let sign = 0;
-  for (let i = 0; i < verts.length; i++) {
-    const a = verts[i];
-    const b = verts[(i + 1) % verts.length];
-    const cross =
-      (b.x - a.x) * (point.z - a.y) - (b.y - a.y) * (point.x - a.x);
-    if (cross === 0) continue;
-    if (sign === 0) sign = Math.sign(cross);
-    else if (Math.sign(cross) !== sign) return false;
-  }
-  return true;
-}
-
-function samplePointInHex(scale = 0.9) {
-  while (true) {
-    const x = (Math.random() * 2 - 1) * HEX_RADIUS * scale;
-    const z = (Math.random() * 2 - 1) * HEX_RADIUS * scale;
-    const p = new THREE.Vector3(x, 0, z);
-    if (isInsideHex(p, scale)) return p;
-  }
-}
-
 // ─────────────────────────────────────────────────────────────
 // Simple iridescent Fresnel tweak for electrode lanes
 // ─────────────────────────────────────────────────────────────
@@ -482,27 +628,33 @@ function addIridescentFresnel(material: THREE.MeshStandardMaterial) {
 }
 
 // ─────────────────────────────────────────────────────────────
-// Radial electrode lanes
+// Electrode lanes (geometry comes from the simulation's layout)
 // ─────────────────────────────────────────────────────────────
 
-function createRadialElectrodeLanes(
+// just under the top of the electrode support panel
+function laneY(geometry: ModuleGeometry) {
+  return panelSurfaceY(geometry) + 0.0002 - geometry.panelThickness * 0.35;
+}
+
+function createElectrodeLanes(
   material: THREE.MeshStandardMaterial,
-  yPosition: number
+  yPosition: number,
+  layout: ElectrodeLayout,
+  geometry: ModuleGeometry
 ) {
   const group = new THREE.Group();
-  const radialLength = HEX_APOTHEM * 1.42;
+  group.name = 'electrode-lanes';
 
-  for (let i = 0; i < ELECTRODE_SEGMENTS; i++) {
+  for (const laneDef of layout.lanes) {
     const laneGeom = new THREE.BoxGeometry(
-      radialLength,
-      PANEL_THICKNESS * 0.3,
-      0.008
+      laneDef.length,
+      geometry.panelThickness * 0.3,
+      laneDef.width
     );
     const lane = new THREE.Mesh(laneGeom, material);
-    const angle = (i / ELECTRODE_SEGMENTS) * Math.PI * 2;
 
-    lane.rotation.y = angle + Math.PI / 2;
-    lane.position.y = yPosition;
+    lane.rotation.y = laneDef.angle;
+    lane.position.set(laneDef.cx, yPosition, laneDef.cz);
     lane.castShadow = true;
     lane.receiveShadow = true;
 
@@ -522,33 +674,70 @@ function createRadialElectrodeLanes(
   }
 
   // Concentric ring near the center (collector / bus)
-  const ringGeom = new THREE.RingGeometry(
-    HEX_APOTHEM * 0.2,
-    HEX_APOTHEM * 0.45,
-    64,
-    1
-  );
-  const ring = new THREE.Mesh(ringGeom, material);
-  ring.rotation.x = -Math.PI / 2;
-  ring.position.y = yPosition + PANEL_THICKNESS * 0.12;
-  ring.castShadow = true;
-  ring.receiveShadow = true;
-  group.add(ring);
+  if (layout.busRing) {
+    const ringGeom = new THREE.RingGeometry(
+      layout.busRing.inner,
+      layout.busRing.outer,
+      64,
+      1
+    );
+    const ring = new THREE.Mesh(ringGeom, material);
+    ring.rotation.x = -Math.PI / 2;
+    ring.position.y = yPosition + geometry.panelThickness * 0.12;
+    ring.castShadow = true;
+    ring.receiveShadow = true;
+    group.add(ring);
+  }
 
   return group;
 }
 
+// Swap the lane meshes in place, keeping whatever material they wear now
+// (the enhancement pass may have replaced the original one)
+function replaceElectrodeLanes(
+  module: THREE.Group,
+  lanes: THREE.Group,
+  layout: ElectrodeLayout,
+  geometry: ModuleGeometry
+) {
+  const firstMesh = lanes.children.find((child: any) => child.isMesh);
+  const next = createElectrodeLanes(firstMesh.material, laneY(geometry), layout, geometry);
+  module.remove(lanes);
+  lanes.traverse((child: any) => {
+    if (child.geometry) child.geometry.dispose();
+  });
+  module.add(next);
+  return next;
+}
+
 // ─────────────────────────────────────────────────────────────
 // Module construction (geometry + materials)
 // ─────────────────────────────────────────────────────────────
 
-function createModule(scene: THREE.Scene): {
+function createModule(
+  scene: THREE.Scene,
+  layout: ElectrodeLayout,
+  geometry: ModuleGeometry
+): {
   group: THREE.Group;
   materials: ModuleMaterials;
+  lanes: THREE.Group;
 } {
   const group = new THREE.Group();
-
-  const bumpTexture = makeStripedBumpTexture(ELECTRODE_SEGMENTS * 2);
+  const {
+    baseThickness,
+    cartridgeHeight,
+    coverOffset,
+    coverThickness,
+    panelThickness,
+    substrateThickness,
+    trenchInnerScale,
+    trenchOuterScale
+  } = geometry;
+  const radius = hexRadius(geometry);
+  const apothem = hexApothem(geometry);
+
+  const bumpTexture = makeStripedBumpTexture(DEFAULT_ELECTRODE_COUNTS.radial * 2);
   const roughTexture = makeNoiseTexture();
   const brushedTex = makeBrushedMetalTexture('x');
 
@@ -560,10 +749,10 @@ function createModule(scene: THREE.Scene): {
     roughnessMap: brushedTex
   });
 
-  const baseGeom = makeHexExtrude(BASE_THICKNESS, 1.08, true);
+  const baseGeom = makeHexExtrude(radius, baseThickness, 1.08, true);
   baseGeom.rotateX(Math.PI / 2);
   const chassis = new THREE.Mesh(baseGeom, chassisMat);
-  chassis.position.y = BASE_THICKNESS / 2;
+  chassis.position.y = baseThickness / 2;
   chassis.castShadow = true;
   chassis.receiveShadow = true;
   group.add(chassis);
@@ -587,20 +776,20 @@ function createModule(scene: THREE.Scene): {
     roughnessMap: brushedTex
   });
 
-  const frameGeom = makeHexExtrude(0.0032, 1.05, true);
+  const frameGeom = makeHexExtrude(radius, 0.0032, 1.05, true);
   frameGeom.rotateX(Math.PI / 2);
   const frame = new THREE.Mesh(frameGeom, frameMat);
-  frame.position.y = BASE_THICKNESS + 0.0017;
+  frame.position.y = baseThickness + 0.0017;
   frame.castShadow = true;
   frame.receiveShadow = true;
   group.add(frame);
 
   // Collector trench (machined recess)
-  const trenchShape = hexShape(TRENCH_OUTER_SCALE);
-  const inner = hexShape(TRENCH_INNER_SCALE * 0.997);
+  const trenchShape = hexShape(radius, trenchOuterScale);
+  const inner = hexShape(radius, trenchInnerScale * 0.997);
   trenchShape.holes.push(inner);
   const trenchGeom = new THREE.ExtrudeGeometry(trenchShape, {
-    depth: CARTRIDGE_HEIGHT,
+    depth: cartridgeHeight,
     bevelEnabled: false
   });
   trenchGeom.rotateX(Math.PI / 2);
@@ -611,7 +800,7 @@ function createModule(scene: THREE.Scene): {
     roughnessMap: roughTexture
   });
   const trench = new THREE.Mesh(trenchGeom, trenchMat);
-  trench.position.y = BASE_THICKNESS + 0.0006;
+  trench.position.y = baseThickness + 0.0006;
   trench.receiveShadow = true;
   group.add(trench);
 
@@ -623,12 +812,13 @@ function createModule(scene: THREE.Scene): {
     roughnessMap: roughTexture
   });
   const cartridgeGeom = makeHexExtrude(
-    CARTRIDGE_HEIGHT * 0.9,
-    TRENCH_OUTER_SCALE * 0.985
+    radius,
+    cartridgeHeight * 0.9,
+    trenchOuterScale * 0.985
   );
   cartridgeGeom.rotateX(Math.PI / 2);
   const cartridge = new THREE.Mesh(cartridgeGeom, cartridgeMat);
-  cartridge.position.y = BASE_THICKNESS + CARTRIDGE_HEIGHT / 2;
+  cartridge.position.y = baseThickness + cartridgeHeight / 2;
   cartridge.receiveShadow = true;
   group.add(cartridge);
 
@@ -655,16 +845,16 @@ function createModule(scene: THREE.Scene): {
     clearcoatRoughness: 0.26,
     ior: 1.48,
     envMapIntensity: 1.3,
-    thickness: SUBSTRATE_THICKNESS,
+    thickness: substrateThickness,
     attenuationColor: new THREE.Color(0x7ea5ff),
     attenuationDistance: 0.3
   });
 
-  const substrateGeom = makeHexExtrude(SUBSTRATE_THICKNESS, 0.96);
+  const substrateGeom = makeHexExtrude(radius, substrateThickness, 0.96);
   substrateGeom.rotateX(Math.PI / 2);
   const substrate = new THREE.Mesh(substrateGeom, substrateMaterial);
   substrate.position.y =
-    BASE_THICKNESS + SUBSTRATE_THICKNESS / 2 + 0.00025;
+    baseThickness + substrateThickness / 2 + 0.00025;
   substrate.castShadow = true;
   substrate.receiveShadow = true;
   group.add(substrate);
@@ -690,13 +880,13 @@ function createModule(scene: THREE.Scene): {
     roughnessMap: roughTexture
   });
 
-  const panelGeom = makeHexExtrude(PANEL_THICKNESS, 0.94);
+  const panelGeom = makeHexExtrude(radius, panelThickness, 0.94);
   panelGeom.rotateX(Math.PI / 2);
   const panel = new THREE.Mesh(panelGeom, panelMaterial);
   panel.position.y =
-    BASE_THICKNESS +
-    SUBSTRATE_THICKNESS +
-    PANEL_THICKNESS / 2 +
+    baseThickness +
+    substrateThickness +
+    panelThickness / 2 +
     0.0002;
   panel.castShadow = true;
   panel.receiveShadow = true;
@@ -714,10 +904,7 @@ function createModule(scene: THREE.Scene): {
   });
   addIridescentFresnel(laneMaterial);
 
-  const lanes = createRadialElectrodeLanes(
-    laneMaterial,
-    panel.position.y + PANEL_THICKNESS / 2 - PANEL_THICKNESS * 0.35
-  );
+  const lanes = createElectrodeLanes(laneMaterial, laneY(geometry), layout, geometry);
   group.add(lanes);
 
   // Transparent cover plate (outer glass)
@@ -731,20 +918,20 @@ function createModule(scene: THREE.Scene): {
     clearcoat: 1.0,
     clearcoatRoughness: 0.03,
     ior: 1.52,
-    thickness: COVER_THICKNESS,
+    thickness: coverThickness,
     attenuationColor: new THREE.Color(0xc0d8ff),
     attenuationDistance: 0.25,
     envMapIntensity: 2.1
   });
 
-  const coverGeom = makeHexExtrude(COVER_THICKNESS, 0.962, true);
+  const coverGeom = makeHexExtrude(radius, coverThickness, 0.962, true);
   coverGeom.rotateX(Math.PI / 2);
   const cover = new THREE.Mesh(coverGeom, coverMaterial);
   cover.position.y =
     panel.position.y +
-    PANEL_THICKNESS * 0.55 +
-    COVER_THICKNESS * 0.7 +
-    COVER_OFFSET;
+    panelThickness * 0.55 +
+    coverThickness * 0.7 +
+    coverOffset;
   cover.castShadow = true;
   cover.receiveShadow = true;
   group.add(cover);
@@ -761,7 +948,7 @@ function createModule(scene: THREE.Scene): {
   group.add(coverEdges);
 
   // Thin metallic bezel hugging the glass edge
-  const coverBezelGeom = makeHexExtrude(0.0018, 0.99);
+  const coverBezelGeom = makeHexExtrude(radius, 0.0018, 0.99);
   coverBezelGeom.rotateX(Math.PI / 2);
   const coverBezelMat = new THREE.MeshStandardMaterial({
     color: 0xcdd4e2,
@@ -771,7 +958,7 @@ function createModule(scene: THREE.Scene): {
     envMapIntensity: 1.4
   });
   const coverBezel = new THREE.Mesh(coverBezelGeom, coverBezelMat);
-  coverBezel.position.y = cover.position.y + COVER_THICKNESS / 2 + 0.0014;
+  coverBezel.position.y = cover.position.y + coverThickness / 2 + 0.0014;
   coverBezel.castShadow = true;
   coverBezel.receiveShadow = true;
   group.add(coverBezel);
@@ -791,7 +978,7 @@ function createModule(scene: THREE.Scene): {
   const bossGeom = new THREE.CylinderGeometry(
     0.011,
     0.011,
-    BASE_THICKNESS * 1.1,
+    baseThickness * 1.1,
     16
   );
   const bossMat = new THREE.MeshStandardMaterial({
@@ -806,18 +993,18 @@ function createModule(scene: THREE.Scene): {
     roughness: 0.18
   });
 
-  const verts = hexVertices(1.04);
+  const verts = hexVertices(radius, 1.04);
   verts.forEach((v) => {
     const boss = new THREE.Mesh(bossGeom, bossMat);
     boss.rotation.z = Math.PI / 2;
-    boss.position.set(v.x, BASE_THICKNESS * 0.55, v.y);
+    boss.position.set(v.x, baseThickness * 0.55, v.y);
     boss.castShadow = true;
     boss.receiveShadow = true;
     group.add(boss);
 
     const screw = new THREE.Mesh(screwGeom, screwMat);
     screw.rotation.z = Math.PI / 2;
-    screw.position.set(v.x, BASE_THICKNESS + 0.003, v.y);
+    screw.position.set(v.x, baseThickness + 0.003, v.y);
     screw.castShadow = true;
     screw.receiveShadow = true;
     group.add(screw);
@@ -832,12 +1019,12 @@ function createModule(scene: THREE.Scene): {
   });
 
   const conduitCurve = new THREE.QuadraticBezierCurve3(
-    new THREE.Vector3(-HEX_APOTHEM * 0.22, BASE_THICKNESS * 0.55, -HEX_APOTHEM * 0.42),
-    new THREE.Vector3(0, BASE_THICKNESS * 1.15, 0),
+    new THREE.Vector3(-apothem * 0.22, baseThickness * 0.55, -apothem * 0.42),
+    new THREE.Vector3(0, baseThickness * 1.15, 0),
     new THREE.Vector3(
-      HEX_APOTHEM * 0.34,
-      BASE_THICKNESS * 0.6,
-      HEX_APOTHEM * 0.26
+      apothem * 0.34,
+      baseThickness * 0.6,
+      apothem * 0.26
     )
   );
   const conduitGeom = new THREE.TubeGeometry(conduitCurve, 20, 0.011, 14, false);
@@ -864,7 +1051,7 @@ function createModule(scene: THREE.Scene): {
   const railGeom = new RoundedBoxGeometry(0.09, 0.03, 0.05, 4, 0.01);
   const padGeom = new THREE.CylinderGeometry(0.006, 0.006, 0.004, 12);
 
-  const edgeVerts = hexVertices(1.01);
+  const edgeVerts = hexVertices(radius, 1.01);
 
   for (let i = 0; i < edgeVerts.length; i++) {
     const a = edgeVerts[i];
@@ -872,7 +1059,7 @@ function createModule(scene: THREE.Scene): {
 
     const mid = new THREE.Vector3(
       (a.x + b.x) / 2,
-      BASE_THICKNESS + PANEL_THICKNESS * 0.38,
+      baseThickness + panelThickness * 0.38,
       (a.y + b.y) / 2
     );
 
@@ -903,7 +1090,7 @@ function createModule(scene: THREE.Scene): {
   const shellGeom = new THREE.CylinderGeometry(0.028, 0.028, 0.085, 28);
   const shell = new THREE.Mesh(shellGeom, connectorMat);
   shell.rotation.z = Math.PI / 2;
-  shell.position.set(edgeVerts[0].x + 0.05, BASE_THICKNESS + 0.05, edgeVerts[0].y);
+  shell.position.set(edgeVerts[0].x + 0.05, baseThickness + 0.05, edgeVerts[0].y);
   shell.castShadow = true;
   shell.receiveShadow = true;
   group.add(shell);
@@ -927,15 +1114,15 @@ function createModule(scene: THREE.Scene): {
   group.add(grommet);
 
   const cableCurve = new THREE.QuadraticBezierCurve3(
-    new THREE.Vector3(strain.position.x + 0.03, BASE_THICKNESS + 0.05, strain.position.z),
+    new THREE.Vector3(strain.position.x + 0.03, baseThickness + 0.05, strain.position.z),
     new THREE.Vector3(
       strain.position.x + 0.7 * 0.5,
-      BASE_THICKNESS + 0.08,
+      baseThickness + 0.08,
       strain.position.z + 0.07
     ),
     new THREE.Vector3(
       strain.position.x + 0.75,
-      BASE_THICKNESS + 0.045,
+      baseThickness + 0.045,
       strain.position.z + 0.12
     )
   );
@@ -958,6 +1145,12 @@ function createModule(scene: THREE.Scene): {
   cableSleeve.position.y -= 0.002;
   group.add(cableSleeve);
 
+  // the telemetry lead runs off the +x side; an array hides it where a
+  // module is docked there
+  for (const part of [shell, strain, grommet, cable, cableSleeve]) {
+    part.userData.telemetry = true;
+  }
+
   const materials: ModuleMaterials = {
     cover: coverMaterial,
     substrate: substrateMaterial,
@@ -972,240 +1165,354 @@ function createModule(scene: THREE.Scene): {
   };
 
   scene.add(group);
-  return { group, materials };
+  return { group, materials, lanes };
 }
 
 // ─────────────────────────────────────────────────────────────
-// Dust particles + dynamics (physics unchanged, visuals improved)
+// Dust rendering (physics lives in ancillia-sim)
 // ─────────────────────────────────────────────────────────────
 
-type DustParticle = {
-  mesh: THREE.Mesh;
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  radius: number;
-  mass: number;
-  charge: number;
-  adhesion: number;
-  attached: boolean;
-  collected: boolean;
-  collectTimer: number;
+const DUST_COLOR = 0xf7f2e6;
+const DUST_DETAIL_LIMIT = 5000; // above this many grains, draw 20-face icosahedra
+
+// All grains are one InstancedMesh: one draw call, with position,
+// velocity-aligned orientation, stretch and colour per instance. Hidden
+// grains are packed out, so `mesh.count` is the number drawn and
+// `particle[k]` says which grain instance k is.
+type DustField = {
+  mesh: THREE.InstancedMesh;
+  particle: Uint32Array;
+  capacity: number;
 };
 
-function sampleRadius() {
-  const t = Math.random();
-  return DUST_RADIUS_MIN + (DUST_RADIUS_MAX - DUST_RADIUS_MIN) * Math.pow(t, 1.8);
+function createDustField(parent: THREE.Object3D, count: number): DustField {
+  const geometry =
+    count > DUST_DETAIL_LIMIT
+      ? new THREE.IcosahedronGeometry(DUST_VISUAL_RADIUS, 0)
+      : new THREE.SphereGeometry(DUST_VISUAL_RADIUS, 12, 12);
+  // white base: the instance colour is the grain's colour
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0x1a0e04,
+    emissiveIntensity: 0.08,
+    metalness: 0.0,
+    roughness: 0.7
+  });
+  const capacity = Math.max(count, 1);
+  const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+  mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+  mesh.castShadow = false; // they’re micron-sized; shadowing is negligible visually
+  mesh.frustumCulled = false; // bounds of the base sphere say nothing about the swarm
+  mesh.count = 0;
+  parent.add(mesh);
+  return { mesh, particle: new Uint32Array(capacity), capacity: count };
 }
 
-function respawnParticle(p: DustParticle, fresh = false) {
-  const radius = sampleRadius();
-  const volume = (4 / 3) * Math.PI * Math.pow(radius, 3);
-  const mass = volume * DUST_DENSITY;
-  const charge = THREE.MathUtils.lerp(
-    DUST_CHARGE_MIN,
-    DUST_CHARGE_MAX,
-    Math.random()
-  );
-  const adhesion = ADHESION_PER_AREA * Math.PI * radius * radius;
-
-  p.radius = radius;
-  p.mass = mass;
-  p.charge = charge;
-  p.adhesion = adhesion;
-  p.attached = true;
-  p.collected = false;
-  p.collectTimer = 0;
-
-  const spawnPoint = samplePointInHex(0.88);
-  p.position.set(
-    spawnPoint.x,
-    PANEL_SURFACE_Y + 0.002 + Math.random() * 0.02,
-    spawnPoint.z
-  );
-  p.velocity.set((Math.random() - 0.5) * 0.01, 0, (Math.random() - 0.5) * 0.01);
+function disposeDustField(field: DustField) {
+  field.mesh.removeFromParent();
+  field.mesh.geometry.dispose();
+  field.mesh.material.dispose();
+  field.mesh.dispose();
+}
 
-  p.mesh.position.copy(p.position);
+// Linear RGB per species (or the plain dust colour), cached per mix
+const dustTints = new WeakMap<DustSpecies[], Float32Array>();
+const plainTint = new THREE.Color(DUST_COLOR).toArray(new Float32Array(3));
 
-  if (!fresh) {
-    p.mesh.rotation.set(0, 0, 0);
-    p.mesh.scale.set(1, 1, 1);
+function speciesTints(mix: DustSpecies[]) {
+  let tints = dustTints.get(mix);
+  if (!tints) {
+    tints = new Float32Array(mix.length * 3);
+    mix.forEach((s, k) => new THREE.Color(s.color).toArray(tints, k * 3));
+    dustTints.set(mix, tints);
   }
+  return tints;
 }
 
-function spawnDustParticle(
-  geom: THREE.SphereGeometry,
-  material: THREE.Material
-): DustParticle {
-  const mesh = new THREE.Mesh(geom, material);
-  mesh.castShadow = false; // they’re micron-sized; shadowing is negligible visually
-
-  const p: DustParticle = {
-    mesh,
-    position: new THREE.Vector3(),
-    velocity: new THREE.Vector3(),
-    radius: 0,
-    mass: 0,
-    charge: 0,
-    adhesion: 0,
-    attached: true,
-    collected: false,
-    collectTimer: 0
-  };
+// scratch objects for the per-instance matrices (no allocation per frame)
+const UP = new THREE.Vector3(0, 1, 0);
+const velocityDir = new THREE.Vector3();
+const dustPosition = new THREE.Vector3();
+const dustRotation = new THREE.Quaternion();
+const dustScale = new THREE.Vector3();
+const dustMatrix = new THREE.Matrix4();
+
+function describeSimStatus(sim: DustSimulation, environment: EnvironmentConfig) {
+  const report = dustStability(sim.config);
+  const { relativeError } = sim.energy;
+  const parts = [
+    `Environment: ${environment.label}`,
+    `Dust: ${sim.state.count} × ${sim.config.dust.simulant}${sim.config.dust.species.length ? ' (mix)' : ''}`,
+    `Electrodes: ${sim.config.electrodes.layout}`,
+    `Field: ${sim.config.field.model}`,
+    `Drive: ${describeDrive(sim.config.drive)}`,
+    `Drag: ${sim.config.dragModel === 'physical' ? sim.config.atmosphere.id : 'constant'}`,
+    `Adhesion: ${sim.config.adhesion.model} (residual ${(residualDustFraction(sim.state) * 100).toFixed(0)}%)`,
+    `Integrator: ${sim.config.integrator.scheme}`,
+    `${report.stepsPerWavePeriod.toFixed(0)} steps/period`,
+    `energy error ${(relativeError * 100).toFixed(2)}%`
+  ];
+  const { deposition } = sim.config;
+  if (deposition.enabled) {
+    const storm = isStormActive(sim.deposition, sim.time) ? ' · STORM' : '';
+    parts.push(`deposition ${deposition.flux} g/m²/sol${storm}`);
+  }
+  if (sim.config.charging.enabled) {
+    parts.push(`tribocharging vs ${sim.config.charging.cover}`);
+  }
+  const { coulomb, cohesion } = sim.config.interactions;
+  if (coulomb || cohesion) {
+    parts.push(`interactions on (${countAgglomerates(sim.state)} agglomerates)`);
+  }
+  if (!report.stable) parts.push('UNSTABLE');
+  return parts.join(' · ');
+}
 
-  respawnParticle(p, true);
-  return p;
+function describeMetrics(sim: DustSimulation) {
+  const { metrics } = sim;
+  const last = metrics.samples[metrics.samples.length - 1];
+  if (!last) return 'Cleared —';
+  const sides = Array.from(metrics.collectedCount).join('/');
+  const t90 = metrics.timeTo90 === null ? '—' : `${metrics.timeTo90.toFixed(1)} s`;
+  const parts = [
+    `Cleared ${last.clearedPercent.toFixed(1)}% (${last.airbornePercent.toFixed(1)}% aloft)`,
+    `attached ${last.attached}`,
+    `airborne ${last.airborne}`,
+    `collected ${last.collectedTotal} (sides ${sides})`,
+    `escaped ${last.escapedTotal}`,
+    `t90 ${t90}`
+  ];
+  if (metrics.species.length > 1) {
+    const bySpecies = metrics.species.map(
+      (id, s) => `${id} ${last.speciesCleared[s].toFixed(0)}%`
+    );
+    parts.push(`cleared by species: ${bySpecies.join(' / ')}`);
+  }
+  if (metrics.modules.length > 1) {
+    const seams = sim.array.edges.filter((edge) => edge.neighbour >= 0).length;
+    const byModule = last.moduleCleared.map((cleared) => `${cleared.toFixed(0)}%`);
+    parts.push(
+      `array ${metrics.modules.length} modules, ${seams} docked seams`,
+      `transfers ${last.transfersTotal}`,
+      `cleared by module: ${byModule.join(' / ')}`
+    );
+  }
+  return parts.join(' · ');
 }
 
-function createDustField(scene: THREE.Scene) {
-  // visual radius ~0.003 m for readability, even though physical radius is µm-scale
-  const dustGeom = new THREE.SphereGeometry(0.003, 12, 12);
-  const dustMat = new THREE.MeshStandardMaterial({
-    color: 0xf7f2e6,
-    emissive: 0x1a0e04,
-    emissiveIntensity: 0.08,
-    metalness: 0.0,
-    roughness: 0.7
-  });
+function downloadFile(filename: string, data: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
-  const particles: DustParticle[] = [];
-  for (let i = 0; i < NUM_DUST_PARTICLES; i++) {
-    const p = spawnDustParticle(dustGeom, dustMat);
-    particles.push(p);
-    scene.add(p.mesh);
+// Copy an engine snapshot (live state or recorded frame) into the
+// instances; elongate fast grains → streaking effect. Grains take
+// `colors` (linear RGB per grain, see ancillia-dust-coloring.ts) when
+// given, else their species tint.
+function syncDustMeshes(
+  field: DustField,
+  frame: Pick<DustFrame, 'status' | 'species' | 'members'> & {
+    position: ArrayLike<number>;
+    velocity: ArrayLike<number>;
+  },
+  mix: DustSpecies[],
+  colors: Float32Array | null = null
+) {
+  const { position, velocity, status, members, species } = frame;
+  const { mesh, particle } = field;
+  const matrices = mesh.instanceMatrix.array;
+  const instanceColors = mesh.instanceColor.array;
+  const tints = mix.length ? speciesTints(mix) : plainTint;
+  const n = Math.min(field.capacity, status.length);
+  let k = 0;
+
+  for (let i = 0; i < n; i++) {
+    if (status[i] === DustStatus.Inactive) continue;
+    dustPosition.set(position[i * 3], position[i * 3 + 1], position[i * 3 + 2]);
+    // agglomerates read as bigger grains (volume-equivalent)
+    const size = Math.cbrt(members[i]);
+
+    if (status[i] !== DustStatus.Airborne) {
+      dustRotation.identity();
+      dustScale.setScalar(size);
+    } else {
+      velocityDir.set(velocity[i * 3], velocity[i * 3 + 1], velocity[i * 3 + 2]);
+      const speed = velocityDir.length();
+      const stretch = THREE.MathUtils.clamp(1 + speed * 10, 1, 3.2);
+      if (speed > 1e-4) dustRotation.setFromUnitVectors(UP, velocityDir.normalize());
+      else dustRotation.identity();
+      dustScale.set(size, size * Math.max(0.75, 1 + speed * 1.4), size * stretch);
+    }
+    dustMatrix.compose(dustPosition, dustRotation, dustScale).toArray(matrices, k * 16);
+
+    const source = colors ?? tints;
+    const tint = colors ? i * 3 : mix.length ? species[i] * 3 : 0;
+    instanceColors[k * 3] = source[tint];
+    instanceColors[k * 3 + 1] = source[tint + 1];
+    instanceColors[k * 3 + 2] = source[tint + 2];
+    particle[k++] = i;
   }
-  return particles;
+
+  mesh.count = k;
+  // upload only the packed prefix
+  mesh.instanceMatrix.clearUpdateRanges();
+  mesh.instanceMatrix.addUpdateRange(0, k * 16);
+  mesh.instanceMatrix.needsUpdate = true;
+  mesh.instanceColor.clearUpdateRanges();
+  mesh.instanceColor.addUpdateRange(0, k * 3);
+  mesh.instanceColor.needsUpdate = true;
 }
 
-// Electric field: vertical + tangential traveling wave + drift (unchanged)
-function computeFieldAt(position: THREE.Vector3, time: number) {
-  const angle = Math.atan2(position.z, position.x);
-  const radius = Math.sqrt(position.x * position.x + position.z * position.z);
-  const rNorm = THREE.MathUtils.clamp(radius / HEX_APOTHEM, 0, 1);
+// Trail and marker for one inspected grain (see ancillia-inspector.ts)
+const TRAIL_POINTS = 240; // ~4 s at 60 fps
+const TRAIL_JUMP = 0.05;  // m between frames: the slot was recycled, start over
+
+type GrainTrail = {
+  line: THREE.Line;
+  marker: THREE.Mesh;
+  points: Float32Array; // xyz, oldest first
+  length: number;
+};
 
-  const sector = ((angle + Math.PI) / (2 * Math.PI)) * ELECTRODE_SEGMENTS;
-  const laneIndex = Math.max(
-    0,
-    Math.min(ELECTRODE_SEGMENTS - 1, Math.floor(sector))
+function createGrainTrail(parent: THREE.Object3D, color: string): GrainTrail {
+  const points = new Float32Array(TRAIL_POINTS * 3);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(points, 3).setUsage(THREE.DynamicDrawUsage));
+  geometry.setDrawRange(0, 0);
+  const line = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color }));
+  line.frustumCulled = false;
+  const marker = new THREE.Mesh(
+    new THREE.SphereGeometry(DUST_VISUAL_RADIUS * 2.5, 10, 8),
+    new THREE.MeshBasicMaterial({ color, wireframe: true })
   );
-  const phase =
-    time * 2 * Math.PI * WAVE_FREQUENCY + laneIndex * PHASE_SHIFT;
-
-  const Ey =
-    FIELD_BASE + FIELD_TRAVEL * Math.sin(phase) * (1 - 0.35 * rNorm);
-
-  const tangentialMag = FIELD_LATERAL * Math.cos(phase) * (0.4 + 0.6 * rNorm);
-  const radialMag = FIELD_LATERAL * 0.25 * Math.sin(phase + Math.PI / 4);
-
-  const radialDir = new THREE.Vector3(
-    Math.cos(angle),
-    0,
-    Math.sin(angle)
-  ).normalize();
-  const tangentialDir = new THREE.Vector3(
-    -Math.sin(angle),
-    0,
-    Math.cos(angle)
-  ).normalize();
-
-  const horizontal = radialDir
-    .clone()
-    .multiplyScalar(radialMag)
-    .add(tangentialDir.clone().multiplyScalar(tangentialMag))
-    .add(DIRECTIONAL_DRIFT);
-
-  return new THREE.Vector3(horizontal.x, Ey, horizontal.z);
+  parent.add(line, marker);
+  return { line, marker, points, length: 0 };
 }
 
-function stepDust(particles: DustParticle[], dt: number, time: number) {
-  const panelY = PANEL_SURFACE_Y;
-  const boundsScale = BOUNDS_SCALE;
+function disposeGrainTrail(trail: GrainTrail) {
+  for (const object of [trail.line, trail.marker]) {
+    object.removeFromParent();
+    object.geometry.dispose();
+    object.material.dispose();
+  }
+}
 
-  for (const p of particles) {
-    if (p.collected) {
-      p.collectTimer += dt;
-      if (p.collectTimer > 1.2) {
-        respawnParticle(p);
-      }
-      continue;
-    }
+function clearGrainTrail(trail: GrainTrail) {
+  trail.length = 0;
+  trail.line.geometry.setDrawRange(0, 0);
+}
 
-    const field = computeFieldAt(p.position, time);
+function pushGrainTrail(trail: GrainTrail, x: number, y: number, z: number) {
+  const { points } = trail;
+  trail.marker.position.set(x, y, z);
+  if (trail.length > 0) {
+    const last = (trail.length - 1) * 3;
+    const dx = x - points[last];
+    const dy = y - points[last + 1];
+    const dz = z - points[last + 2];
+    const step = Math.hypot(dx, dy, dz);
+    if (step === 0) return;
+    if (step > TRAIL_JUMP) trail.length = 0;
+  }
+  if (trail.length === TRAIL_POINTS) {
+    points.copyWithin(0, 3);
+    trail.length--;
+  }
+  points[trail.length * 3] = x;
+  points[trail.length * 3 + 1] = y;
+  points[trail.length * 3 + 2] = z;
+  trail.length++;
+  const { geometry } = trail.line;
+  geometry.setDrawRange(0, trail.length);
+  geometry.attributes.position.needsUpdate = true;
+}
 
-    const Fy = p.charge * field.y - p.mass * MARTIAN_GRAVITY;
-    const Fx = p.charge * field.x;
-    const Fz = p.charge * field.z;
+// Docking status lights (see ancillia-array.ts): one on each rail, green
+// where a neighbour is docked, dim amber on the array's rim. A seam
+// brightens while grains cross it into the next module.
+const DOCKED_COLOR = new THREE.Color(0x2ee59d);
+const OPEN_COLOR = new THREE.Color(0x6b4a1c);
+const TRANSFER_COLOR = new THREE.Color(0xf2fff8);
+const TRANSFER_FULL = 10; // transfers per status update for full brightness
+
+type DockingLights = {
+  mesh: THREE.InstancedMesh;
+  transfers: Uint32Array; // per array edge, at the last update
+};
 
-    if (p.attached) {
-      const upwardForce = Fy;
-      if (upwardForce > p.adhesion) {
-        p.attached = false;
-        p.velocity.y += ((upwardForce - p.adhesion) / p.mass) * dt;
-      } else {
-        p.velocity.setScalar(0);
-        p.position.y = panelY;
-        p.mesh.position.copy(p.position);
-        continue;
-      }
+function createDockingLights(
+  parent: THREE.Object3D,
+  array: ModuleArray,
+  geometry: ModuleGeometry
+): DockingLights {
+  const { baseThickness, panelThickness } = geometry;
+  const radius = hexRadius(geometry);
+  const count = array.cells.length * 6;
+  const mesh = new THREE.InstancedMesh(
+    new THREE.SphereGeometry(0.007, 10, 8),
+    new THREE.MeshBasicMaterial({ color: 0xffffff, toneMapped: false }),
+    count
+  );
+  const edgeVerts = hexVertices(radius, 1.01);
+  const y = baseThickness + panelThickness * 0.38 + 0.03; // on top of the rail
+  const matrix = new THREE.Matrix4();
+  for (let m = 0; m < array.cells.length; m++) {
+    for (let side = 0; side < 6; side++) {
+      const a = edgeVerts[side];
+      const b = edgeVerts[(side + 1) % 6];
+      matrix.makeTranslation(
+        array.centers[m * 2] + (a.x + b.x) / 2,
+        y,
+        array.centers[m * 2 + 1] + (a.y + b.y) / 2
+      );
+      mesh.setMatrixAt(m * 6 + side, matrix);
     }
+  }
+  mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(count * 3), 3);
+  parent.add(mesh);
+  const lights = { mesh, transfers: new Uint32Array(array.edges.length) };
+  updateDockingLights(lights, array, null);
+  return lights;
+}
 
-    const ax = Fx / p.mass;
-    const ay = Fy / p.mass;
-    const az = Fz / p.mass;
-
-    p.velocity.x += ax * dt;
-    p.velocity.y += ay * dt;
-    p.velocity.z += az * dt;
-
-    // simple drag
-    p.velocity.multiplyScalar(1 - DRAG_COEFF * dt);
-
-    p.position.addScaledVector(p.velocity, dt);
+function disposeDockingLights(lights: DockingLights) {
+  lights.mesh.removeFromParent();
+  lights.mesh.geometry.dispose();
+  lights.mesh.material.dispose();
+  lights.mesh.dispose();
+}
 
-    // panel collision / bounce
-    if (p.position.y < panelY) {
-      p.position.y = panelY;
-      p.velocity.y *= -0.22;
-      p.velocity.x *= 0.92;
-      p.velocity.z *= 0.92;
-    }
+const dockingColor = new THREE.Color();
 
-    // elongate particles when fast → streaking effect
-    const speed = p.velocity.length();
-    const stretch = THREE.MathUtils.clamp(1 + speed * 10, 1, 3.2);
-    if (speed > 1e-4) {
-      const dir = p.velocity.clone().normalize();
-      const quat = new THREE.Quaternion();
-      quat.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dir);
-      p.mesh.quaternion.copy(quat);
-    }
-    p.mesh.scale.set(1, Math.max(0.75, 1 + speed * 1.4), stretch);
-
-    // Trench collection region
-    if (
-      !isInsideHex(p.position, TRENCH_INNER_SCALE) &&
-      p.position.y < BASE_THICKNESS + CARTRIDGE_HEIGHT * 2
-    ) {
-      if (isInsideHex(p.position, TRENCH_OUTER_SCALE)) {
-        p.collected = true;
-        p.collectTimer = 0;
-        p.position.y = BASE_THICKNESS + CARTRIDGE_HEIGHT / 2;
-        p.velocity.setScalar(0);
-        p.mesh.position.copy(p.position);
-        continue;
+// Recolour from the seam transfers since the last update (status cadence)
+function updateDockingLights(
+  lights: DockingLights,
+  array: ModuleArray,
+  metrics: RunMetrics | null
+) {
+  const counts = metrics?.collectorTransfers;
+  const current = counts?.length === lights.transfers.length ? counts : null;
+  for (let m = 0; m < array.cells.length; m++) {
+    for (let side = 0; side < 6; side++) {
+      const e = array.edgeOf[m * 6 + side];
+      if (array.neighbours[m * 6 + side] < 0) {
+        dockingColor.copy(OPEN_COLOR);
+      } else {
+        // a new run starts its counts over
+        const recent = current ? Math.max(current[e] - lights.transfers[e], 0) : 0;
+        dockingColor.copy(DOCKED_COLOR).lerp(TRANSFER_COLOR, Math.min(recent / TRANSFER_FULL, 1));
       }
+      lights.mesh.setColorAt(m * 6 + side, dockingColor);
     }
-
-    // Bounds / escape → respawn
-    if (
-      !isInsideHex(p.position, boundsScale) ||
-      p.position.y > MAX_DUST_HEIGHT
-    ) {
-      respawnParticle(p);
-      continue;
-    }
-
-    p.mesh.position.copy(p.position);
   }
+  if (current) lights.transfers.set(current);
+  lights.mesh.instanceColor.needsUpdate = true;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -1267,7 +1574,7 @@ export function initAncilliaScene(container: HTMLElement) {
 
   const grazeLight = new THREE.DirectionalLight(0xbecfff, 0.52);
   grazeLight.position.set(3.4, 1.2, -3.8);
-  grazeLight.target.position.set(0, PANEL_SURFACE_Y, 0);
+  grazeLight.target.position.set(0, panelSurfaceY(DEFAULT_MODULE_GEOMETRY), 0);
   scene.add(grazeLight);
   scene.add(grazeLight.target);
 
@@ -1286,6 +1593,15 @@ export function initAncilliaScene(container: HTMLElement) {
   scene.add(accent);
   scene.add(accent.target);
 
+  const lights: LightRig = {
+    ambient,
+    hemi,
+    key: keyLight,
+    rim: rimLight,
+    graze: grazeLight,
+    accent
+  };
+
   // Ground disk – subtle, so panel pops
   const groundGeom = new THREE.CircleGeometry(12, 64);
   const groundMat = new THREE.MeshStandardMaterial({
@@ -1300,8 +1616,204 @@ export function initAncilliaScene(container: HTMLElement) {
   scene.add(ground);
 
   // Module + dust
-const { group: module, materials } = createModule(scene);
-const dust = createDustField(scene);
+let environment: EnvironmentConfig = ENVIRONMENT_PRESETS.mars;
+applyLighting(renderer, scene, lights, environment.lighting);
+
+const dustSim = createDustSimulation(
+  applyEnvironment(
+    {
+      ...DEFAULT_DUST_SIM_CONFIG,
+      integrator: { ...DEFAULT_INTEGRATOR_CONFIG, trackEnergy: true }
+    },
+    environment
+  ),
+  DUST_SEED
+);
+let { group: module, materials, lanes: electrodeLanes } = createModule(scene, dustSim.layout, dustSim.config.geometry);
+
+// Module array (see ancillia-array.ts): `module` is the first cell's;
+// the others are clones of it, sharing its geometry and materials so
+// mode and lane changes reach them all. The array spins as one about
+// its middle, and the dust flies in array coordinates (`arrayFrame`).
+const arrayGroup = new THREE.Group();
+const arrayFrame = new THREE.Group();
+arrayGroup.add(arrayFrame);
+scene.add(arrayGroup);
+let moduleClones: THREE.Group[] = [];
+let dockingLights = createDockingLights(arrayFrame, dustSim.array, dustSim.config.geometry);
+
+// Re-clone after the module or its lanes were rebuilt, or the array changed
+function syncModuleArray() {
+  const { array } = dustSim;
+  for (const clone of moduleClones) clone.removeFromParent();
+  moduleClones = array.cells.slice(1).map(() => module.clone());
+  let cx = 0;
+  let cz = 0;
+  [module, ...moduleClones].forEach((group, m) => {
+    group.position.set(array.centers[m * 2], 0, array.centers[m * 2 + 1]);
+    const leadFree = array.neighbours[m * 6 + 5] < 0; // nothing docked on +x
+    group.traverse((child: any) => {
+      if (child.userData.telemetry) child.visible = leadFree;
+    });
+    arrayFrame.add(group);
+    cx += array.centers[m * 2] / array.cells.length;
+    cz += array.centers[m * 2 + 1] / array.cells.length;
+  });
+  arrayFrame.position.set(-cx, 0, -cz);
+  fieldOverlays.group.position.set(array.centers[0], 0, array.centers[1]);
+  disposeDockingLights(dockingLights);
+  dockingLights = createDockingLights(arrayFrame, array, dustSim.config.geometry);
+}
+
+// The run itself lives in a worker (see ancillia-sim-host.ts). `dustSim`
+// here is its mirror: config and layout are what the worker gets sent,
+// and the rest (time, metrics, particle state) comes from its reports
+// and snapshots.
+const simHost = createSimHost((report) => applySimReport(simHost, dustSim, report));
+resetSimHost(simHost, dustSim.config, dustSim.seed);
+
+// The mirror restarts too, so counts and t = 0 are right until the
+// worker's first report
+function resetRun(seed = dustSim.seed, replayTo = 0) {
+  resetDustSimulation(dustSim, seed);
+  resetSimHost(simHost, dustSim.config, seed, replayTo);
+  clearGrainTrails();
+}
+
+// Dust lives in array coordinates, next to the modules rather than in
+// one (the enhancement pass measures the module's bounds)
+const dustGroup = new THREE.Group();
+arrayFrame.add(dustGroup);
+let dust = createDustField(dustGroup, dustSim.state.count);
+syncDustMeshes(dust, dustSim.state, dustSim.config.dust.species);
+
+function ensureDustField(count: number) {
+  if (dust.capacity === count) return;
+  disposeDustField(dust);
+  dust = createDustField(dustGroup, count);
+}
+
+// E-field overlays (vectors, field lines, slice) share the dust's frame,
+// over the first module of the array
+const fieldOverlays = createFieldOverlays(dustGroup, dustSim.config.geometry);
+
+// Grain inspector: a click (not an orbit drag) picks the grain under
+// the pointer, shift-click pins it; each inspected grain gets a trail
+let drawnFrame: DustFrame | null = null; // the frame the dust meshes show
+const grainTrails = new Map<number, GrainTrail>();
+
+function syncGrainTrails() {
+  const inspected = new Map(inspector.grains.map((grain) => [grain.index, grain.color]));
+  for (const [index, trail] of grainTrails) {
+    if (inspected.has(index)) continue;
+    disposeGrainTrail(trail);
+    grainTrails.delete(index);
+  }
+  for (const [index, color] of inspected) {
+    if (!grainTrails.has(index)) grainTrails.set(index, createGrainTrail(dustGroup, color));
+  }
+}
+
+function clearGrainTrails() {
+  for (const trail of grainTrails.values()) clearGrainTrail(trail);
+}
+
+const inspector = createInspector(
+  document.getElementById('inspector') ?? document.createElement('div'),
+  syncGrainTrails
+);
+
+const raycaster = new THREE.Raycaster();
+const pointer = new THREE.Vector2();
+const pickPoint = new THREE.Vector3();
+const PICK_RADIUS_PX = 8; // grains are a few pixels across
+const CLICK_SLOP_PX = 4;
+let pointerDown: { x: number; y: number } | null = null;
+
+function setPointer(event: PointerEvent) {
+  const rect = renderer.domElement.getBoundingClientRect();
+  pointer.set(
+    ((event.clientX - rect.left) / rect.width) * 2 - 1,
+    -((event.clientY - rect.top) / rect.height) * 2 + 1
+  );
+  raycaster.setFromCamera(pointer, camera);
+  return rect;
+}
+
+// The drawn grain under the pointer: a hit on its instance, else the
+// nearest one on screen within PICK_RADIUS_PX
+function pickGrain(event: PointerEvent) {
+  const frame = drawnFrame;
+  if (!frame) return null;
+  const rect = setPointer(event);
+  dust.mesh.boundingSphere = null; // grains moved since the last pick
+  const [hit] = raycaster.intersectObject(dust.mesh, false);
+  if (hit?.instanceId !== undefined) return dust.particle[hit.instanceId];
+
+  let best: number | null = null;
+  let bestDistance = PICK_RADIUS_PX * PICK_RADIUS_PX;
+  for (let k = 0; k < dust.mesh.count; k++) {
+    const i = dust.particle[k];
+    pickPoint
+      .fromArray(frame.position, i * 3)
+      .applyMatrix4(dustGroup.matrixWorld)
+      .project(camera);
+    if (pickPoint.z > 1) continue; // behind the camera
+    const dx = ((pickPoint.x - pointer.x) * rect.width) / 2;
+    const dy = ((pickPoint.y - pointer.y) * rect.height) / 2;
+    const distance = dx * dx + dy * dy;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Dragging the slice vertically moves it through the air gap; the
+// camera stays put while it is held
+const SLICE_DRAG_RATE = 0.0002; // m per pixel
+let sliceDrag: { y: number; height: number } | null = null;
+
+renderer.domElement.addEventListener('pointerdown', (event: PointerEvent) => {
+  pointerDown = { x: event.clientX, y: event.clientY };
+  if (!fieldOverlays.slice.visible || !fieldOverlays.group.visible) return;
+  setPointer(event);
+  if (raycaster.intersectObject(fieldOverlays.slice, false).length === 0) return;
+  sliceDrag = { y: event.clientY, height: fieldOverlays.sliceHeight };
+  controls.enabled = false;
+  renderer.domElement.setPointerCapture(event.pointerId);
+});
+
+renderer.domElement.addEventListener('pointermove', (event: PointerEvent) => {
+  if (!sliceDrag) return;
+  setSliceHeight(fieldOverlays, sliceDrag.height + (sliceDrag.y - event.clientY) * SLICE_DRAG_RATE);
+  const mm = (fieldOverlays.sliceHeight * 1000).toFixed(1);
+  if (simStatusEl) simStatusEl.textContent = `Slice ${mm} mm above the panel`;
+  statusTimer = 1;
+});
+
+function endSliceDrag() {
+  sliceDrag = null;
+  controls.enabled = true;
+}
+
+renderer.domElement.addEventListener('pointerup', (event: PointerEvent) => {
+  const click =
+    !sliceDrag &&
+    pointerDown !== null &&
+    Math.hypot(event.clientX - pointerDown.x, event.clientY - pointerDown.y) <= CLICK_SLOP_PX;
+  pointerDown = null;
+  endSliceDrag();
+  if (!click) return;
+  const index = pickGrain(event);
+  if (index !== null) selectGrain(inspector, index, event.shiftKey);
+  else releaseGrain(inspector);
+});
+renderer.domElement.addEventListener('pointercancel', () => {
+  pointerDown = null;
+  endSliceDrag();
+});
 
 // Make scene + module available in DevTools
 (window as any).scene = scene;
@@ -1313,8 +1825,528 @@ const dust = createDustField(scene);
 const modeStatusEl = document.getElementById('mode-status');
 applyMode('blueprint', materials, modeStatusEl);
 
-let currentMode: 'concept' | 'blueprint' = 'blueprint';
+const simStatusEl = document.getElementById('sim-status');
+const metricsStatusEl = document.getElementById('metrics-status');
+const chargeCanvas = document.getElementById('charge-histogram') as HTMLCanvasElement | null;
+const chargeWaterfall = chargeCanvas ? createChargeWaterfall(chargeCanvas) : null;
+const coverageCanvas = document.getElementById('coverage-map') as HTMLCanvasElement | null;
+let coverageView = coverageCanvas
+  ? createCoverageView(coverageCanvas, dustSim.config.geometry)
+  : null;
+const dustColors = createDustColors(
+  document.getElementById('dust-legend') as HTMLCanvasElement | null
+);
+
+// Module array editor: click the hex map to dock a module or remove one
+const arrayEditorCanvas = document.getElementById('array-editor') as HTMLCanvasElement | null;
+const arrayEditor = arrayEditorCanvas
+  ? createArrayEditor(arrayEditorCanvas, (cells) => {
+      if (cells) {
+        setArrayCells(cells);
+      } else if (simStatusEl) {
+        simStatusEl.textContent = 'Modules must stay docked in one group';
+        statusTimer = 2;
+      }
+    })
+  : null;
+
+function setArrayCells(cells: ArrayCell[]) {
+  if (player) exitReplay();
+  dustSim.config.array = { cells };
+  configureArray(dustSim);
+  resetRun();
+  syncModuleArray();
+  drawArrayStatus();
+}
+
+// Map of the array, with each module's cleared % once the run has some
+function drawArrayStatus() {
+  if (!arrayEditor) return;
+  const { metrics, array } = dustSim;
+  const last = metrics.samples[metrics.samples.length - 1];
+  const cleared = last?.moduleCleared.length === array.cells.length ? last.moduleCleared : null;
+  drawArrayEditor(arrayEditor, array.cells, cleared);
+}
+
+// Overlays that can be shown or hidden: the page's panels (ids match
+// its elements) and the field overlays in the scene
+function isFieldOverlay(id: OverlayId): id is FieldOverlayId {
+  return id.startsWith('field-');
+}
+
+function setOverlayVisible(id: OverlayId, visible: boolean) {
+  if (isFieldOverlay(id)) {
+    fieldOverlayObject(fieldOverlays, id).visible = visible;
+    return;
+  }
+  const el = document.getElementById(id);
+  if (el) el.style.display = visible ? '' : 'none';
+}
+
+function visibleOverlays() {
+  return OVERLAYS.filter((id) => {
+    if (isFieldOverlay(id)) return fieldOverlayObject(fieldOverlays, id).visible;
+    const el = document.getElementById(id);
+    return el && el.style.display !== 'none';
+  });
+}
+
+// Lab size / charge-to-mass CSVs (see parseDistributionCSV)
+const distributionInput = document.createElement('input');
+distributionInput.type = 'file';
+distributionInput.accept = '.csv,.txt';
+distributionInput.addEventListener('change', async () => {
+  const file = distributionInput.files?.[0];
+  distributionInput.value = '';
+  if (!file) return;
+  try {
+    const imported = parseDistributionCSV(await file.text());
+    const { dust } = dustSim.config;
+    dustSim.config.dust =
+      imported.target === 'size'
+        ? { ...dust, simulant: 'custom', size: imported.size }
+        : { ...dust, simulant: 'custom', charge: imported.charge };
+    resetRun();
+  } catch (error) {
+    if (simStatusEl) simStatusEl.textContent = `Could not load ${file.name}: ${error.message}`;
+    statusTimer = 4;
+  }
+});
+
+// Best drive settings from `npm run optimize`
+const optimizationInput = document.createElement('input');
+optimizationInput.type = 'file';
+optimizationInput.accept = '.json';
+optimizationInput.addEventListener('change', async () => {
+  const file = optimizationInput.files?.[0];
+  optimizationInput.value = '';
+  if (!file) return;
+  try {
+    dustSim.config.drive = driveFromOptimization(
+      JSON.parse(await file.text()),
+      dustSim.config.electrodes.layout
+    );
+    configureElectrodes(dustSim);
+    electrodeLanes = replaceElectrodeLanes(
+      module,
+      electrodeLanes,
+      dustSim.layout,
+      dustSim.config.geometry
+    );
+    syncModuleArray();
+    resetRun();
+  } catch (error) {
+    if (simStatusEl) simStatusEl.textContent = `Could not load ${file.name}: ${error.message}`;
+    statusTimer = 4;
+  }
+});
+
+// Scenario files (see ancillia-scenario.ts): drop one on the page to load it
+let scenarioName = 'Untitled scenario';
+
+function loadScenario(scenario: Scenario) {
+  if (player) exitReplay();
+  scenarioName = scenario.name;
+  environment = ENVIRONMENT_PRESETS[scenario.environment.preset];
+  applyLighting(renderer, scene, lights, environment.lighting);
+  dustSim.config = configFromScenario(scenario, dustSim.config);
+  configureElectrodes(dustSim);
+  configureArray(dustSim);
+  resetRun();
+  // the coverage map's cells are sized to the module, so it goes too
+  if (coverageCanvas) coverageView = createCoverageView(coverageCanvas, dustSim.config.geometry);
+
+  // the module is built from the config's geometry, so rebuild it whole
+  module.removeFromParent();
+  module.traverse((child: any) => {
+    if (child.geometry) child.geometry.dispose();
+  });
+  ({ group: module, materials, lanes: electrodeLanes } = createModule(scene, dustSim.layout, dustSim.config.geometry));
+  (window as any).module = module;
+  currentMode = scenario.visual.mode;
+  applyMode(currentMode, materials, modeStatusEl);
+  enhanceAncilliaDevice(scene, module, materials, hexRadius(dustSim.config.geometry));
+  syncModuleArray();
+
+  ensureDustField(dustSim.state.count);
+  syncDustMeshes(dust, dustSim.state, dustSim.config.dust.species);
+}
+
+window.addEventListener('dragover', (event) => {
+  event.preventDefault();
+  event.dataTransfer.dropEffect = 'copy';
+});
+window.addEventListener('drop', async (event) => {
+  event.preventDefault();
+  const file = event.dataTransfer?.files?.[0];
+  if (!file) return;
+  if (file.name.endsWith(RECORDING_EXTENSION)) {
+    openRecordingFile(file);
+    return;
+  }
+  try {
+    loadScenario(parseScenario(JSON.parse(await file.text())));
+    if (simStatusEl) simStatusEl.textContent = `Loaded scenario "${scenarioName}"`;
+  } catch (error) {
+    if (simStatusEl) simStatusEl.textContent = `Could not load ${file.name}: ${error.message}`;
+  }
+  statusTimer = 4;
+});
+
+let currentMode: VisualMode = 'blueprint';
+let paused = false;
+
+// Trajectory recording (see ancillia-recording.ts): Q starts / stops
+// capturing rendered frames; stopping opens the timeline on them
+let recording: Recording | null = null;
+let player: RecordingPlayer | null = null;
+
+function enterReplay(recorded: Recording) {
+  player = createPlayer(recorded);
+  sendSimCommand(simHost, { type: 'pause', paused: true });
+  ensureDustField(recorded.count);
+  showTimeline(timeline, player);
+  clearGrainTrails();
+}
+
+function exitReplay() {
+  player = null;
+  sendSimCommand(simHost, { type: 'pause', paused });
+  showTimeline(timeline, null);
+  ensureDustField(dustSim.state.count);
+  clearGrainTrails();
+}
+
+function stopRecording(reason?: string) {
+  if (!recording) return;
+  const recorded = recording;
+  recording = null;
+  if (recorded.frames.length > 0) enterReplay(recorded);
+  if (simStatusEl) {
+    simStatusEl.textContent = `Recorded ${recorded.frames.length} frames${reason ? ` (${reason})` : ''}`;
+  }
+  statusTimer = 3;
+}
+
+const recordingInput = document.createElement('input');
+recordingInput.type = 'file';
+recordingInput.accept = RECORDING_EXTENSION;
+recordingInput.addEventListener('change', () => {
+  const file = recordingInput.files?.[0];
+  recordingInput.value = '';
+  if (file) openRecordingFile(file);
+});
+
+async function openRecordingFile(file: File) {
+  try {
+    const loaded = recordingFromBytes(await file.arrayBuffer());
+    // rebuild the module + lighting the run was recorded with
+    loadScenario(parseScenario(loaded.meta.scenario));
+    stopRecording();
+    enterReplay(loaded);
+  } catch (error) {
+    if (simStatusEl) simStatusEl.textContent = `Could not load ${file.name}: ${error.message}`;
+    statusTimer = 4;
+  }
+}
+
+const timeline = createTimeline(
+  document.getElementById('timeline') ?? document.createElement('div'),
+  {
+    save() {
+      if (!player) return;
+      downloadFile(
+        `ancillia-recording-seed${player.recording.meta.seed}${RECORDING_EXTENSION}`,
+        recordingToBytes(player.recording),
+        'application/octet-stream'
+      );
+    },
+    load() {
+      recordingInput.click();
+    },
+    exit: exitReplay
+  }
+);
+
+// Permalinks (see ancillia-permalink.ts): H writes the view into the URL
+function currentView(): ViewState {
+  return {
+    scenario: scenarioFromConfig(dustSim.config, environment.id, currentMode, scenarioName),
+    toggles: simToggles(dustSim.config),
+    seed: dustSim.seed,
+    time: dustSim.time,
+    paused,
+    camera: {
+      position: camera.position.toArray(),
+      target: controls.target.toArray()
+    },
+    spin: arrayGroup.rotation.y,
+    overlays: visibleOverlays(),
+    coloring: dustColors.coloring
+  };
+}
+
+function restoreView(view: ViewState) {
+  loadScenario(view.scenario);
+  dustSim.config = applySimToggles(dustSim.config, view.toggles);
+  // the worker replays the deterministic run up to the linked time
+  resetRun(view.seed, view.time);
+
+  paused = view.paused;
+  sendSimCommand(simHost, { type: 'pause', paused });
+  camera.position.fromArray(view.camera.position);
+  controls.target.fromArray(view.camera.target);
+  controls.update();
+  arrayGroup.rotation.y = view.spin;
+  for (const id of OVERLAYS) setOverlayVisible(id, view.overlays.includes(id));
+  setDustColoring(dustColors, view.coloring);
+}
+
+function restoreFromHash() {
+  try {
+    const view = decodePermalink(window.location.hash);
+    if (!view) return;
+    restoreView(view);
+    if (simStatusEl) simStatusEl.textContent = `Restored view of "${scenarioName}"`;
+  } catch (error) {
+    if (simStatusEl) simStatusEl.textContent = `Could not open link: ${error.message}`;
+  }
+  statusTimer = 4;
+}
+
+window.addEventListener('hashchange', restoreFromHash);
 window.addEventListener('keydown', (event) => {
+  if (event.key.toLowerCase() === 'i') {
+    const { integrator } = dustSim.config;
+    const next =
+      INTEGRATOR_SCHEMES[
+        (INTEGRATOR_SCHEMES.indexOf(integrator.scheme) + 1) %
+          INTEGRATOR_SCHEMES.length
+      ];
+    dustSim.config.integrator = { ...integrator, scheme: next };
+  }
+  if (event.key.toLowerCase() === 'l') {
+    const { electrodes } = dustSim.config;
+    const layout =
+      ELECTRODE_LAYOUTS[
+        (ELECTRODE_LAYOUTS.indexOf(electrodes.layout) + 1) %
+          ELECTRODE_LAYOUTS.length
+      ];
+    dustSim.config.electrodes = {
+      ...electrodes,
+      layout,
+      count: DEFAULT_ELECTRODE_COUNTS[layout]
+    };
+    // a comb can't carry every phase count; fall back to one it can
+    const wired = layoutPhaseCounts(layout);
+    const { drive } = dustSim.config;
+    if (!wired.includes(drive.phases)) dustSim.config.drive = { ...drive, phases: wired[0] };
+    configureElectrodes(dustSim);
+    electrodeLanes = replaceElectrodeLanes(
+      module,
+      electrodeLanes,
+      dustSim.layout,
+      dustSim.config.geometry
+    );
+    syncModuleArray();
+  }
+  if (event.key.toLowerCase() === 'w') {
+    const { drive } = dustSim.config;
+    const waveform =
+      DRIVE_WAVEFORMS[
+        (DRIVE_WAVEFORMS.indexOf(drive.waveform) + 1) % DRIVE_WAVEFORMS.length
+      ];
+    dustSim.config.drive = { ...drive, waveform };
+  }
+  if (event.key.toLowerCase() === 'p') {
+    const { drive, electrodes } = dustSim.config;
+    const wired = layoutPhaseCounts(electrodes.layout);
+    const phases = wired[(wired.indexOf(drive.phases) + 1) % wired.length];
+    dustSim.config.drive = { ...drive, phases };
+    configureElectrodes(dustSim);
+    electrodeLanes = replaceElectrodeLanes(
+      module,
+      electrodeLanes,
+      dustSim.layout,
+      dustSim.config.geometry
+    );
+    syncModuleArray();
+  }
+  if (event.key.toLowerCase() === 'v') {
+    const { drive } = dustSim.config;
+    dustSim.config.drive = {
+      ...drive,
+      direction: drive.direction === 'forward' ? 'reverse' : 'forward'
+    };
+  }
+  if (event.key.toLowerCase() === 'b') {
+    const { drive } = dustSim.config;
+    dustSim.config.drive = {
+      ...drive,
+      burst: { ...drive.burst, enabled: !drive.burst.enabled }
+    };
+  }
+  if (event.key.toLowerCase() === 'c') {
+    const { interactions } = dustSim.config;
+    const enabled = !interactions.coulomb;
+    dustSim.config.interactions = { ...interactions, coulomb: enabled, cohesion: enabled };
+  }
+  if (event.key.toLowerCase() === 'e') {
+    const id = ENVIRONMENTS[(ENVIRONMENTS.indexOf(environment.id) + 1) % ENVIRONMENTS.length];
+    environment = ENVIRONMENT_PRESETS[id];
+    dustSim.config = applyEnvironment(dustSim.config, environment);
+    applyLighting(renderer, scene, lights, environment.lighting);
+  }
+  if (event.key.toLowerCase() === 'x') {
+    downloadFile(
+      `ancillia-metrics-seed${dustSim.seed}.csv`,
+      metricsToCSV(dustSim.metrics),
+      'text/csv'
+    );
+  }
+  if (event.key.toLowerCase() === 'j') {
+    const run = {
+      seed: dustSim.seed,
+      environment: environment.id,
+      simTime: dustSim.time,
+      config: dustSim.config
+    };
+    downloadFile(
+      `ancillia-metrics-seed${dustSim.seed}.json`,
+      metricsToJSON(dustSim.metrics, run),
+      'application/json'
+    );
+  }
+  if (event.key.toLowerCase() === 'r') {
+    resetRun();
+  }
+  if (event.key.toLowerCase() === 'u') {
+    const { simulant } = dustSim.config.dust;
+    const id = SIMULANTS[(SIMULANTS.indexOf(simulant) + 1) % SIMULANTS.length];
+    dustSim.config = applySimulant(dustSim.config, SIMULANT_PRESETS[id]);
+    resetRun();
+  }
+  if (event.key.toLowerCase() === 'z' && !player) {
+    const { particleCount } = dustSim.config;
+    dustSim.config.particleCount =
+      DUST_COUNTS[(DUST_COUNTS.indexOf(particleCount) + 1) % DUST_COUNTS.length];
+    resetRun();
+    ensureDustField(dustSim.state.count);
+  }
+  if (event.key.toLowerCase() === 'y') {
+    const { dust } = dustSim.config;
+    dustSim.config.dust = { ...dust, species: dust.species.length ? [] : MARS_DUST_MIX };
+    resetRun();
+  }
+  if (event.key.toLowerCase() === 'k') {
+    distributionInput.click();
+  }
+  if (event.key.toLowerCase() === 'o') {
+    optimizationInput.click();
+  }
+  if (event.key.toLowerCase() === 'n') {
+    const scenario = scenarioFromConfig(
+      dustSim.config,
+      environment.id,
+      currentMode,
+      scenarioName
+    );
+    downloadFile('ancillia-scenario.json', scenarioToJSON(scenario), 'application/json');
+  }
+  if (event.key.toLowerCase() === 'g') {
+    // restart so the source begins from a partly clean panel
+    const { deposition } = dustSim.config;
+    dustSim.config.deposition = { ...deposition, enabled: !deposition.enabled };
+    resetRun();
+  }
+  if (event.key.toLowerCase() === 's' && dustSim.config.deposition.enabled) {
+    sendSimCommand(simHost, { type: 'storm' });
+  }
+  if (event.key.toLowerCase() === 'a') {
+    const { atmosphere } = dustSim.config;
+    const id = ATMOSPHERES[(ATMOSPHERES.indexOf(atmosphere.id) + 1) % ATMOSPHERES.length];
+    dustSim.config.atmosphere = ATMOSPHERE_PRESETS[id];
+  }
+  if (event.key.toLowerCase() === 'd') {
+    const { adhesion } = dustSim.config;
+    const model =
+      ADHESION_MODELS[(ADHESION_MODELS.indexOf(adhesion.model) + 1) % ADHESION_MODELS.length];
+    dustSim.config.adhesion = { ...adhesion, model };
+  }
+  if (event.key.toLowerCase() === 't') {
+    const { charging } = dustSim.config;
+    dustSim.config.charging = { ...charging, enabled: !charging.enabled };
+  }
+  if (event.key.toLowerCase() === 'm') {
+    const { charging } = dustSim.config;
+    const cover =
+      COVER_MATERIALS[(COVER_MATERIALS.indexOf(charging.cover) + 1) % COVER_MATERIALS.length];
+    dustSim.config.charging = { ...charging, cover };
+  }
+  if (event.key.toLowerCase() === 'f') {
+    const { field } = dustSim.config;
+    dustSim.config.field = {
+      ...field,
+      model: field.model === 'analytic' ? 'solver' : 'analytic'
+    };
+  }
+  if (event.key.toLowerCase() === 'h') {
+    // replaceState: writing the hash must not fire our own hashchange restore
+    window.history.replaceState(null, '', encodePermalink(currentView()));
+    navigator.clipboard?.writeText(window.location.href).catch(() => {});
+    if (simStatusEl) simStatusEl.textContent = 'Permalink to this view is in the address bar';
+    statusTimer = 3;
+  }
+  if (event.key === ' ') {
+    event.preventDefault(); // don't click the focused timeline button too
+    if (player) togglePlayback(player);
+    else {
+      paused = !paused;
+      sendSimCommand(simHost, { type: 'pause', paused });
+    }
+  }
+  if (event.key.toLowerCase() === 'q') {
+    if (recording) {
+      stopRecording();
+    } else {
+      exitReplay();
+      recording = createRecording(dustSim.state.count, {
+        seed: dustSim.seed,
+        scenario: scenarioFromConfig(dustSim.config, environment.id, currentMode, scenarioName)
+      });
+    }
+  }
+  if (player && (event.key === ',' || event.key === '.')) {
+    stepPlayer(player, event.key === ',' ? -1 : 1);
+  }
+  if (event.key === 'Escape' && player) {
+    exitReplay();
+  }
+  if (event.key >= '3' && event.key <= '7') {
+    const id = OVERLAYS[Number(event.key) - 3];
+    setOverlayVisible(id, !visibleOverlays().includes(id));
+  }
+  if (event.key === '0') {
+    setOverlayVisible('array-editor', !visibleOverlays().includes('array-editor'));
+  }
+  if (event.key === '9') {
+    const next = (DUST_COLORINGS.indexOf(dustColors.coloring) + 1) % DUST_COLORINGS.length;
+    setDustColoring(dustColors, DUST_COLORINGS[next]);
+    if (drawnFrame) updateDustColors(dustColors, dustSim, drawnFrame, !player);
+    if (simStatusEl) {
+      simStatusEl.textContent = `Dust coloured by ${describeDustColoring(dustColors.coloring)}`;
+    }
+    statusTimer = 2;
+  }
+  if (event.key === '8') {
+    const next = (SLICE_QUANTITIES.indexOf(fieldOverlays.quantity) + 1) % SLICE_QUANTITIES.length;
+    fieldOverlays.quantity = SLICE_QUANTITIES[next];
+    if (simStatusEl) {
+      simStatusEl.textContent =
+        fieldOverlays.quantity === 'potential' ? 'Slice shows potential' : 'Slice shows |E|';
+    }
+    statusTimer = 2;
+  }
   if (event.key === '1' && currentMode !== 'concept') {
     currentMode = 'concept';
     applyMode('concept', materials, modeStatusEl);
@@ -1323,19 +2355,74 @@ window.addEventListener('keydown', (event) => {
     currentMode = 'blueprint';
     applyMode('blueprint', materials, modeStatusEl);
   }
+  // A run is its seed plus one config, so a changed setting restarts it:
+  // that way a permalink's seed, time and config reopen exactly this run
+  if (!simHostRuns(simHost, dustSim.config)) resetRun();
 });
 
 const clock = new THREE.Clock();
+let statusTimer = 0;
 
 function animate() {
   const delta = clock.getDelta();
-  const elapsed = clock.elapsedTime;
 
-  // Module animation
-  module.rotation.y += delta * 0.16;
+  if (player) {
+    // Replay: the recording drives the meshes; the live run waits
+    advancePlayer(player, delta);
+    updateTimeline(timeline);
+    drawnFrame = playerFrame(player);
+    syncDustMeshes(
+      dust,
+      drawnFrame,
+      player.recording.meta.scenario.dust.species,
+      fillDustColors(dustColors, dustSim, drawnFrame, false)
+    );
+    updateFieldOverlays(fieldOverlays, dustSim, drawnFrame.time);
+  } else {
+    if (!paused) {
+      // Module animation
+      arrayGroup.rotation.y += delta * 0.16;
+    }
 
-  // Dust physics
-  stepDust(dust, delta, elapsed);
+    // Dust physics runs in the worker; draw its snapshots (the mirror
+    // until the first one of a run arrives)
+    const frame = simHostFrame(simHost);
+    if (recording && simHost.latest && !captureFrame(recording, simHost.latest.frame)) {
+      stopRecording(
+        recording.count === dustSim.state.count ? 'memory budget full' : 'particle count changed'
+      );
+    }
+    syncDustMeshes(
+      dust,
+      frame ?? dustSim.state,
+      dustSim.config.dust.species,
+      frame && fillDustColors(dustColors, dustSim, frame, true)
+    );
+    // the field at the drawn frame's time, so the overlays move with the dust
+    updateFieldOverlays(fieldOverlays, dustSim, frame?.time ?? dustSim.time);
+    drawnFrame = frame;
+  }
+
+  if (drawnFrame && inspector.grains.length) {
+    const { position, status } = drawnFrame;
+    for (const [i, trail] of grainTrails) {
+      if (i >= status.length || status[i] === DustStatus.Inactive) continue;
+      pushGrainTrail(trail, position[i * 3], position[i * 3 + 1], position[i * 3 + 2]);
+    }
+    updateInspector(inspector, dustSim, drawnFrame, !player);
+  }
+
+  statusTimer -= delta;
+  if (simStatusEl && statusTimer <= 0) {
+    simStatusEl.textContent = describeSimStatus(dustSim, environment);
+    statusTimer = 0.5;
+    if (metricsStatusEl) metricsStatusEl.textContent = describeMetrics(dustSim);
+    if (chargeWaterfall) updateChargeWaterfall(chargeWaterfall, dustSim);
+    if (coverageView) updateCoverageView(coverageView, dustSim);
+    if (drawnFrame) updateDustColors(dustColors, dustSim, drawnFrame, !player);
+    updateDockingLights(dockingLights, dustSim.array, dustSim.metrics);
+    drawArrayStatus();
+  }
 
   controls.update();
   renderer.render(scene, camera);
@@ -1354,6 +2441,10 @@ const handleResize = () => {
 window.addEventListener('resize', handleResize);
 
 //  ADD ENHANCEMENTS HERE (correct placement inside function)
-enhanceAncilliaDevice(scene, module, materials);
+enhanceAncilliaDevice(scene, module, materials, hexRadius(dustSim.config.geometry));
+syncModuleArray();
+
+// Opened from a permalink: restore that view
+restoreFromHash();
 
 }
\ No newline at end of file
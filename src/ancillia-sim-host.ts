@@ -0,0 +1,191 @@
+// ─────────────────────────────────────────────────────────────
+// Sim worker host (page side)
+//
+// Starts the sim worker, sends it commands and keeps the last two
+// snapshots it published. Each render frame draws a blend of the two:
+// the older one when the newer arrives, reaching the newer one a
+// worker tick later. Rendering lags the physics by one tick, but the
+// motion stays smooth whatever the worker's rate.
+// ─────────────────────────────────────────────────────────────
+
+import type { DustFrame } from './ancillia-recording';
+import type { DustSimConfig, DustSimulation } from './ancillia-sim';
+import {
+  copyShared,
+  readSnapshot,
+  SimCommand,
+  SimEvent,
+  SimReport,
+  Snapshot,
+  snapshotBytes,
+  wallClock
+} from './ancillia-snapshot';
+
+export type SimHost = {
+  worker: Worker;
+  run: number;
+  config: string; // JSON of the config the worker runs
+  count: number;  // particles per snapshot in this run
+  shared: SharedArrayBuffer | null; // null: snapshots are transferred
+  sequence: number; // last shared snapshot copied
+  spare: ArrayBuffer[]; // local snapshot copies to reuse (shared mode)
+  previous: Snapshot | null;
+  latest: Snapshot | null;
+  blend: DustFrame | null; // what simHostFrame() returns between snapshots
+  onReport: (report: SimReport) => void;
+};
+
+export function createSimHost(onReport: (report: SimReport) => void): SimHost {
+  const worker = new Worker(new URL('./ancillia-sim-worker.ts', import.meta.url), {
+    type: 'module'
+  });
+  const host: SimHost = {
+    worker,
+    run: 0,
+    config: '',
+    count: 0,
+    shared: null,
+    sequence: 0,
+    spare: [],
+    previous: null,
+    latest: null,
+    blend: null,
+    onReport
+  };
+  worker.addEventListener('message', (event: MessageEvent<SimEvent>) => receive(host, event.data));
+  return host;
+}
+
+export function sendSimCommand(host: SimHost, command: SimCommand, transfer: Transferable[] = []) {
+  host.worker.postMessage(command, transfer);
+}
+
+/** Restart the worker's run; snapshots and reports from before are dropped. */
+export function resetSimHost(host: SimHost, config: DustSimConfig, seed: number, replayTo = 0) {
+  host.run++;
+  host.config = JSON.stringify(config);
+  host.count = config.particleCount;
+  host.shared = null;
+  host.sequence = 0;
+  host.spare = [];
+  host.previous = null;
+  host.latest = null;
+  sendSimCommand(host, {
+    type: 'reset',
+    run: host.run,
+    seed,
+    config,
+    replayTo
+  });
+}
+
+/** Whether the worker's run uses `config` (it was last reset with it). */
+export function simHostRuns(host: SimHost, config: DustSimConfig) {
+  return JSON.stringify(config) === host.config;
+}
+
+function receive(host: SimHost, event: SimEvent) {
+  if (event.run !== host.run) return; // from before the last reset
+  switch (event.type) {
+    case 'buffers':
+      host.shared = event.buffer;
+      host.count = event.count;
+      break;
+    case 'snapshot':
+      host.count = event.count;
+      accept(host, readSnapshot(event.buffer, event.count));
+      break;
+    case 'report':
+      host.onReport(event.report);
+      break;
+  }
+}
+
+function accept(host: SimHost, snapshot: Snapshot) {
+  const done = host.previous;
+  host.previous = host.latest;
+  host.latest = snapshot;
+  if (!done) return;
+  if (host.shared) host.spare.push(done.buffer);
+  else sendSimCommand(host, { type: 'recycle', buffer: done.buffer }, [done.buffer]);
+}
+
+/**
+ * Bring the page's mirror of the run up to date with a report. The
+ * grains' motion and status come from the latest snapshot, the rest of
+ * their properties from the report; new metrics samples are appended
+ * to the mirror's history.
+ */
+export function applySimReport(host: SimHost, sim: DustSimulation, report: SimReport) {
+  const { state, metrics, samples, samplesFrom, ...run } = report;
+  Object.assign(sim, run);
+
+  const history = sim.metrics.samples;
+  history.length = Math.min(samplesFrom, history.length);
+  history.push(...samples);
+  sim.metrics = { ...metrics, origin: sim.metrics.origin, samples: history };
+
+  if (state.count !== sim.state.count) return;
+  Object.assign(sim.state, state);
+  pollShared(host);
+  const frame = host.latest?.frame;
+  if (!frame) return;
+  sim.state.position.set(frame.position);
+  sim.state.velocity.set(frame.velocity);
+  sim.state.members.set(frame.members);
+  sim.state.status.set(frame.status);
+  sim.state.species.set(frame.species);
+}
+
+function pollShared(host: SimHost) {
+  const { shared, count } = host;
+  if (!shared) return;
+  const into = host.spare.pop() ?? new ArrayBuffer(snapshotBytes(count));
+  const sequence = copyShared(shared, count, host.sequence, into);
+  if (sequence === null) {
+    host.spare.push(into);
+    return;
+  }
+  host.sequence = sequence;
+  accept(host, readSnapshot(into, count));
+}
+
+/**
+ * The particles to draw now, or null before the worker's first
+ * snapshot of this run. Positions are blended between the last two
+ * snapshots; grains that changed status in between jump.
+ */
+export function simHostFrame(host: SimHost): DustFrame | null {
+  pollShared(host);
+  const { previous, latest } = host;
+  if (!latest) return null;
+  if (!previous || latest.wall <= previous.wall) return latest.frame;
+
+  const alpha = Math.min(
+    Math.max((wallClock() - latest.wall) / (latest.wall - previous.wall), 0),
+    1
+  );
+  const from = previous.frame;
+  const to = latest.frame;
+  let blend = host.blend;
+  if (!blend || blend.position.length !== to.position.length) {
+    blend = { ...to, position: new Float32Array(to.position.length) };
+    host.blend = blend;
+  }
+  blend.time = from.time + (to.time - from.time) * alpha;
+  blend.velocity = to.velocity;
+  blend.status = to.status;
+  blend.species = to.species;
+  blend.members = to.members;
+
+  const { position } = blend;
+  for (let i = 0; i < to.status.length; i++) {
+    const steady = from.status[i] === to.status[i];
+    for (let k = i * 3; k < i * 3 + 3; k++) {
+      position[k] = steady
+        ? from.position[k] + (to.position[k] - from.position[k]) * alpha
+        : to.position[k];
+    }
+  }
+  return blend;
+}
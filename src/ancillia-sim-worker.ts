@@ -0,0 +1,212 @@
+// ─────────────────────────────────────────────────────────────
+// Sim worker
+//
+// Owns the viewer's dust simulation and advances it at its own fixed
+// tick, so a heavy model (field solver, grain interactions) no longer
+// stalls orbiting or the UI. It takes SimCommands from the page, and
+// after every tick that stepped it publishes a snapshot. Every
+// REPORT_MS it also sends a report (see ancillia-snapshot.ts).
+// ─────────────────────────────────────────────────────────────
+
+import type { FieldSolution } from './ancillia-field-solver';
+import {
+  advanceDustSimulation,
+  configureArray,
+  configureElectrodes,
+  createDustSimulation,
+  DustSimConfig,
+  DustSimulation,
+  DustState,
+  dustStepSize,
+  resetDustSimulation,
+  stepDustSimulation,
+  triggerDustStorm
+} from './ancillia-sim';
+import {
+  MAX_REPLAY_STEPS,
+  publishShared,
+  ReportedState,
+  SimCommand,
+  SimEvent,
+  sharedSnapshotBytes,
+  snapshotBytes,
+  writeSnapshot
+} from './ancillia-snapshot';
+
+const TICK_MS = 1000 / 60; // also the physics budget per tick
+const REPORT_MS = 250;
+const METRICS_HISTORY = 2400; // samples kept: 10 min at 0.25 s, then thinned
+
+let sim: DustSimulation | null = null;
+let run = 0;
+let paused = false;
+let layoutKey = '';
+let arrayKey = '';
+let shared: SharedArrayBuffer | null = null;
+let reportedSolution: FieldSolution | null | undefined; // undefined: resend
+let reportedSamples = 0;  // metrics samples the page has
+let reportedInterval = 0; // their sample interval (0: resend all)
+const spare: ArrayBuffer[] = []; // transferred snapshots the page handed back
+
+function post(event: SimEvent, transfer: Transferable[] = []) {
+  self.postMessage(event, { transfer });
+}
+
+// the electrode layout (and a solved field) depends only on these
+function layoutOf(config: DustSimConfig) {
+  return JSON.stringify([
+    config.geometry,
+    config.electrodes,
+    config.drive.phases,
+    config.field.solver
+  ]);
+}
+
+// the module array depends on the tiling and the module size
+function arrayOf(config: DustSimConfig) {
+  return JSON.stringify([config.geometry, config.array]);
+}
+
+function configure(current: DustSimulation, config: DustSimConfig) {
+  current.config = config;
+  const key = layoutOf(config);
+  if (key !== layoutKey) {
+    layoutKey = key;
+    configureElectrodes(current);
+  }
+  const tiling = arrayOf(config);
+  if (tiling !== arrayKey) {
+    arrayKey = tiling;
+    configureArray(current);
+  }
+}
+
+function reset(command: Extract<SimCommand, { type: 'reset' }>) {
+  run = command.run;
+  if (sim) {
+    configure(sim, command.config);
+    resetDustSimulation(sim, command.seed);
+  } else {
+    sim = createDustSimulation(command.config, command.seed, METRICS_HISTORY);
+    layoutKey = layoutOf(command.config);
+    arrayKey = arrayOf(command.config);
+  }
+
+  const h = dustStepSize(sim.config);
+  const steps = Math.min(Math.round(command.replayTo / h), MAX_REPLAY_STEPS);
+  for (let k = 0; k < steps; k++) stepDustSimulation(sim, h);
+
+  // fresh buffers: nothing from the last run can be read as this one's
+  spare.length = 0;
+  reportedSolution = undefined;
+  reportedInterval = 0;
+  shared = null;
+  if (crossOriginIsolated) {
+    shared = new SharedArrayBuffer(sharedSnapshotBytes(sim.state.count));
+    post({ type: 'buffers', run, count: sim.state.count, buffer: shared });
+  }
+  publish(sim);
+  report(sim);
+}
+
+function publish(current: DustSimulation) {
+  if (shared) {
+    publishShared(shared, current);
+    return;
+  }
+  const { count } = current.state;
+  const buffer = spare.pop() ?? new ArrayBuffer(snapshotBytes(count));
+  writeSnapshot(buffer, 0, current);
+  post({ type: 'snapshot', run, count, buffer }, [buffer]);
+}
+
+// Copies of the per-grain arrays snapshots leave out, to hand over
+function reportedState(state: DustState): ReportedState {
+  return {
+    count: state.count,
+    radius: state.radius.slice(),
+    mass: state.mass.slice(),
+    charge: state.charge.slice(),
+    adhesion: state.adhesion.slice(),
+    collectTimer: state.collectTimer.slice(),
+    force: state.force.slice(),
+    liftoff: state.liftoff.slice(),
+    module: state.module.slice()
+  };
+}
+
+function report(current: DustSimulation) {
+  const { seed, time, stepCount, energy, deposition, fieldSolution } = current;
+  const { origin, samples, ...metrics } = current.metrics;
+  // thinning rewrote the history the page has: send all of it again
+  if (metrics.sampleInterval !== reportedInterval) reportedSamples = 0;
+  const samplesFrom = reportedSamples;
+  reportedSamples = samples.length;
+  reportedInterval = metrics.sampleInterval;
+
+  const state = reportedState(current.state);
+  const transfer = Object.values(state).flatMap((value) =>
+    ArrayBuffer.isView(value) ? [value.buffer as ArrayBuffer] : []
+  );
+  const solved = fieldSolution === reportedSolution ? {} : { fieldSolution };
+  reportedSolution = fieldSolution;
+  post(
+    {
+      type: 'report',
+      run,
+      report: {
+        seed,
+        time,
+        stepCount,
+        energy,
+        deposition,
+        state,
+        metrics,
+        samples: samples.slice(samplesFrom),
+        samplesFrom,
+        ...solved
+      }
+    },
+    transfer
+  );
+}
+
+self.addEventListener('message', (event: MessageEvent<SimCommand>) => {
+  const command = event.data;
+  switch (command.type) {
+    case 'reset':
+      reset(command);
+      break;
+    case 'pause':
+      paused = command.paused;
+      if (sim && paused) report(sim); // the page's view of the run is this moment
+      break;
+    case 'storm':
+      if (sim) triggerDustStorm(sim);
+      break;
+    case 'recycle':
+      if (sim && command.buffer.byteLength === snapshotBytes(sim.state.count)) {
+        spare.push(command.buffer);
+      }
+      break;
+  }
+});
+
+let lastTick = performance.now();
+let lastReport = lastTick;
+
+function tick() {
+  const now = performance.now();
+  if (sim && !paused) {
+    const steps = advanceDustSimulation(sim, (now - lastTick) / 1000, TICK_MS);
+    if (steps > 0) publish(sim);
+    if (now - lastReport >= REPORT_MS) {
+      report(sim);
+      lastReport = now;
+    }
+  }
+  lastTick = now;
+  setTimeout(tick, Math.max(TICK_MS - (performance.now() - now), 0));
+}
+
+tick();
@@ -0,0 +1,1366 @@
+// ─────────────────────────────────────────────────────────────
+// Headless dust simulation core
+//
+// Pure data + math: no Three.js, no DOM. Particle state lives in
+// typed arrays and all randomness comes from a seeded PRNG, so the
+// same seed and config always give the same trajectories.
+// ─────────────────────────────────────────────────────────────
+
+import {
+  DEFAULT_MODULE_GEOMETRY,
+  hexApothem,
+  hexRadius,
+  hexSideAt,
+  isInsideHex,
+  ModuleGeometry,
+  panelSurfaceY
+} from './ancillia-geometry';
+import {
+  buildModuleArray,
+  DEFAULT_ARRAY_CONFIG,
+  edgeLabel,
+  cellLabel,
+  ModuleArray,
+  ModuleArrayConfig,
+  nearestModule,
+  sharedSide
+} from './ancillia-array';
+import {
+  AdhesionConfig,
+  adhesionForce,
+  DEFAULT_ADHESION_CONFIG
+} from './ancillia-adhesion';
+import {
+  AtmosphereConfig,
+  ATMOSPHERE_PRESETS,
+  dragRate,
+  gasProperties,
+  GasProperties
+} from './ancillia-atmosphere';
+import {
+  ChargingConfig,
+  coverContactCharge,
+  DEFAULT_CHARGING_CONFIG,
+  grainContactTransfer
+} from './ancillia-charging';
+import {
+  createDepositionState,
+  DEFAULT_DEPOSITION_CONFIG,
+  DepositionConfig,
+  DepositionState,
+  depositionRate,
+  isStormActive
+} from './ancillia-deposition';
+import {
+  DEFAULT_DRIVE_CONFIG,
+  DriveConfig,
+  drivePhaseVoltages,
+  isDriveActive
+} from './ancillia-drive';
+import {
+  buildElectrodeLayout,
+  createLaneSample,
+  DEFAULT_ELECTRODE_CONFIG,
+  ElectrodeLayout,
+  ElectrodeLayoutConfig
+} from './ancillia-electrodes';
+import {
+  DEFAULT_FIELD_SOLVER_CONFIG,
+  FieldSolution,
+  FieldSolverConfig,
+  sampleSolvedField,
+  sampleSolvedPotential,
+  solveElectrodeField
+} from './ancillia-field-solver';
+import {
+  AccelerationFn,
+  checkStability,
+  DEFAULT_INTEGRATOR_CONFIG,
+  integrate,
+  IntegratorConfig,
+  StabilityReport
+} from './ancillia-integrator';
+import {
+  buildCellList,
+  CellList,
+  computeCoulombForces,
+  createCellList,
+  DEFAULT_INTERACTION_CONFIG,
+  fieldStress,
+  forEachContact,
+  InteractionConfig,
+  mergeCollidingGrains,
+  splitAgglomerate
+} from './ancillia-interactions';
+import {
+  ChargeDistribution,
+  createTableSampler,
+  MICROCOULOMB_PER_GRAM,
+  normalQuantile,
+  sampleTable,
+  SimulantId,
+  SizeDistribution,
+  sizeSampler,
+  TableSampler
+} from './ancillia-psd';
+import {
+  DustSpecies,
+  meanSpeciesDensity,
+  pickSpecies,
+  speciesAdhesion,
+  speciesCharging,
+  speciesNumberCDF
+} from './ancillia-species';
+import {
+  beginRun,
+  createRunMetrics,
+  RunMetrics,
+  sampleRunMetrics
+} from './ancillia-metrics';
+import { createRng, Rng } from './ancillia-rng';
+
+// ─────────────────────────────────────────────────────────────
+// Config
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * `analytic`: lane-voltage / pitch estimate with tuned gains (+ DC base + drift).
+ * `solver`: numerical Laplace solve over the real lanes and dielectric stack.
+ */
+export type FieldModel = 'analytic' | 'solver';
+
+/**
+ * `constant`: one fixed rate (`dragCoeff`) for every grain, as in the original demo.
+ * `physical`: Stokes–Cunningham / Epstein drag from the atmosphere and grain size.
+ */
+export type DragModel = 'constant' | 'physical';
+
+export type DustSimConfig = {
+  particleCount: number;
+  dust: {
+    radiusMin: number;      // m
+    radiusMax: number;      // m
+    radiusExponent: number; // bias toward fine grains
+    density: number;        // kg/m^3
+    chargeMin: number;      // C
+    chargeMax: number;      // C
+    simulant: SimulantId | 'custom';
+    size: SizeDistribution;     // `power` uses radiusMin/Max/Exponent
+    charge: ChargeDistribution; // `uniform` uses chargeMin/Max
+    species: DustSpecies[];     // mineral mix; empty = one species from the fields above
+  };
+  field: {
+    model: FieldModel;
+    base: number;         // V/m DC vertical lift
+    verticalGain: number; // E_y ≈ gain · V_lane / pitch
+    lateralGain: number;  // E_travel ≈ gain · ΔV / (2 · pitch)
+    drift: [number, number, number]; // V/m constant bias
+    heightDecay: boolean; // electrode terms fade with height above the panel
+    solver: FieldSolverConfig;
+  };
+  electrodes: ElectrodeLayoutConfig;
+  drive: DriveConfig;
+  gravity: number;   // m/s^2
+  dragModel: DragModel;
+  dragCoeff: number; // 1/s, `constant` model only
+  atmosphere: AtmosphereConfig;
+  spawn: {
+    scale: number;       // fraction of the hex used for spawning
+    heightJitter: number; // m above the panel
+    speed: number;       // m/s initial horizontal jitter
+  };
+  bounce: {
+    restitution: number; // vertical
+    friction: number;    // horizontal retention
+  };
+  collectHoldTime: number; // s a collected grain stays visible
+  boundsScale: number;
+  maxHeight: number;
+  integrator: IntegratorConfig;
+  adhesion: AdhesionConfig;
+  interactions: InteractionConfig;
+  charging: ChargingConfig;
+  deposition: DepositionConfig;
+  geometry: ModuleGeometry; // module size and layer stack
+  array: ModuleArrayConfig; // docked modules; one by default
+};
+
+// Grains past the trench's outer lip by this factor count as escaped
+export const ESCAPE_MARGIN = 1.08;
+
+export const DEFAULT_DUST_SIM_CONFIG: DustSimConfig = {
+  particleCount: 260,
+  dust: {
+    radiusMin: 8e-6,
+    radiusMax: 38e-6,
+    radiusExponent: 1.8,
+    density: 3100, // basaltic simulant
+    chargeMin: 2e-15,
+    chargeMax: 9e-14,
+    simulant: 'legacy',
+    size: { kind: 'power' },
+    charge: { kind: 'uniform' },
+    species: []
+  },
+  field: {
+    model: 'analytic',
+    base: 1.2e5,
+    verticalGain: 1,
+    lateralGain: 0.55,
+    drift: [0.15, 0, -0.08],
+    heightDecay: true,
+    solver: DEFAULT_FIELD_SOLVER_CONFIG
+  },
+  electrodes: DEFAULT_ELECTRODE_CONFIG,
+  drive: DEFAULT_DRIVE_CONFIG,
+  gravity: 3.71, // Mars
+  dragModel: 'physical',
+  dragCoeff: 0.45,
+  atmosphere: ATMOSPHERE_PRESETS.mars,
+  spawn: {
+    scale: 0.88,
+    heightJitter: 0.02,
+    speed: 0.01
+  },
+  bounce: {
+    restitution: 0.22,
+    friction: 0.92
+  },
+  collectHoldTime: 1.2,
+  boundsScale: DEFAULT_MODULE_GEOMETRY.trenchOuterScale * ESCAPE_MARGIN,
+  maxHeight: 2.5,
+  integrator: DEFAULT_INTEGRATOR_CONFIG,
+  adhesion: DEFAULT_ADHESION_CONFIG,
+  interactions: DEFAULT_INTERACTION_CONFIG,
+  charging: DEFAULT_CHARGING_CONFIG,
+  deposition: DEFAULT_DEPOSITION_CONFIG,
+  geometry: DEFAULT_MODULE_GEOMETRY,
+  array: DEFAULT_ARRAY_CONFIG
+};
+
+// ─────────────────────────────────────────────────────────────
+// State (structure of arrays)
+// ─────────────────────────────────────────────────────────────
+
+export const DustStatus = {
+  Attached: 0,
+  Airborne: 1,
+  Collected: 2,
+  Inactive: 3 // free slot (e.g. folded into an agglomerate)
+} as const;
+
+const METRIC_STATUS = {
+  attached: DustStatus.Attached,
+  airborne: DustStatus.Airborne,
+  collected: DustStatus.Collected
+};
+
+const ATTACHED_BIT = 1 << DustStatus.Attached;
+const AIRBORNE_BIT = 1 << DustStatus.Airborne;
+
+export type DustState = {
+  count: number;
+  position: Float64Array; // xyz interleaved
+  velocity: Float64Array; // xyz interleaved
+  radius: Float64Array;
+  mass: Float64Array;
+  charge: Float64Array;
+  adhesion: Float64Array;
+  status: Uint8Array;
+  collectTimer: Float64Array;
+  members: Uint16Array;   // primary grains in this agglomerate
+  force: Float64Array;    // xyz, inter-particle force held over a step
+  species: Uint8Array;    // index into config.dust.species (0 without a mix)
+  liftoff: Float64Array;  // sim time of the last liftoff (NaN: none since spawn)
+  module: Uint16Array;    // module the grain is over (index into config.array.cells)
+};
+
+/**
+ * Running energy balance over airborne grains. Mechanical energy change
+ * should equal the work done by the field and drag; whatever is left over
+ * is integration error.
+ */
+export type EnergyDiagnostics = {
+  kinetic: number;   // J, airborne grains at the last step
+  potential: number; // J, above the panel surface
+  fieldWork: number; // J, accumulated
+  dragWork: number;  // J, accumulated
+  residual: number;  // J, accumulated ΔE − W
+  relativeError: number; // |residual| / Σ|W|
+};
+
+export type DustSimulation = {
+  config: DustSimConfig;
+  seed: number;
+  rng: Rng;
+  time: number;
+  stepCount: number;
+  accumulator: number; // s of frame time not yet simulated
+  state: DustState;
+  energy: EnergyDiagnostics;
+  layout: ElectrodeLayout;
+  array: ModuleArray;
+  fieldSolution: FieldSolution | null; // built lazily for the solver model
+  cells: CellList;
+  deposition: DepositionState;
+  metrics: RunMetrics;
+  metricsHistory: number; // samples a run keeps (Infinity: all; see ancillia-metrics)
+  cache: SimCache;
+  accelerate: AccelerationFn; // dustAcceleration bound to this sim, for the integrator
+};
+
+/**
+ * Values derived from config objects, each rebuilt when the object it
+ * was made from is replaced. Kept per sim so runs side by side (a
+ * sweep, the viewer and its replay) never evict or read each other's.
+ */
+export type SimCache = {
+  sizeTableFor: SizeDistribution | null; // inverse-CDF tables
+  sizeTable: TableSampler | null;
+  chargeTableFor: ChargeDistribution | null;
+  chargeTable: TableSampler | null;
+  speciesParamsFor: [DustSpecies[], AdhesionConfig, ChargingConfig] | null;
+  speciesParams: SpeciesParams | null;
+  gasAtmosphere: AtmosphereConfig | null;
+  gas: GasProperties | null;
+  voltageDrive: DriveConfig | null; // phase voltages, shared by every grain at one time
+  voltageTime: number;
+  phaseVoltages: Float64Array;
+};
+
+export function createSimCache(): SimCache {
+  return {
+    sizeTableFor: null,
+    sizeTable: null,
+    chargeTableFor: null,
+    chargeTable: null,
+    speciesParamsFor: null,
+    speciesParams: null,
+    gasAtmosphere: null,
+    gas: null,
+    voltageDrive: null,
+    voltageTime: NaN,
+    phaseVoltages: new Float64Array(8)
+  };
+}
+
+function createEnergyDiagnostics(): EnergyDiagnostics {
+  return {
+    kinetic: 0,
+    potential: 0,
+    fieldWork: 0,
+    dragWork: 0,
+    residual: 0,
+    relativeError: 0
+  };
+}
+
+function createDustState(count: number): DustState {
+  return {
+    count,
+    position: new Float64Array(count * 3),
+    velocity: new Float64Array(count * 3),
+    radius: new Float64Array(count),
+    mass: new Float64Array(count),
+    charge: new Float64Array(count),
+    adhesion: new Float64Array(count),
+    status: new Uint8Array(count),
+    collectTimer: new Float64Array(count),
+    members: new Uint16Array(count),
+    force: new Float64Array(count * 3),
+    species: new Uint8Array(count),
+    liftoff: new Float64Array(count).fill(NaN),
+    module: new Uint16Array(count)
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Spawning
+// ─────────────────────────────────────────────────────────────
+
+function samplePointInHex(rng: Rng, radius: number, scale: number): [number, number] {
+  while (true) {
+    const x = (rng.next() * 2 - 1) * radius * scale;
+    const z = (rng.next() * 2 - 1) * radius * scale;
+    if (isInsideHex(x, z, radius * scale)) return [x, z];
+  }
+}
+
+/** Grain radius (m) at cumulative number fraction `u`. */
+export function radiusAtQuantile(
+  dust: DustSimConfig['dust'],
+  u: number,
+  cache: SimCache = createSimCache()
+) {
+  if (dust.size.kind === 'power') {
+    return (
+      dust.radiusMin +
+      (dust.radiusMax - dust.radiusMin) * Math.pow(u, dust.radiusExponent)
+    );
+  }
+  if (dust.size !== cache.sizeTableFor) {
+    cache.sizeTable = sizeSampler(dust.size);
+    cache.sizeTableFor = dust.size;
+  }
+  return sampleTable(cache.sizeTable!, u) * 0.5e-6; // µm diameter → m radius
+}
+
+/** Smallest grain the distribution can produce (sets the drag stiffness). */
+export function smallestRadius(dust: DustSimConfig['dust']) {
+  return dust.size.kind === 'power' ? dust.radiusMin : radiusAtQuantile(dust, 0);
+}
+
+function sampleRadius(sim: DustSimulation, dust: DustSimConfig['dust']) {
+  return radiusAtQuantile(dust, sim.rng.next(), sim.cache);
+}
+
+function sampleCharge(
+  sim: DustSimulation,
+  dust: DustSimConfig['dust'],
+  charge: ChargeDistribution,
+  mass: number
+) {
+  const { rng, cache } = sim;
+  switch (charge.kind) {
+    case 'uniform':
+      return rng.range(dust.chargeMin, dust.chargeMax);
+    case 'normal': {
+      const qm = charge.mean + charge.sd * normalQuantile(rng.next(), rng.next());
+      return qm * MICROCOULOMB_PER_GRAM * mass;
+    }
+    case 'table':
+      if (charge !== cache.chargeTableFor) {
+        cache.chargeTable = createTableSampler(charge.table, false);
+        cache.chargeTableFor = charge;
+      }
+      return sampleTable(cache.chargeTable!, rng.next()) * MICROCOULOMB_PER_GRAM * mass;
+  }
+}
+
+// Per-species parameters only change with the mix or the shared configs
+type SpeciesParams = {
+  cdf: Float64Array;
+  adhesion: AdhesionConfig[];
+  charging: ChargingConfig[];
+  workFunction: number[];
+};
+
+function speciesParamsOf(sim: DustSimulation): SpeciesParams {
+  const { config, cache } = sim;
+  const { species } = config.dust;
+  const key = cache.speciesParamsFor;
+  if (!key || key[0] !== species || key[1] !== config.adhesion || key[2] !== config.charging) {
+    cache.speciesParams = species.length
+      ? {
+          cdf: speciesNumberCDF(species),
+          adhesion: species.map((sp) => speciesAdhesion(config.adhesion, sp)),
+          charging: species.map((sp) => speciesCharging(config.charging, sp)),
+          workFunction: species.map((sp) => sp.workFunction)
+        }
+      : {
+          cdf: Float64Array.of(1),
+          adhesion: [config.adhesion],
+          charging: [config.charging],
+          workFunction: [config.charging.dustWorkFunction]
+        };
+    cache.speciesParamsFor = [species, config.adhesion, config.charging];
+  }
+  return cache.speciesParams!;
+}
+
+/** Species id per grain species code, for metrics and display. */
+export function speciesIds(dust: DustSimConfig['dust']) {
+  return dust.species.length ? dust.species.map((sp) => sp.id) : [dust.simulant];
+}
+
+/** Draw species, size, mass and charge for a fresh grain in slot `i`. */
+function sampleGrain(sim: DustSimulation, i: number) {
+  const { config, rng, state } = sim;
+  const { dust } = config;
+
+  // legacy runs (no mix) draw nothing extra, so their trajectories are unchanged
+  let species = 0;
+  if (dust.species.length) species = pickSpecies(speciesParamsOf(sim).cdf, rng.next());
+  const mix = dust.species[species];
+
+  const radius = sampleRadius(sim, dust);
+  const volume = (4 / 3) * Math.PI * Math.pow(radius, 3);
+
+  state.species[i] = species;
+  state.radius[i] = radius;
+  state.mass[i] = volume * (mix ? mix.density : dust.density);
+  state.charge[i] = sampleCharge(sim, dust, mix ? mix.charge : dust.charge, state.mass[i]);
+  refreshAdhesion(sim, i);
+  state.collectTimer[i] = 0;
+  state.liftoff[i] = NaN;
+  state.members[i] = 1;
+  state.force[i * 3] = state.force[i * 3 + 1] = state.force[i * 3 + 2] = 0;
+}
+
+/** Recompute a grain's pull-off force from its current radius and charge. */
+function refreshAdhesion(sim: DustSimulation, i: number) {
+  const { config, state } = sim;
+  state.adhesion[i] = adhesionForce(
+    speciesParamsOf(sim).adhesion[state.species[i]],
+    state.radius[i],
+    state.charge[i],
+    config.field.solver.coverPermittivity
+  );
+}
+
+// Module a new grain lands on; a single module draws nothing, so legacy runs are unchanged
+function pickModule(sim: DustSimulation, i: number) {
+  const n = sim.array.cells.length;
+  const m = n > 1 ? Math.min(Math.floor(sim.rng.next() * n), n - 1) : 0;
+  sim.state.module[i] = m;
+  return m;
+}
+
+function respawnParticle(sim: DustSimulation, i: number) {
+  const { config, rng, state } = sim;
+  const { spawn } = config;
+
+  sampleGrain(sim, i);
+  state.status[i] = DustStatus.Attached;
+
+  const m = pickModule(sim, i);
+  const [x, z] = samplePointInHex(rng, hexRadius(config.geometry), spawn.scale);
+  state.position[i * 3] = x + sim.array.centers[m * 2];
+  state.position[i * 3 + 1] =
+    panelSurfaceY(config.geometry) + 0.002 + rng.next() * spawn.heightJitter;
+  state.position[i * 3 + 2] = z + sim.array.centers[m * 2 + 1];
+
+  state.velocity[i * 3] = (rng.next() - 0.5) * spawn.speed;
+  state.velocity[i * 3 + 1] = 0;
+  state.velocity[i * 3 + 2] = (rng.next() - 0.5) * spawn.speed;
+}
+
+/**
+ * A grain left the panel for good. With a deposition source, new dust
+ * only arrives from above, so the slot is freed; otherwise the grain is
+ * laid back on the panel as in the original demo.
+ */
+function recycleParticle(sim: DustSimulation, i: number) {
+  sim.metrics.origin[i] = 0;
+  if (sim.config.deposition.enabled) {
+    sim.state.status[i] = DustStatus.Inactive;
+  } else {
+    respawnParticle(sim, i);
+  }
+}
+
+export function createDustSimulation(
+  config: DustSimConfig = DEFAULT_DUST_SIM_CONFIG,
+  seed = 1,
+  metricsHistory = Infinity
+): DustSimulation {
+  const sim: DustSimulation = {
+    config,
+    seed,
+    rng: createRng(seed),
+    time: 0,
+    stepCount: 0,
+    accumulator: 0,
+    state: createDustState(config.particleCount),
+    energy: createEnergyDiagnostics(),
+    layout: buildElectrodeLayout(config.electrodes, config.drive.phases, config.geometry),
+    array: buildModuleArray(config.array, config.geometry),
+    fieldSolution: null,
+    cells: createCellList(config.particleCount),
+    deposition: createDepositionState(),
+    metrics: createRunMetrics(config.particleCount, speciesIds(config.dust)),
+    metricsHistory,
+    cache: createSimCache(),
+    accelerate: (i, s, t, out) => dustAcceleration(sim, i, s, t, out)
+  };
+  resetDustSimulation(sim, seed);
+  return sim;
+}
+
+export function resetDustSimulation(sim: DustSimulation, seed = sim.seed) {
+  sim.seed = seed;
+  sim.rng = createRng(seed);
+  sim.time = 0;
+  sim.stepCount = 0;
+  sim.accumulator = 0;
+  sim.energy = createEnergyDiagnostics();
+  if (sim.state.count !== sim.config.particleCount) {
+    sim.state = createDustState(sim.config.particleCount);
+  }
+  for (let i = 0; i < sim.state.count; i++) respawnParticle(sim, i);
+
+  sim.deposition = createDepositionState();
+  const { deposition } = sim.config;
+  if (deposition.enabled) {
+    // start from a partly soiled panel; the source fills the rest
+    const initial = Math.round(sim.state.count * deposition.initialFraction);
+    for (let i = initial; i < sim.state.count; i++) sim.state.status[i] = DustStatus.Inactive;
+    scheduleNextStorm(sim);
+  }
+
+  sim.metrics = createRunMetrics(
+    sim.state.count,
+    speciesIds(sim.config.dust),
+    metricsLayoutOf(sim.array),
+    undefined,
+    sim.metricsHistory
+  );
+  beginRun(sim.metrics, sim.state, DustStatus.Attached);
+}
+
+/** Metric labels for the array's modules and trench collectors. */
+function metricsLayoutOf(array: ModuleArray) {
+  return {
+    modules: array.cells.map(cellLabel),
+    collectors: array.edges.map((edge) => edgeLabel(array, edge))
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Electric field: vertical + traveling wave along the layout + drift
+// ─────────────────────────────────────────────────────────────
+
+const laneScratch = createLaneSample();
+
+/**
+ * Analytic estimate from the lane voltages: the lane under the point
+ * sets the vertical field, the voltage difference between its
+ * neighbours sets the push along the layout's travel direction.
+ */
+export function computeFieldAt(
+  field: DustSimConfig['field'],
+  geometry: ModuleGeometry,
+  layout: ElectrodeLayout,
+  voltages: ArrayLike<number>,
+  driveActive: boolean,
+  x: number,
+  y: number,
+  z: number,
+  out: Float64Array | number[]
+) {
+  const radius = Math.sqrt(x * x + z * z);
+  const rNorm = Math.min(Math.max(radius / hexApothem(geometry), 0), 1);
+  const phases = layout.phases;
+
+  layout.sample(x, z, laneScratch);
+  const slot = laneScratch.slot;
+  const vLane = voltages[slot % phases];
+  const vPrev = voltages[(((slot - 1) % phases) + phases) % phases];
+  const vNext = voltages[(slot + 1) % phases];
+
+  // fringe fields of a wave with period phases·pitch die off as exp(−2πh/λ)
+  const decay = field.heightDecay
+    ? Math.exp(
+        (-2 * Math.PI * Math.max(y - panelSurfaceY(geometry), 0)) / (phases * layout.pitch)
+      )
+    : 1;
+
+  // the DC lift comes from the panel too, so it drops out between bursts
+  const Ey =
+    ((driveActive ? field.base : 0) +
+      ((field.verticalGain * vLane) / layout.pitch) * (1 - 0.35 * rNorm)) *
+    decay;
+
+  const travelMag =
+    ((field.lateralGain * (vPrev - vNext)) / (2 * layout.pitch)) *
+    (0.4 + 0.6 * rNorm) *
+    decay;
+  const normalMag = ((0.25 * field.lateralGain * vLane) / layout.pitch) * decay;
+
+  out[0] =
+    laneScratch.normalX * normalMag +
+    laneScratch.travelX * travelMag +
+    field.drift[0];
+  out[1] = Ey + field.drift[1];
+  out[2] =
+    laneScratch.normalZ * normalMag +
+    laneScratch.travelZ * travelMag +
+    field.drift[2];
+}
+
+/**
+ * Potential to go with the analytic field: the voltage of the lane
+ * under the point, fading with height like the fringe terms. A display
+ * aid; the analytic field is not exactly its gradient.
+ */
+export function computePotentialAt(
+  field: DustSimConfig['field'],
+  geometry: ModuleGeometry,
+  layout: ElectrodeLayout,
+  voltages: ArrayLike<number>,
+  x: number,
+  y: number,
+  z: number
+) {
+  layout.sample(x, z, laneScratch);
+  const decay = field.heightDecay
+    ? Math.exp(
+        (-2 * Math.PI * Math.max(y - panelSurfaceY(geometry), 0)) / (layout.phases * layout.pitch)
+      )
+    : 1;
+  return voltages[laneScratch.slot % layout.phases] * decay;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Field sampling (analytic or solved)
+// ─────────────────────────────────────────────────────────────
+
+/** Solve the electrode field for the current layout (slow; cached on the sim). */
+export function ensureFieldSolution(sim: DustSimulation) {
+  if (!sim.fieldSolution) {
+    sim.fieldSolution = solveElectrodeField(
+      sim.layout,
+      sim.config.field.solver,
+      sim.config.geometry
+    );
+  }
+  return sim.fieldSolution;
+}
+
+/** Rebuild the layout after `config.electrodes` or `drive.phases` changed. */
+export function configureElectrodes(sim: DustSimulation) {
+  sim.layout = buildElectrodeLayout(
+    sim.config.electrodes,
+    sim.config.drive.phases,
+    sim.config.geometry
+  );
+  sim.fieldSolution = null;
+}
+
+/**
+ * Rebuild the module array after `config.array` or the module geometry
+ * changed. Grains keep their positions, so reset the run after.
+ */
+export function configureArray(sim: DustSimulation) {
+  sim.array = buildModuleArray(sim.config.array, sim.config.geometry);
+}
+
+function voltagesAt(cache: SimCache, drive: DriveConfig, time: number) {
+  if (drive !== cache.voltageDrive || time !== cache.voltageTime) {
+    drivePhaseVoltages(drive, time, cache.phaseVoltages);
+    cache.voltageDrive = drive;
+    cache.voltageTime = time;
+  }
+  return cache.phaseVoltages;
+}
+
+/** Field at a point in a module's own frame (every module carries the same electrodes). */
+export function sampleModuleField(
+  sim: DustSimulation,
+  x: number,
+  y: number,
+  z: number,
+  time: number,
+  out: Float64Array | number[]
+) {
+  const { field, drive, geometry } = sim.config;
+  const voltages = voltagesAt(sim.cache, drive, time);
+
+  if (field.model === 'solver') {
+    sampleSolvedField(ensureFieldSolution(sim), voltages, x, y, z, out);
+  } else {
+    const active = isDriveActive(drive, time);
+    computeFieldAt(field, geometry, sim.layout, voltages, active, x, y, z, out);
+  }
+}
+
+/**
+ * Field at a point in array coordinates: the module field in the frame
+ * of the module the point is over.
+ */
+export function sampleDustField(
+  sim: DustSimulation,
+  x: number,
+  y: number,
+  z: number,
+  time: number,
+  out: Float64Array | number[]
+) {
+  const { array } = sim;
+  const m = nearestModule(array, x, z);
+  sampleModuleField(sim, x - array.centers[m * 2], y, z - array.centers[m * 2 + 1], time, out);
+}
+
+/** Drive potential (V) at a point in a module's frame, from the same model as the field. */
+export function sampleModulePotential(
+  sim: DustSimulation,
+  x: number,
+  y: number,
+  z: number,
+  time: number
+) {
+  const { field, drive, geometry } = sim.config;
+  const voltages = voltagesAt(sim.cache, drive, time);
+  return field.model === 'solver'
+    ? sampleSolvedPotential(ensureFieldSolution(sim), voltages, x, y, z)
+    : computePotentialAt(field, geometry, sim.layout, voltages, x, y, z);
+}
+
+function gasFor(cache: SimCache, atmosphere: AtmosphereConfig) {
+  if (atmosphere !== cache.gasAtmosphere || !cache.gas) {
+    cache.gas = gasProperties(atmosphere);
+    cache.gasAtmosphere = atmosphere;
+  }
+  return cache.gas;
+}
+
+/** Drag rate k (1/s) of a grain with this radius and mass: a = −k·v. */
+export function dustDragRate(
+  config: DustSimConfig,
+  radius: number,
+  mass: number,
+  cache: SimCache = createSimCache()
+) {
+  if (config.dragModel === 'constant') return config.dragCoeff;
+  return dragRate(gasFor(cache, config.atmosphere), radius, mass);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Forces
+// ─────────────────────────────────────────────────────────────
+
+const fieldScratch = new Float64Array(3);
+const particleScratch = new Float64Array(6);
+
+function dustAcceleration(
+  sim: DustSimulation,
+  i: number,
+  s: Float64Array,
+  t: number,
+  out: Float64Array
+) {
+  const { config, state } = sim;
+  sampleDustField(sim, s[0], s[1], s[2], t, fieldScratch);
+
+  const invMass = 1 / state.mass[i];
+  const qm = state.charge[i] * invMass;
+  const k = dustDragRate(config, state.radius[i], state.mass[i], sim.cache);
+  const f = state.force;
+  out[0] = qm * fieldScratch[0] + f[i * 3] * invMass - k * s[3];
+  out[1] = qm * fieldScratch[1] + f[i * 3 + 1] * invMass - config.gravity - k * s[4];
+  out[2] = qm * fieldScratch[2] + f[i * 3 + 2] * invMass - k * s[5];
+}
+
+// Power delivered by the field (+ neighbours) and drag, for the energy diagnostic
+function dustPower(
+  sim: DustSimulation,
+  i: number,
+  s: Float64Array,
+  t: number,
+  out: Float64Array
+) {
+  const { config, state } = sim;
+  sampleDustField(sim, s[0], s[1], s[2], t, fieldScratch);
+  const v2 = s[3] * s[3] + s[4] * s[4] + s[5] * s[5];
+  const q = state.charge[i];
+  const f = state.force;
+  out[0] =
+    (q * fieldScratch[0] + f[i * 3]) * s[3] +
+    (q * fieldScratch[1] + f[i * 3 + 1]) * s[4] +
+    (q * fieldScratch[2] + f[i * 3 + 2]) * s[5];
+  out[1] = -state.mass[i] * dustDragRate(config, state.radius[i], state.mass[i], sim.cache) * v2;
+}
+
+/** Forces (N) on one grain, by cause; see dustForces(). */
+export type DustForces = {
+  electric: Float64Array;   // xyz, q·E
+  gravity: number;          // y, −m·g
+  drag: Float64Array;       // xyz, −m·k·v
+  neighbours: Float64Array; // xyz, grain–grain Coulomb held over the last step
+  adhesion: number;         // pull-off threshold; holds the grain while attached
+  lift: number;             // upward pull minus adhesion; an attached grain lifts when > 0
+};
+
+export function createDustForces(): DustForces {
+  return {
+    electric: new Float64Array(3),
+    gravity: 0,
+    drag: new Float64Array(3),
+    neighbours: new Float64Array(3),
+    adhesion: 0,
+    lift: 0
+  };
+}
+
+/**
+ * The forces dustAcceleration() and the liftoff test see for grain `i`
+ * at integrator state `s` (position, velocity) and sim time `time`.
+ */
+export function dustForces(
+  sim: DustSimulation,
+  i: number,
+  s: ArrayLike<number>,
+  time: number,
+  out: DustForces
+) {
+  const { config, state } = sim;
+  const q = state.charge[i];
+  const m = state.mass[i];
+  const k = dustDragRate(config, state.radius[i], m, sim.cache);
+  sampleDustField(sim, s[0], s[1], s[2], time, fieldScratch);
+  for (let a = 0; a < 3; a++) {
+    out.electric[a] = q * fieldScratch[a];
+    out.drag[a] = -m * k * s[3 + a];
+    out.neighbours[a] = state.force[i * 3 + a];
+  }
+  out.gravity = -m * config.gravity;
+  out.adhesion = state.adhesion[i];
+  out.lift = out.electric[1] + out.neighbours[1] + out.gravity - out.adhesion;
+  return out;
+}
+
+function mechanicalEnergy(sim: DustSimulation, i: number, s: Float64Array) {
+  const m = sim.state.mass[i];
+  const v2 = s[3] * s[3] + s[4] * s[4] + s[5] * s[5];
+  return 0.5 * m * v2 + m * sim.config.gravity * (s[1] - panelSurfaceY(sim.config.geometry));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Step
+// ─────────────────────────────────────────────────────────────
+
+const powerBefore = new Float64Array(2);
+const powerAfter = new Float64Array(2);
+
+/** Advance the simulation by exactly one step of `dt` seconds. */
+export function stepDustSimulation(sim: DustSimulation, dt: number) {
+  const { config, state, energy } = sim;
+  const time = sim.time;
+  const { geometry } = config;
+  const panelY = panelSurfaceY(geometry);
+  const trenchInner = hexRadius(geometry) * geometry.trenchInnerScale;
+  const trenchOuter = hexRadius(geometry) * geometry.trenchOuterScale;
+  const trenchTop = geometry.baseThickness + geometry.cartridgeHeight * 2;
+  const bounds = hexRadius(geometry) * config.boundsScale;
+  const pos = state.position;
+  const vel = state.velocity;
+  const s = particleScratch;
+  const trackEnergy = config.integrator.trackEnergy;
+
+  if (trackEnergy) {
+    energy.kinetic = 0;
+    energy.potential = 0;
+  }
+
+  const { interactions } = config;
+  if (interactions.coulomb) {
+    buildCellList(sim.cells, state, interactions.cutoff, ATTACHED_BIT | AIRBORNE_BIT);
+    computeCoulombForces(state, interactions, sim.cells, ATTACHED_BIT | AIRBORNE_BIT);
+  }
+
+  for (let i = 0; i < state.count; i++) {
+    const ix = i * 3;
+    const iy = ix + 1;
+    const iz = ix + 2;
+
+    if (state.status[i] === DustStatus.Inactive) continue;
+
+    if (state.status[i] === DustStatus.Collected) {
+      state.collectTimer[i] += dt;
+      if (state.collectTimer[i] > config.collectHoldTime) {
+        recycleParticle(sim, i);
+      }
+      continue;
+    }
+
+    if (state.status[i] === DustStatus.Attached) {
+      refreshAdhesion(sim, i); // image force follows the (possibly changed) charge
+      sampleDustField(sim, pos[ix], pos[iy], pos[iz], time, fieldScratch);
+      const mass = state.mass[i];
+      const Fy =
+        state.charge[i] * fieldScratch[1] +
+        state.force[iy] -
+        mass * config.gravity;
+
+      if (Fy > state.adhesion[i]) {
+        state.status[i] = DustStatus.Airborne;
+        state.liftoff[i] = time;
+        sim.metrics.liftoffs++;
+        vel[iy] += ((Fy - state.adhesion[i]) / mass) * dt;
+      } else {
+        vel[ix] = vel[iy] = vel[iz] = 0;
+        pos[iy] = panelY;
+        continue;
+      }
+    }
+
+    s[0] = pos[ix];
+    s[1] = pos[iy];
+    s[2] = pos[iz];
+    s[3] = vel[ix];
+    s[4] = vel[iy];
+    s[5] = vel[iz];
+
+    let energyBefore = 0;
+    if (trackEnergy) {
+      energyBefore = mechanicalEnergy(sim, i, s);
+      dustPower(sim, i, s, time, powerBefore);
+    }
+
+    integrate(config.integrator.scheme, sim.accelerate, i, s, time, dt);
+
+    pos[ix] = s[0];
+    pos[iy] = s[1];
+    pos[iz] = s[2];
+    vel[ix] = s[3];
+    vel[iy] = s[4];
+    vel[iz] = s[5];
+
+    // panel collision / bounce
+    if (pos[iy] < panelY) {
+      pos[iy] = panelY;
+      if (config.charging.enabled) {
+        state.charge[i] = coverContactCharge(
+          speciesParamsOf(sim).charging[state.species[i]],
+          state.radius[i],
+          state.charge[i],
+          vel[iy]
+        );
+      }
+      if (-vel[iy] < config.adhesion.reattachSpeed) {
+        // settled back gently: sticks until the field pulls it off again
+        state.status[i] = DustStatus.Attached;
+        vel[ix] = vel[iy] = vel[iz] = 0;
+      } else {
+        vel[iy] *= -config.bounce.restitution;
+        vel[ix] *= config.bounce.friction;
+        vel[iz] *= config.bounce.friction;
+      }
+    } else if (trackEnergy) {
+      // bounces remove energy on purpose; only free flight is audited
+      dustPower(sim, i, s, time + dt, powerAfter);
+      const fieldWork = 0.5 * dt * (powerBefore[0] + powerAfter[0]);
+      const dragWork = 0.5 * dt * (powerBefore[1] + powerAfter[1]);
+      const energyAfter = mechanicalEnergy(sim, i, s);
+      energy.fieldWork += fieldWork;
+      energy.dragWork += dragWork;
+      energy.residual += energyAfter - energyBefore - fieldWork - dragWork;
+      energy.kinetic += energyAfter - state.mass[i] * config.gravity * (s[1] - panelY);
+      energy.potential += state.mass[i] * config.gravity * (s[1] - panelY);
+    }
+
+    // Crossing into a docked neighbour: the grain flies on over its panel
+    const { array } = sim;
+    const m = nearestModule(array, pos[ix], pos[iz]);
+    if (m !== state.module[i]) {
+      const side = sharedSide(array, state.module[i], m);
+      if (side >= 0) {
+        sim.metrics.transfers++;
+        sim.metrics.collectorTransfers[array.edgeOf[state.module[i] * 6 + side]]++;
+      }
+      state.module[i] = m;
+    }
+    const x = pos[ix] - array.centers[m * 2];
+    const z = pos[iz] - array.centers[m * 2 + 1];
+
+    // Trench collection region (seams are one collector shared by both modules)
+    if (
+      !isInsideHex(x, z, trenchInner) &&
+      pos[iy] < trenchTop &&
+      isInsideHex(x, z, trenchOuter)
+    ) {
+      const side = hexSideAt(x, z);
+      const collector = array.edgeOf[m * 6 + side];
+      sim.metrics.collectedCount[side]++;
+      sim.metrics.collectedMass[side] += state.mass[i];
+      sim.metrics.speciesCollectedMass[state.species[i]] += state.mass[i];
+      sim.metrics.moduleCollectedMass[m] += state.mass[i];
+      sim.metrics.collectorCount[collector]++;
+      sim.metrics.collectorMass[collector] += state.mass[i];
+      state.status[i] = DustStatus.Collected;
+      state.collectTimer[i] = 0;
+      pos[iy] = geometry.baseThickness + geometry.cartridgeHeight / 2;
+      vel[ix] = vel[iy] = vel[iz] = 0;
+      continue;
+    }
+
+    // Bounds / escape → recycle (only off the array's rim: docked sides are
+    // covered by the neighbour)
+    if (
+      !isInsideHex(x, z, bounds) ||
+      pos[iy] > config.maxHeight
+    ) {
+      sim.metrics.escapedCount++;
+      sim.metrics.escapedMass += state.mass[i];
+      sim.metrics.speciesEscapedMass[state.species[i]] += state.mass[i];
+      recycleParticle(sim, i);
+    }
+  }
+
+  const { charging } = config;
+  const grainCharging = charging.enabled && charging.grainContacts;
+  if (grainCharging || interactions.cohesion) {
+    buildCellList(sim.cells, state, interactions.cutoff, AIRBORNE_BIT);
+  }
+  if (grainCharging) {
+    const { workFunction } = speciesParamsOf(sim);
+    forEachContact(state, interactions, sim.cells, DustStatus.Airborne, (i, j, speed) => {
+      const dq = grainContactTransfer(
+        charging,
+        state.radius[i],
+        state.charge[i],
+        state.radius[j],
+        state.charge[j],
+        speed,
+        workFunction[state.species[j]] - workFunction[state.species[i]]
+      );
+      state.charge[i] += dq;
+      state.charge[j] -= dq;
+    });
+  }
+  if (interactions.cohesion) {
+    mergeCollidingGrains(state, interactions, sim.cells, DustStatus.Airborne, (i, j) => {
+      refreshAdhesion(sim, i);
+      state.status[j] = DustStatus.Inactive;
+      sim.metrics.origin[i] += sim.metrics.origin[j];
+      sim.metrics.origin[j] = 0;
+    });
+    breakUpAgglomerates(sim, time + dt);
+  }
+
+  if (config.deposition.enabled) depositDust(sim, time, dt);
+
+  if (trackEnergy) {
+    const work = Math.abs(energy.fieldWork) + Math.abs(energy.dragWork);
+    energy.relativeError = work > 0 ? Math.abs(energy.residual) / work : 0;
+  }
+
+  sim.time = time + dt;
+  sim.stepCount++;
+  sampleRunMetrics(sim.metrics, state, sim.time, METRIC_STATUS);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Deposition source
+// ─────────────────────────────────────────────────────────────
+
+/** Mean real-grain mass (kg) of the configured size distribution. */
+export function meanGrainMass(dust: DustSimConfig['dust'], cache: SimCache = createSimCache()) {
+  const samples = 64;
+  let sum = 0;
+  for (let k = 0; k < samples; k++) {
+    const r = radiusAtQuantile(dust, (k + 0.5) / samples, cache);
+    sum += r * r * r;
+  }
+  const density = dust.species.length ? meanSpeciesDensity(dust.species) : dust.density;
+  return (4 / 3) * Math.PI * (sum / samples) * density;
+}
+
+/** Panel area (m²) the source rains onto, over every module of the array. */
+export function depositionArea(config: DustSimConfig) {
+  const r = hexRadius(config.geometry) * config.spawn.scale;
+  return ((3 * Math.sqrt(3)) / 2) * r * r * config.array.cells.length;
+}
+
+function scheduleNextStorm(sim: DustSimulation) {
+  const { meanInterval } = sim.config.deposition.storm;
+  sim.deposition.nextStorm =
+    meanInterval > 0 ? sim.time - Math.log(1 - sim.rng.next()) * meanInterval : Infinity;
+}
+
+/** Start a storm now (or extend the current one). */
+export function triggerDustStorm(sim: DustSimulation) {
+  sim.deposition.stormUntil = sim.time + sim.config.deposition.storm.duration;
+}
+
+// Release one grain upstream of a random landing point
+function depositParticle(sim: DustSimulation, i: number) {
+  const { config, rng, state } = sim;
+  const { deposition } = config;
+
+  sampleGrain(sim, i);
+  state.status[i] = DustStatus.Airborne;
+
+  const [dx, dy, dz] = deposition.direction;
+  const norm = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+  const fall = Math.min(dy / norm, -0.05); // never release sideways
+  const m = pickModule(sim, i);
+  const [x, z] = samplePointInHex(rng, hexRadius(config.geometry), config.spawn.scale);
+  const back = deposition.height / -fall;
+
+  // aimed at module m, released over whichever module is upwind
+  state.position[i * 3] = x + sim.array.centers[m * 2] - (dx / norm) * back;
+  state.position[i * 3 + 1] = panelSurfaceY(config.geometry) + deposition.height;
+  state.position[i * 3 + 2] = z + sim.array.centers[m * 2 + 1] - (dz / norm) * back;
+  state.module[i] = nearestModule(sim.array, state.position[i * 3], state.position[i * 3 + 2]);
+  state.velocity[i * 3] = (dx / norm) * deposition.speed;
+  state.velocity[i * 3 + 1] = fall * deposition.speed;
+  state.velocity[i * 3 + 2] = (dz / norm) * deposition.speed;
+}
+
+function depositDust(sim: DustSimulation, time: number, dt: number) {
+  const { config, deposition, state } = sim;
+
+  if (time >= deposition.nextStorm) {
+    triggerDustStorm(sim);
+    scheduleNextStorm(sim);
+  }
+
+  deposition.pending +=
+    depositionRate(
+      config.deposition,
+      meanGrainMass(config.dust, sim.cache),
+      depositionArea(config),
+      isStormActive(deposition, time)
+    ) * dt;
+
+  while (deposition.pending >= 1) {
+    deposition.pending -= 1;
+    const i = findFreeSlot(state);
+    if (i < 0) {
+      deposition.dropped++;
+      continue;
+    }
+    depositParticle(sim, i);
+    deposition.deposited++;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Agglomerate break-up
+// ─────────────────────────────────────────────────────────────
+
+const splitDir: [number, number, number] = [0, 1, 0];
+
+function findFreeSlot(state: DustState) {
+  for (let j = 0; j < state.count; j++) {
+    if (state.status[j] === DustStatus.Inactive) return j;
+  }
+  return -1;
+}
+
+function breakUpAgglomerates(sim: DustSimulation, time: number) {
+  const { config, state } = sim;
+  const pos = state.position;
+
+  for (let i = 0; i < state.count; i++) {
+    if (state.status[i] !== DustStatus.Airborne || state.members[i] < 2) continue;
+
+    sampleDustField(sim, pos[i * 3], pos[i * 3 + 1], pos[i * 3 + 2], time, fieldScratch);
+    const [ex, ey, ez] = fieldScratch;
+    const stress = fieldStress(state.charge[i], state.radius[i], ex, ey, ez);
+    if (stress <= config.interactions.breakupStress) continue;
+
+    const j = findFreeSlot(state);
+    if (j < 0) return;
+
+    const e = Math.sqrt(ex * ex + ey * ey + ez * ez);
+    splitDir[0] = ex / e;
+    splitDir[1] = ey / e;
+    splitDir[2] = ez / e;
+    splitAgglomerate(state, config.interactions, i, j, splitDir);
+    const { origin } = sim.metrics;
+    origin[j] = (origin[i] * state.mass[j]) / (state.mass[i] + state.mass[j]);
+    origin[i] -= origin[j];
+
+    state.status[j] = DustStatus.Airborne;
+    state.species[j] = state.species[i];
+    state.module[j] = state.module[i];
+    state.liftoff[j] = state.liftoff[i];
+    state.collectTimer[j] = 0;
+    refreshAdhesion(sim, i);
+    refreshAdhesion(sim, j);
+  }
+}
+
+/** Share of live grains still stuck to the panel. */
+export function residualDustFraction(state: DustState) {
+  let attached = 0;
+  let live = 0;
+  for (let i = 0; i < state.count; i++) {
+    const status = state.status[i];
+    if (status === DustStatus.Inactive) continue;
+    live++;
+    if (status === DustStatus.Attached) attached++;
+  }
+  return live > 0 ? attached / live : 0;
+}
+
+/** Number of airborne or settled agglomerates (two or more grains). */
+export function countAgglomerates(state: DustState) {
+  let n = 0;
+  for (let i = 0; i < state.count; i++) {
+    if (state.status[i] !== DustStatus.Inactive && state.members[i] > 1) n++;
+  }
+  return n;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Fixed-timestep driver
+// ─────────────────────────────────────────────────────────────
+
+/** Fixed step size: a whole number of substeps per drive wave period. */
+export function dustStepSize(config: DustSimConfig) {
+  return 1 / (config.drive.frequency * config.integrator.substepsPerPeriod);
+}
+
+export function dustStability(config: DustSimConfig): StabilityReport {
+  // the smallest, lightest grain has the stiffest drag
+  const { dust } = config;
+  const r = smallestRadius(dust);
+  const density = dust.species.length
+    ? Math.min(...dust.species.map((sp) => sp.density))
+    : dust.density;
+  const mass = (4 / 3) * Math.PI * r * r * r * density;
+  return checkStability(
+    config.integrator.scheme,
+    dustStepSize(config),
+    config.drive.frequency,
+    dustDragRate(config, r, mass)
+  );
+}
+
+/**
+ * Feed wall-clock frame time into the accumulator and run as many fixed
+ * steps as fit. Long frames are clamped so a tab switch doesn't fire
+ * thousands of steps at once. `budgetMs` caps the wall time per call
+ * (large particle counts); past it the backlog is dropped, so the sim
+ * runs slower than real time instead of stalling the frame. Returns the
+ * number of steps taken.
+ */
+export function advanceDustSimulation(sim: DustSimulation, frameDt: number, budgetMs = Infinity) {
+  const { integrator } = sim.config;
+  const h = dustStepSize(sim.config);
+  const start = performance.now();
+
+  sim.accumulator += Math.min(Math.max(frameDt, 0), integrator.maxFrameDt);
+
+  let steps = 0;
+  let overBudget = false;
+  while (sim.accumulator >= h && steps < integrator.maxStepsPerFrame && !overBudget) {
+    stepDustSimulation(sim, h);
+    sim.accumulator -= h;
+    steps++;
+    overBudget = performance.now() - start > budgetMs;
+  }
+  if (steps === integrator.maxStepsPerFrame || overBudget) {
+    // falling behind: drop the backlog rather than spiral
+    sim.accumulator = Math.min(sim.accumulator, h);
+  }
+  return steps;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Regression helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * FNV-1a hash over the raw bytes of every per-grain array in the
+ * particle state (arrays added to `DustState` are picked up too). Two
+ * runs with the same seed and config must produce the same fingerprint
+ * at the same step count.
+ */
+export function fingerprintDustState(state: DustState) {
+  const arrays = Object.values(state).filter(
+    (value): value is Exclude<typeof value, number> => typeof value !== 'number'
+  );
+  let hash = 0x811c9dc5;
+  for (const arr of arrays) {
+    const bytes = new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength);
+    for (let i = 0; i < bytes.length; i++) {
+      hash ^= bytes[i];
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,155 @@
+// ─────────────────────────────────────────────────────────────
+// Sim worker protocol and particle snapshots
+//
+// The viewer's physics runs in a worker (ancillia-sim-worker.ts); the
+// page sends it typed commands and gets back snapshots and reports.
+// A snapshot is what the renderer needs for one instant: the wall
+// clock it was taken at, then one recording frame (sim time, float32
+// positions and velocities, members, status, species; see
+// ancillia-recording.ts). With cross-origin isolation, snapshots go
+// through a SharedArrayBuffer double buffer. Without it, each one is a
+// transferred ArrayBuffer that the page hands back for reuse.
+// Reports carry only what snapshots don't: the slower per-grain
+// properties, and the metrics samples added since the last report.
+// ─────────────────────────────────────────────────────────────
+
+import { DustFrame, frameAt, frameBytes } from './ancillia-recording';
+import type { MetricsSample, RunMetrics } from './ancillia-metrics';
+import type { DustSimConfig, DustSimulation, DustState } from './ancillia-sim';
+
+/**
+ * Most steps a reset replays before publishing. The replay blocks the
+ * worker, so links asking for more are rejected (about 2.5 min of sim
+ * time at the default drive).
+ */
+export const MAX_REPLAY_STEPS = 100_000;
+
+/**
+ * Page → worker. Every reset carries a new `run` number; the worker
+ * tags what it sends with it, so the page can drop messages from
+ * before the reset.
+ */
+export type SimCommand =
+  | {
+      type: 'reset';
+      run: number;
+      seed: number;
+      config: DustSimConfig;
+      replayTo: number; // s of sim time to run before publishing (permalinks)
+    }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'storm' }
+  | { type: 'recycle'; buffer: ArrayBuffer }; // a transferred snapshot the page is done with
+
+/** Per-grain arrays a report carries: all but the snapshot's. */
+export type ReportedState = Omit<DustState, 'position' | 'velocity' | 'members' | 'status' | 'species'>;
+
+/**
+ * The parts of a run the page shows besides the grains (status line,
+ * metrics, overlays). Metrics come without the per-slot origin masses
+ * and the sample history; `samples` replace the page's history from
+ * index `samplesFrom` on (0 after a reset or when the history was
+ * thinned). `fieldSolution` is only sent when it changed, so the field
+ * overlays never have to solve on the page.
+ */
+export type SimReport = Pick<DustSimulation, 'seed' | 'time' | 'stepCount' | 'energy' | 'deposition'> &
+  Partial<Pick<DustSimulation, 'fieldSolution'>> & {
+    state: ReportedState;
+    metrics: Omit<RunMetrics, 'origin' | 'samples'>;
+    samples: MetricsSample[];
+    samplesFrom: number;
+  };
+
+/** Worker → page. */
+export type SimEvent =
+  | { type: 'buffers'; run: number; count: number; buffer: SharedArrayBuffer }
+  | { type: 'snapshot'; run: number; count: number; buffer: ArrayBuffer }
+  | { type: 'report'; run: number; report: SimReport };
+
+export type Snapshot = {
+  buffer: ArrayBuffer;
+  wall: number; // ms, see wallClock()
+  frame: DustFrame;
+};
+
+const SNAPSHOT_HEADER = 8; // f64 wall clock
+
+/** Milliseconds on a clock the page and the worker share. */
+export function wallClock() {
+  return performance.timeOrigin + performance.now();
+}
+
+export function snapshotBytes(count: number) {
+  return SNAPSHOT_HEADER + frameBytes(count);
+}
+
+/** Write the sim's particles as a snapshot at `offset` in `buffer`. */
+export function writeSnapshot(buffer: ArrayBufferLike, offset: number, sim: DustSimulation) {
+  const { state } = sim;
+  const view = new DataView(buffer, offset, SNAPSHOT_HEADER + 8);
+  view.setFloat64(0, wallClock(), true);
+  view.setFloat64(SNAPSHOT_HEADER, sim.time, true);
+  const frame = frameAt(buffer, offset + SNAPSHOT_HEADER, state.count);
+  frame.position.set(state.position);
+  frame.velocity.set(state.velocity);
+  frame.members.set(state.members);
+  frame.status.set(state.status);
+  frame.species.set(state.species);
+}
+
+/** The snapshot at the start of `buffer`, as views into it. */
+export function readSnapshot(buffer: ArrayBuffer, count: number): Snapshot {
+  return {
+    buffer,
+    wall: new DataView(buffer, 0, SNAPSHOT_HEADER).getFloat64(0, true),
+    frame: frameAt(buffer, SNAPSHOT_HEADER, count)
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Shared double buffer
+// ─────────────────────────────────────────────────────────────
+
+/*
+ *   0  i32 sequence (bumped on every publish)
+ *   4  i32 slot holding the latest snapshot
+ *   8  snapshot slot 0
+ *      snapshot slot 1
+ */
+const SEQUENCE = 0;
+const SLOT = 1;
+const CONTROL_BYTES = 8;
+
+export function sharedSnapshotBytes(count: number) {
+  return CONTROL_BYTES + 2 * snapshotBytes(count);
+}
+
+/** Worker side: write the back slot, then flip it to the front. */
+export function publishShared(buffer: SharedArrayBuffer, sim: DustSimulation) {
+  const control = new Int32Array(buffer, 0, 2);
+  const back = 1 - Atomics.load(control, SLOT);
+  writeSnapshot(buffer, CONTROL_BYTES + back * snapshotBytes(sim.state.count), sim);
+  Atomics.store(control, SLOT, back);
+  Atomics.add(control, SEQUENCE, 1);
+}
+
+/**
+ * Page side: copy the front slot into `into` if it is newer than
+ * `sequence`. Returns the copied sequence, or null when nothing new was
+ * published or the worker flipped mid-copy (the copy may be torn; the
+ * next frame tries again).
+ */
+export function copyShared(
+  buffer: SharedArrayBuffer,
+  count: number,
+  sequence: number,
+  into: ArrayBuffer
+) {
+  const control = new Int32Array(buffer, 0, 2);
+  const published = Atomics.load(control, SEQUENCE);
+  if (published === sequence) return null;
+  const bytes = snapshotBytes(count);
+  const start = CONTROL_BYTES + Atomics.load(control, SLOT) * bytes;
+  new Uint8Array(into, 0, bytes).set(new Uint8Array(buffer, start, bytes));
+  return Atomics.load(control, SEQUENCE) === published ? published : null;
+}
@@ -0,0 +1,116 @@
+// ─────────────────────────────────────────────────────────────
+// Dust species (mineral mixtures)
+//
+// Martian dust is mostly basaltic fragments with a few percent of iron
+// oxides and fine sulfate / perchlorate salts. Each species brings its
+// own grain density, charge distribution, tribocharging work function,
+// cover adhesion and render colour; all species share the size
+// distribution. Mixes are specified by mass fraction, as assays report
+// them, and converted to the number fraction of simulated grains.
+// There are no magnetic forces, so magnetic minerals (hematite) differ
+// only through the properties above.
+// ─────────────────────────────────────────────────────────────
+
+import type { AdhesionConfig } from './ancillia-adhesion';
+import type { ChargingConfig } from './ancillia-charging';
+import type { ChargeDistribution } from './ancillia-psd';
+
+export type DustSpecies = {
+  id: string;
+  label: string;
+  massFraction: number;   // of the mix (normalized over all species)
+  density: number;        // kg/m³
+  charge: ChargeDistribution; // `uniform` uses dust.chargeMin/Max
+  workFunction: number;   // eV, for contact charging
+  hamaker: number;        // J, grain–cover (jkr / dmt models)
+  perArea: number;        // Pa, `area` model
+  color: number;          // render colour
+};
+
+export type SpeciesId = 'basalt' | 'hematite' | 'salts';
+
+export const MAX_SPECIES = 255; // grains store their species index in a byte
+
+export const SPECIES_PRESETS: Record<SpeciesId, DustSpecies> = {
+  basalt: {
+    id: 'basalt',
+    label: 'Basaltic fines',
+    massFraction: 0.82,
+    density: 3000,
+    charge: { kind: 'normal', mean: 0.3, sd: 0.25 },
+    workFunction: 5.0,
+    hamaker: 6.5e-20,
+    perArea: 50,
+    color: 0xe8d9bf
+  },
+  hematite: {
+    id: 'hematite',
+    label: 'Hematite / nanophase Fe oxides',
+    massFraction: 0.1,
+    density: 5260,
+    charge: { kind: 'normal', mean: 0.1, sd: 0.15 }, // semiconducting, bleeds charge
+    workFunction: 5.4,
+    hamaker: 2.3e-19,
+    perArea: 120,
+    color: 0xb8452b
+  },
+  salts: {
+    id: 'salts',
+    label: 'Fine sulfate / perchlorate salts',
+    massFraction: 0.08,
+    density: 2300,
+    charge: { kind: 'normal', mean: -0.2, sd: 0.2 },
+    workFunction: 5.9,
+    hamaker: 7e-20,
+    perArea: 80,
+    color: 0xf7f7f2
+  }
+};
+
+/** Representative Mars dust mix (Pathfinder / MER dust assays, rounded). */
+export const MARS_DUST_MIX: DustSpecies[] = [
+  SPECIES_PRESETS.basalt,
+  SPECIES_PRESETS.hematite,
+  SPECIES_PRESETS.salts
+];
+
+/**
+ * Cumulative number fractions of simulated grains. With a shared size
+ * distribution every species has the same mean grain volume, so the
+ * number share is massFraction / density, renormalized.
+ */
+export function speciesNumberCDF(species: DustSpecies[]) {
+  const cdf = new Float64Array(species.length);
+  let total = 0;
+  for (let s = 0; s < species.length; s++) {
+    total += Math.max(species[s].massFraction, 0) / species[s].density;
+    cdf[s] = total;
+  }
+  for (let s = 0; s < cdf.length; s++) cdf[s] = total > 0 ? cdf[s] / total : (s + 1) / cdf.length;
+  return cdf;
+}
+
+export function pickSpecies(cdf: Float64Array, u: number) {
+  for (let s = 0; s < cdf.length - 1; s++) {
+    if (u < cdf[s]) return s;
+  }
+  return cdf.length - 1;
+}
+
+/** Number-weighted mean grain density of the mix. */
+export function meanSpeciesDensity(species: DustSpecies[]) {
+  const cdf = speciesNumberCDF(species);
+  let mean = 0;
+  for (let s = 0; s < species.length; s++) {
+    mean += (cdf[s] - (s > 0 ? cdf[s - 1] : 0)) * species[s].density;
+  }
+  return mean;
+}
+
+export function speciesAdhesion(config: AdhesionConfig, species: DustSpecies): AdhesionConfig {
+  return { ...config, hamaker: species.hamaker, perArea: species.perArea };
+}
+
+export function speciesCharging(config: ChargingConfig, species: DustSpecies): ChargingConfig {
+  return { ...config, dustWorkFunction: species.workFunction };
+}
@@ -0,0 +1,142 @@
+// ─────────────────────────────────────────────────────────────
+// Sweep runner (Node command line)
+//
+//   npm run sweep -- sweep.json [--out results.csv] [--json results.json] [--workers N]
+//
+// The same file is the worker entry: the main thread expands the sweep
+// and hands case indices to a pool of worker threads, each of which
+// runs whole cases on the headless sim and posts back result rows.
+// Results are written in case order, so a sweep file plus a seed
+// always produces the same table regardless of worker count.
+// ─────────────────────────────────────────────────────────────
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
+import { isMainThread, parentPort, Worker, workerData } from 'node:worker_threads';
+import {
+  expandSweep,
+  runSweepCase,
+  SweepDefinition,
+  SweepResult,
+  sweepResultsToCSV
+} from './ancillia-sweep';
+
+type WorkerRequest = { index: number } | { done: true };
+type WorkerReply = { result: SweepResult } | { error: string; index: number };
+
+type CliOptions = {
+  sweepPath: string;
+  out: string | null;
+  json: string | null;
+  workers: number;
+};
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { sweepPath: '', out: null, json: null, workers: 0 };
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    if (arg === '--out') options.out = argv[++k];
+    else if (arg === '--json') options.json = argv[++k];
+    else if (arg === '--workers') options.workers = Number(argv[++k]);
+    else if (!options.sweepPath) options.sweepPath = arg;
+    else throw new Error(`Unexpected argument "${arg}"`);
+  }
+  if (!options.sweepPath) {
+    throw new Error(
+      'Usage: npm run sweep -- <sweep.json> [--out results.csv] [--json results.json] [--workers N]'
+    );
+  }
+  return options;
+}
+
+function runWorker() {
+  const def = workerData.definition as SweepDefinition;
+  const cases = expandSweep(def);
+  parentPort!.on('message', (message: WorkerRequest) => {
+    if ('done' in message) {
+      parentPort!.close();
+      return;
+    }
+    let reply: WorkerReply;
+    try {
+      reply = { result: runSweepCase(def, cases[message.index]) };
+    } catch (error) {
+      reply = { error: (error as Error).message, index: message.index };
+    }
+    parentPort!.postMessage(reply);
+  });
+}
+
+// Node 20 does not run tsx's loader for a worker's entry module, so each
+// worker loads tsx itself and imports this file through it
+const WORKER_BOOTSTRAP = `
+  import(${JSON.stringify(import.meta.resolve('tsx/esm/api'))}).then(({ tsImport }) =>
+    tsImport(${JSON.stringify(import.meta.url)}, ${JSON.stringify(import.meta.url)})
+  );
+`;
+
+function runPool(def: SweepDefinition, workerCount: number): Promise<SweepResult[]> {
+  const cases = expandSweep(def);
+  const results: SweepResult[] = [];
+  let next = 0;
+  const started = Date.now();
+
+  return new Promise((resolve, reject) => {
+    let live = Math.min(workerCount, cases.length);
+    if (live === 0) resolve(results);
+
+    for (let w = 0; w < Math.min(workerCount, cases.length); w++) {
+      const worker = new Worker(WORKER_BOOTSTRAP, {
+        eval: true,
+        workerData: { definition: def }
+      });
+      const feed = () => {
+        if (next < cases.length) worker.postMessage({ index: next++ } satisfies WorkerRequest);
+        else worker.postMessage({ done: true } satisfies WorkerRequest);
+      };
+      worker.on('message', (reply: WorkerReply) => {
+        if ('error' in reply) {
+          reject(new Error(`Case ${reply.index} failed: ${reply.error}`));
+          return;
+        }
+        results.push(reply.result);
+        const elapsed = ((Date.now() - started) / 1000).toFixed(1);
+        process.stderr.write(
+          `case ${reply.result.index} done (${results.length}/${cases.length}, ${elapsed} s)\n`
+        );
+        feed();
+      });
+      worker.on('error', reject);
+      worker.on('exit', () => {
+        if (--live === 0) resolve(results);
+      });
+      feed();
+    }
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const def = JSON.parse(readFileSync(options.sweepPath, 'utf8')) as SweepDefinition;
+  const cases = expandSweep(def); // validates before any worker starts
+  const workers = options.workers > 0 ? options.workers : Math.max(1, availableParallelism() - 1);
+  process.stderr.write(`${cases.length} cases on ${Math.min(workers, cases.length)} worker(s)\n`);
+
+  const results = await runPool(def, workers);
+  const csv = sweepResultsToCSV(def, results);
+  if (options.out) writeFileSync(options.out, csv);
+  else process.stdout.write(csv);
+  if (options.json) {
+    const sorted = [...results].sort((a, b) => a.index - b.index);
+    writeFileSync(options.json, JSON.stringify({ sweep: def, results: sorted }, null, 2));
+  }
+}
+
+if (isMainThread) {
+  main().catch((error) => {
+    process.stderr.write(`${(error as Error).message}\n`);
+    process.exit(1);
+  });
+} else {
+  runWorker();
+}
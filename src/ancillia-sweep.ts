@@ -0,0 +1,307 @@
+// ─────────────────────────────────────────────────────────────
+// Parameter sweeps over the headless simulation
+//
+// A sweep names a few knobs (drive voltage, frequency, phase count,
+// dust loading …) and either a grid of values or a range per knob for
+// Latin-hypercube sampling. Expanding it gives a list of cases; each
+// case is one deterministic run of fixed sim duration that boils down
+// to one results row. No Node or DOM APIs here: the CLI runner fans
+// cases out to worker threads, but a browser could run them too.
+// ─────────────────────────────────────────────────────────────
+
+import {
+  DEFAULT_DUST_SIM_CONFIG,
+  DustSimConfig,
+  DustStatus,
+  createDustSimulation,
+  dustStepSize,
+  residualDustFraction,
+  stepDustSimulation
+} from './ancillia-sim';
+import { DRIVE_PHASE_COUNTS } from './ancillia-drive';
+import { driveEnergy } from './ancillia-drive-energy';
+import { layoutPhaseCounts } from './ancillia-electrodes';
+import { applyEnvironment, EnvironmentId, ENVIRONMENT_PRESETS } from './ancillia-environment';
+import { applySimulant, SimulantId, SIMULANT_PRESETS } from './ancillia-psd';
+import { createRng } from './ancillia-rng';
+
+export type SweepParameter =
+  | 'amplitudeKV'
+  | 'offsetKV'
+  | 'frequency'
+  | 'dutyCycle'
+  | 'phases'
+  | 'particleCount'
+  | 'pressure'
+  | 'gravity';
+
+export const SWEEP_PARAMETERS: SweepParameter[] = [
+  'amplitudeKV',
+  'offsetKV',
+  'frequency',
+  'dutyCycle',
+  'phases',
+  'particleCount',
+  'pressure',
+  'gravity'
+];
+
+// Each knob writes one value into a copy of the config
+const PARAMETER_SETTERS: Record<
+  SweepParameter,
+  (config: DustSimConfig, value: number) => DustSimConfig
+> = {
+  amplitudeKV: (c, v) => ({ ...c, drive: { ...c.drive, amplitudeKV: v } }),
+  offsetKV: (c, v) => ({ ...c, drive: { ...c.drive, offsetKV: v } }),
+  frequency: (c, v) => ({ ...c, drive: { ...c.drive, frequency: v } }),
+  dutyCycle: (c, v) => ({ ...c, drive: { ...c.drive, dutyCycle: v } }),
+  phases: (c, v) => ({ ...c, drive: { ...c.drive, phases: nearestPhaseCount(v) } }),
+  particleCount: (c, v) => ({ ...c, particleCount: v }),
+  pressure: (c, v) => ({ ...c, atmosphere: { ...c.atmosphere, id: 'custom', pressure: v } }),
+  gravity: (c, v) => ({ ...c, gravity: v })
+};
+
+function nearestPhaseCount(value: number) {
+  let best = DRIVE_PHASE_COUNTS[0];
+  for (const p of DRIVE_PHASE_COUNTS) {
+    if (Math.abs(p - value) < Math.abs(best - value)) best = p;
+  }
+  return best;
+}
+
+// Discrete knobs: sampled values are snapped so the results table shows what ran
+export function snapValue(name: SweepParameter, value: number) {
+  if (name === 'phases') return nearestPhaseCount(value);
+  if (name === 'particleCount') return Math.max(1, Math.round(value));
+  return value;
+}
+
+/** Explicit values, or an evenly spaced range (`steps` is ignored by LHS). */
+export type SweepRange = number[] | { min: number; max: number; steps?: number };
+
+/**
+ * `grid`: every combination of the listed values.
+ * `latin-hypercube`: `samples` cases, each range cut into `samples`
+ * strata and every stratum used exactly once per parameter.
+ */
+export type SweepDefinition = {
+  mode: 'grid' | 'latin-hypercube';
+  parameters: Partial<Record<SweepParameter, SweepRange>>;
+  samples?: number;  // latin-hypercube only
+  duration: number;  // s of sim time per case
+  seed?: number;     // dust seed (and LHS seed)
+  environment?: EnvironmentId; // applied to the base config first
+  simulant?: SimulantId;
+  base?: DustSimConfig; // defaults to DEFAULT_DUST_SIM_CONFIG
+};
+
+export type SweepCase = {
+  index: number;
+  values: Partial<Record<SweepParameter, number>>;
+};
+
+export type SweepResult = {
+  index: number;
+  values: Partial<Record<SweepParameter, number>>;
+  clearedPercent: number;
+  residualMass: number;     // kg of initial dust still attached
+  airborneMass: number;     // kg of initial dust lifted but not yet collected or lost
+  residualFraction: number; // of live grains still attached
+  collected: number;
+  escaped: number;
+  driveEnergy: number;      // J drawn by the electrode driver
+  fieldWork: number;        // J delivered to airborne dust by the field
+  dragWork: number;         // J, negative
+  timeTo90: number | null;
+  steps: number;
+};
+
+/** Check a parsed sweep file; throws with the first problem found. */
+export function validateSweepDefinition(def: SweepDefinition) {
+  if (def.mode !== 'grid' && def.mode !== 'latin-hypercube') {
+    throw new Error(
+      `Sweep mode must be "grid" or "latin-hypercube", got ${JSON.stringify(def.mode)}`
+    );
+  }
+  if (!(def.duration > 0)) throw new Error('Sweep duration must be a positive number of seconds');
+  const names = Object.keys(def.parameters ?? {});
+  if (names.length === 0) throw new Error('Sweep needs at least one parameter');
+  for (const name of names) {
+    if (!SWEEP_PARAMETERS.includes(name as SweepParameter)) {
+      throw new Error(`Unknown sweep parameter "${name}" (known: ${SWEEP_PARAMETERS.join(', ')})`);
+    }
+    const range = def.parameters[name as SweepParameter]!;
+    if (Array.isArray(range)) {
+      if (range.length === 0 || range.some((v) => !Number.isFinite(v))) {
+        throw new Error(`Parameter "${name}" needs a non-empty list of numbers`);
+      }
+    } else if (!Number.isFinite(range.min) || !Number.isFinite(range.max)) {
+      throw new Error(`Parameter "${name}" needs numeric min and max`);
+    }
+  }
+  if (def.mode === 'latin-hypercube' && !(def.samples && def.samples >= 1)) {
+    throw new Error('Latin-hypercube sweeps need samples ≥ 1');
+  }
+  if (def.environment !== undefined && !(def.environment in ENVIRONMENT_PRESETS)) {
+    throw new Error(`Unknown environment "${def.environment}"`);
+  }
+  if (def.simulant !== undefined && !(def.simulant in SIMULANT_PRESETS)) {
+    throw new Error(`Unknown simulant "${def.simulant}"`);
+  }
+  const { layout } = studyBaseConfig(def).electrodes;
+  if (def.parameters.phases !== undefined && layoutPhaseCounts(layout).length < 2) {
+    throw new Error(`Parameter "phases" can't vary on ${layout} electrodes`);
+  }
+}
+
+function gridValues(range: SweepRange) {
+  if (Array.isArray(range)) return range;
+  const steps = Math.max(1, Math.round(range.steps ?? 5));
+  if (steps === 1) return [range.min];
+  return Array.from(
+    { length: steps },
+    (_, k) => range.min + ((range.max - range.min) * k) / (steps - 1)
+  );
+}
+
+/** Expand a sweep into concrete cases, in a stable order. */
+export function expandSweep(def: SweepDefinition): SweepCase[] {
+  validateSweepDefinition(def);
+  const names = Object.keys(def.parameters) as SweepParameter[];
+
+  if (def.mode === 'grid') {
+    let combos: Partial<Record<SweepParameter, number>>[] = [{}];
+    for (const name of names) {
+      const values = gridValues(def.parameters[name]!);
+      combos = combos.flatMap((combo) =>
+        values.map((v) => ({ ...combo, [name]: snapValue(name, v) }))
+      );
+    }
+    return combos.map((values, index) => ({ index, values }));
+  }
+
+  const n = def.samples!;
+  const rng = createRng(def.seed ?? 1);
+  const cases: SweepCase[] = Array.from({ length: n }, (_, index) => ({ index, values: {} }));
+  for (const name of names) {
+    const range = def.parameters[name]!;
+    const min = Array.isArray(range) ? Math.min(...range) : range.min;
+    const max = Array.isArray(range) ? Math.max(...range) : range.max;
+
+    // Fisher–Yates shuffle of the strata
+    const strata = Array.from({ length: n }, (_, k) => k);
+    for (let k = n - 1; k > 0; k--) {
+      const j = Math.floor(rng.next() * (k + 1));
+      [strata[k], strata[j]] = [strata[j], strata[k]];
+    }
+    for (let k = 0; k < n; k++) {
+      cases[k].values[name] = snapValue(name, min + ((max - min) * (strata[k] + rng.next())) / n);
+    }
+  }
+  return cases;
+}
+
+/** Starting config of a study: `base`, then the environment and simulant presets. */
+export function studyBaseConfig(def: Pick<SweepDefinition, 'base' | 'environment' | 'simulant'>) {
+  let config = def.base ?? DEFAULT_DUST_SIM_CONFIG;
+  if (def.environment) config = applyEnvironment(config, ENVIRONMENT_PRESETS[def.environment]);
+  if (def.simulant) config = applySimulant(config, SIMULANT_PRESETS[def.simulant]);
+  return { ...config, integrator: { ...config.integrator, trackEnergy: true } };
+}
+
+/** Copy of `config` with the knob values written in. */
+export function applyParameters(
+  config: DustSimConfig,
+  values: Partial<Record<SweepParameter, number>>
+) {
+  for (const name of Object.keys(values) as SweepParameter[]) {
+    config = PARAMETER_SETTERS[name](config, values[name]!);
+  }
+  return config;
+}
+
+/** Base config with one case's values written in. */
+export function configForCase(def: SweepDefinition, sweepCase: SweepCase) {
+  return applyParameters(studyBaseConfig(def), sweepCase.values);
+}
+
+/** Run one case to `def.duration` with fixed steps and summarize it. */
+export function runSweepCase(def: SweepDefinition, sweepCase: SweepCase): SweepResult {
+  const config = configForCase(def, sweepCase);
+  return {
+    ...runStudyConfig(config, def.duration, def.seed ?? 1),
+    index: sweepCase.index,
+    values: sweepCase.values
+  };
+}
+
+export type StudyOutcome = Omit<SweepResult, 'index' | 'values'>;
+
+/** One deterministic run of `config` for `duration` s of sim time. */
+export function runStudyConfig(
+  config: DustSimConfig,
+  duration: number,
+  seed: number
+): StudyOutcome {
+  const sim = createDustSimulation(config, seed);
+  const h = dustStepSize(config);
+  const steps = Math.ceil(duration / h);
+  for (let k = 0; k < steps; k++) stepDustSimulation(sim, h);
+
+  const { metrics, state } = sim;
+  let residualMass = 0;
+  let airborneMass = 0;
+  for (let i = 0; i < state.count; i++) {
+    if (state.status[i] === DustStatus.Attached) residualMass += metrics.origin[i];
+    else if (state.status[i] === DustStatus.Airborne) airborneMass += metrics.origin[i];
+  }
+  let collected = 0;
+  for (let s = 0; s < 6; s++) collected += metrics.collectedCount[s];
+
+  return {
+    // lifted dust still has to reach a trench (or leave) to count
+    clearedPercent:
+      metrics.initialMass > 0
+        ? (1 - (residualMass + airborneMass) / metrics.initialMass) * 100
+        : 0,
+    residualMass,
+    airborneMass,
+    residualFraction: residualDustFraction(state),
+    collected,
+    escaped: metrics.escapedCount,
+    driveEnergy: driveEnergy(sim.layout, config.drive, config.field.solver, steps * h),
+    fieldWork: sim.energy.fieldWork,
+    dragWork: sim.energy.dragWork,
+    timeTo90: metrics.timeTo90,
+    steps
+  };
+}
+
+const RESULT_COLUMNS = [
+  'clearedPercent',
+  'residualMass',
+  'airborneMass',
+  'residualFraction',
+  'collected',
+  'escaped',
+  'driveEnergy',
+  'fieldWork',
+  'dragWork',
+  'timeTo90',
+  'steps'
+] as const;
+
+/** One row per case, sorted by case index; parameter columns first. */
+export function sweepResultsToCSV(def: SweepDefinition, results: SweepResult[]) {
+  const names = Object.keys(def.parameters) as SweepParameter[];
+  const lines = [['case', ...names, ...RESULT_COLUMNS].join(',')];
+  for (const r of [...results].sort((a, b) => a.index - b.index)) {
+    const cells = [
+      r.index,
+      ...names.map((name) => r.values[name]),
+      ...RESULT_COLUMNS.map((c) => r[c] ?? '')
+    ];
+    lines.push(cells.join(','));
+  }
+  return lines.join('\n') + '\n';
+}
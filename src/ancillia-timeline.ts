@@ -0,0 +1,136 @@
+// ─────────────────────────────────────────────────────────────
+// Timeline scrubber (overlay controls for recording playback)
+//
+// Step back / play-pause / step forward, reverse, a speed picker and a
+// scrubber over the recorded frames, plus save, load and a way back to
+// the live run. The controls act on `timeline.player` directly; the
+// scene draws whatever frame the playhead is on.
+// ─────────────────────────────────────────────────────────────
+
+import {
+  frameIndexAt,
+  PLAYBACK_SPEEDS,
+  playPlayer,
+  RecordingPlayer,
+  stepPlayer
+} from './ancillia-recording';
+
+export type TimelineActions = {
+  save(): void;
+  load(): void;
+  exit(): void; // back to the live sim
+};
+
+export type Timeline = {
+  root: HTMLElement;
+  player: RecordingPlayer | null;
+  scrubber: HTMLInputElement;
+  play: HTMLButtonElement;
+  reverse: HTMLButtonElement;
+  speed: HTMLSelectElement;
+  label: HTMLElement;
+};
+
+function button(parent: HTMLElement, text: string, title: string, onClick: () => void) {
+  const el = document.createElement('button');
+  el.type = 'button';
+  el.textContent = text;
+  el.title = title;
+  el.addEventListener('click', onClick);
+  parent.appendChild(el);
+  return el;
+}
+
+export function createTimeline(root: HTMLElement, actions: TimelineActions): Timeline {
+  root.replaceChildren();
+  const controls = document.createElement('div');
+  root.appendChild(controls);
+
+  // handlers run after `timeline` exists
+  const withPlayer = (fn: (player: RecordingPlayer) => void) => () => {
+    if (timeline.player) fn(timeline.player);
+    updateTimeline(timeline);
+  };
+
+  button(controls, '⏮', 'Step back one frame (,)', withPlayer((p) => stepPlayer(p, -1)));
+  const play = button(controls, '▶', 'Play / pause (Space)', withPlayer(togglePlayback));
+  button(controls, '⏭', 'Step forward one frame (.)', withPlayer((p) => stepPlayer(p, 1)));
+  const reverse = button(
+    controls,
+    '⇄',
+    'Play backwards',
+    withPlayer((p) => {
+      p.reverse = !p.reverse;
+    })
+  );
+
+  const speed = document.createElement('select');
+  for (const rate of PLAYBACK_SPEEDS) {
+    const option = document.createElement('option');
+    option.value = String(rate);
+    option.textContent = `${rate}×`;
+    speed.appendChild(option);
+  }
+  speed.value = '1';
+  speed.addEventListener(
+    'change',
+    withPlayer((p) => {
+      p.speed = Number(speed.value);
+    })
+  );
+  controls.appendChild(speed);
+
+  button(controls, 'Save', 'Download the recording', actions.save);
+  button(controls, 'Load', 'Open a recording file', actions.load);
+  button(controls, 'Live', 'Back to the live simulation (Esc)', actions.exit);
+
+  const scrubber = document.createElement('input');
+  scrubber.type = 'range';
+  scrubber.min = '0';
+  scrubber.step = '1';
+  scrubber.addEventListener(
+    'input',
+    withPlayer((p) => {
+      const frame = p.recording.frames[Number(scrubber.value)];
+      if (frame) p.time = frame.time;
+      p.playing = false;
+    })
+  );
+  root.appendChild(scrubber);
+  const label = document.createElement('p');
+  root.appendChild(label);
+
+  const timeline: Timeline = { root, player: null, scrubber, play, reverse, speed, label };
+  showTimeline(timeline, null);
+  return timeline;
+}
+
+export function togglePlayback(player: RecordingPlayer) {
+  if (player.playing) player.playing = false;
+  else playPlayer(player);
+}
+
+/** Attach a player (or null to hide the controls). */
+export function showTimeline(timeline: Timeline, player: RecordingPlayer | null) {
+  timeline.player = player;
+  timeline.root.style.display = player ? '' : 'none';
+  if (!player) return;
+  timeline.scrubber.max = String(Math.max(player.recording.frames.length - 1, 0));
+  timeline.speed.value = String(player.speed);
+  updateTimeline(timeline);
+}
+
+/** Sync the controls with the playhead; cheap enough to call every frame. */
+export function updateTimeline(timeline: Timeline) {
+  const { player } = timeline;
+  if (!player) return;
+  const { frames } = player.recording;
+  const index = frameIndexAt(player.recording, player.time);
+  timeline.scrubber.value = String(index);
+  timeline.play.textContent = player.playing ? '⏸' : '▶';
+  timeline.reverse.style.opacity = player.reverse ? '1' : '0.55';
+  const start = frames[0]?.time ?? 0;
+  timeline.label.textContent =
+    `Replay t = ${(player.time - start).toFixed(3)} s · frame ${index + 1}/${frames.length}` +
+    ` · ${player.reverse ? '−' : ''}${player.speed}×`;
+}
@@ -1,8 +1,3 @@
-declare module 'three' {
-  const value: any;
-  export = value;
-}
-
 declare module 'three/examples/jsm/controls/OrbitControls.js' {
   const value: any;
   export = value;